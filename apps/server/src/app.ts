@@ -13,6 +13,9 @@ import {
   SecuritySchemes,
 } from "./lib/openapi";
 import { authRoutes, handleAuthRequest } from "./modules/auth";
+import { batchesRoutes } from "./modules/batches";
+import { BatchModel } from "./modules/batches/model";
+import { enginesRoutes } from "./modules/engines";
 import { extractRoutes } from "./modules/extract";
 import { healthRoutes } from "./modules/health";
 import { jobsRoutes } from "./modules/jobs";
@@ -20,10 +23,19 @@ import { JobModel } from "./modules/jobs/model";
 import { jobsSse } from "./modules/jobs/sse";
 import { keysRoutes } from "./modules/keys";
 import { KeyModel } from "./modules/keys/model";
+import { modelsRoutes } from "./modules/models";
 import { parseRoutes } from "./modules/parse";
+import { questionsRoutes } from "./modules/questions";
+import { QuestionModel } from "./modules/questions/model";
 import { schemasRoutes } from "./modules/schemas";
 import { SchemaModel } from "./modules/schemas/model";
+import { searchRoutes } from "./modules/search";
+import { SearchModel } from "./modules/search/model";
+import { settingsRoutes } from "./modules/settings";
+import { SettingsModel } from "./modules/settings/model";
 import { uploadsRoutes } from "./modules/uploads";
+import { webhooksRoutes } from "./modules/webhooks";
+import { WebhookModel } from "./modules/webhooks/model";
 import { bullBoardPlugin } from "./plugins/bullBoard";
 import { errorHandlerPlugin } from "./plugins/errorHandler";
 import { logger } from "./plugins/logging";
@@ -122,22 +134,40 @@ const dynamicOpenApi = () =>
 
 export const app = new Elysia()
   .model({
+    "batch.create": BatchModel.createBody,
+    "batch.createResponse": BatchModel.createResponse,
+    "batch.response": BatchModel.response,
     "job.create": JobModel.CreateJobBody,
     "job.createFromUrl": JobModel.CreateJobFromUrl,
     "job.listQuery": JobModel.ListJobsQuery,
     "job.listResponse": JobModel.ListJobsResponse,
+    "job.rerun": JobModel.RerunJobBody,
     "job.response": JobModel.JobResponse,
     "key.create": KeyModel.createBody,
     "key.createResponse": KeyModel.createResponse,
     "key.listResponse": KeyModel.listResponse,
     "key.response": KeyModel.response,
     "key.usageResponse": KeyModel.usageResponse,
+    "question.ask": QuestionModel.askBody,
+    "question.listResponse": QuestionModel.listResponse,
+    "question.response": QuestionModel.question,
     "schema.create": SchemaModel.createBody,
     "schema.generate": SchemaModel.generateBody,
     "schema.generateResponse": SchemaModel.generateResponse,
     "schema.listResponse": SchemaModel.listResponse,
     "schema.response": SchemaModel.response,
     "schema.update": SchemaModel.updateBody,
+    "search.query": SearchModel.query,
+    "search.response": SearchModel.response,
+    "search.semantic": SearchModel.semanticBody,
+    "search.semanticResponse": SearchModel.semanticResponse,
+    "settings.response": SettingsModel.response,
+    "settings.update": SettingsModel.updateBody,
+    "webhook.create": WebhookModel.createBody,
+    "webhook.createResponse": WebhookModel.createResponse,
+    "webhook.deliveryResponse": WebhookModel.deliveryResponse,
+    "webhook.response": WebhookModel.response,
+    "webhook.update": WebhookModel.updateBody,
   })
   .use(staticSpec ? staticOpenApi(staticSpec) : dynamicOpenApi())
   .use(
@@ -160,8 +190,15 @@ export const app = new Elysia()
   .use(extractRoutes)
   .use(uploadsRoutes)
   .use(jobsRoutes)
+  .use(questionsRoutes)
+  .use(batchesRoutes)
+  .use(searchRoutes)
   .use(keysRoutes)
   .use(schemasRoutes)
+  .use(enginesRoutes)
+  .use(modelsRoutes)
+  .use(settingsRoutes)
+  .use(webhooksRoutes)
   .use(jobsSse)
   .use(bullBoardPlugin);
 
@@ -0,0 +1,41 @@
+import { describe, expect, test } from "bun:test";
+
+import { decodeCursor, encodeCursor } from "./cursor";
+import { BadRequestError } from "./errors";
+
+const encodeRaw = (value: unknown): string =>
+  Buffer.from(JSON.stringify(value)).toString("base64url");
+
+describe("cursor", () => {
+  test("round-trips a position without losing microseconds", () => {
+    const cursor = { createdAt: "2024-01-15 10:30:00.123456", id: "job_abc" };
+
+    expect(decodeCursor(encodeCursor(cursor))).toEqual(cursor);
+  });
+
+  test("accepts timestamps without fractional seconds", () => {
+    const cursor = { createdAt: "2024-01-15T10:30:00", id: "job_abc" };
+
+    expect(decodeCursor(encodeCursor(cursor))).toEqual(cursor);
+  });
+
+  test("encodes to a URL-safe token", () => {
+    const token = encodeCursor({
+      createdAt: "2024-01-15 10:30:00.999999",
+      id: "job_???>>>",
+    });
+
+    expect(token).toMatch(/^[\w-]+$/);
+  });
+
+  test.each([
+    ["garbage", "not-a-cursor"],
+    ["an object", encodeRaw({ createdAt: "2024-01-15 10:30:00", id: "a" })],
+    ["a short array", encodeRaw(["2024-01-15 10:30:00"])],
+    ["a non-string id", encodeRaw(["2024-01-15 10:30:00", 1])],
+    ["an invalid timestamp", encodeRaw(["yesterday", "job_abc"])],
+    ["an injected timestamp", encodeRaw(["2024-01-15 10:30:00'--", "a"])],
+  ])("rejects %s", (_, token) => {
+    expect(() => decodeCursor(token)).toThrow(BadRequestError);
+  });
+});
@@ -0,0 +1,41 @@
+import { BadRequestError } from "./errors";
+
+const TIMESTAMP_PATTERN =
+  /^\d{4}-\d{2}-\d{2}[ T]\d{2}:\d{2}:\d{2}(\.\d{1,6})?$/;
+
+/** Position of a row in a `(createdAt, id)` ordering. */
+export interface Cursor {
+  createdAt: string;
+  id: string;
+}
+
+/**
+ * Encodes a row position as an opaque token. `createdAt` is the Postgres text
+ * form of the timestamp so no microseconds are lost to `Date`.
+ */
+export const encodeCursor = (cursor: Cursor): string =>
+  Buffer.from(JSON.stringify([cursor.createdAt, cursor.id])).toString(
+    "base64url"
+  );
+
+export const decodeCursor = (token: string): Cursor => {
+  try {
+    const value: unknown = JSON.parse(
+      Buffer.from(token, "base64url").toString("utf8")
+    );
+
+    if (
+      Array.isArray(value) &&
+      value.length === 2 &&
+      typeof value[0] === "string" &&
+      typeof value[1] === "string" &&
+      TIMESTAMP_PATTERN.test(value[0])
+    ) {
+      return { createdAt: value[0], id: value[1] };
+    }
+  } catch {
+    // Falls through to the error below.
+  }
+
+  throw new BadRequestError("Invalid cursor");
+};
@@ -0,0 +1,53 @@
+import { describe, expect, test } from "bun:test";
+
+import { assertDeliverableUrl, isPrivateAddress } from "./delivery-url";
+import { BadRequestError } from "./errors";
+
+describe("isPrivateAddress", () => {
+  test.each([
+    "127.0.0.1",
+    "10.1.2.3",
+    "172.16.0.1",
+    "172.31.255.255",
+    "192.168.1.1",
+    "169.254.169.254",
+    "100.64.0.1",
+    "0.0.0.0",
+    "::1",
+    "::",
+    "fd00:ec2::254",
+    "fe80::1",
+    "::ffff:127.0.0.1",
+    "::FFFF:169.254.169.254",
+    "not-an-ip",
+  ])("blocks %s", (address) => {
+    expect(isPrivateAddress(address)).toBe(true);
+  });
+
+  test.each(["8.8.8.8", "172.32.0.1", "93.184.216.34", "2606:4700::1111"])(
+    "allows %s",
+    (address) => {
+      expect(isPrivateAddress(address)).toBe(false);
+    }
+  );
+});
+
+describe("assertDeliverableUrl", () => {
+  test.each([
+    "ftp://example.com/hook",
+    "http://localhost:3000/hook",
+    "http://api.localhost/hook",
+    "http://127.0.0.1/hook",
+    "http://169.254.169.254/latest/meta-data",
+    "http://[::1]:8080/hook",
+    "https://10.0.0.5/hook",
+  ])("rejects %s", async (url) => {
+    await expect(assertDeliverableUrl(url)).rejects.toThrow(BadRequestError);
+  });
+
+  test("accepts a public address", async () => {
+    await expect(
+      assertDeliverableUrl("https://93.184.216.34/hook")
+    ).resolves.toBeUndefined();
+  });
+});
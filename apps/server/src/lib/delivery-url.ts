@@ -0,0 +1,90 @@
+import { lookup } from "node:dns/promises";
+import { BlockList, isIP } from "node:net";
+
+import { BadRequestError } from "./errors";
+
+// Loopback, private, link-local (including cloud metadata endpoints),
+// shared, reserved and multicast ranges.
+const BLOCKED_RANGES: [string, number, "ipv4" | "ipv6"][] = [
+  ["0.0.0.0", 8, "ipv4"],
+  ["10.0.0.0", 8, "ipv4"],
+  ["100.64.0.0", 10, "ipv4"],
+  ["127.0.0.0", 8, "ipv4"],
+  ["169.254.0.0", 16, "ipv4"],
+  ["172.16.0.0", 12, "ipv4"],
+  ["192.0.0.0", 24, "ipv4"],
+  ["192.168.0.0", 16, "ipv4"],
+  ["198.18.0.0", 15, "ipv4"],
+  ["224.0.0.0", 4, "ipv4"],
+  ["240.0.0.0", 4, "ipv4"],
+  ["::", 128, "ipv6"],
+  ["::1", 128, "ipv6"],
+  ["fc00::", 7, "ipv6"],
+  ["fe80::", 10, "ipv6"],
+  ["ff00::", 8, "ipv6"],
+];
+
+const blockList = new BlockList();
+for (const [network, prefix, type] of BLOCKED_RANGES) {
+  blockList.addSubnet(network, prefix, type);
+}
+
+const IPV4_MAPPED_PREFIX = "::ffff:";
+
+/** Whether an IP address is one a delivery must never reach. */
+export const isPrivateAddress = (address: string): boolean => {
+  const lower = address.toLowerCase();
+
+  // IPv4-mapped IPv6, e.g. `::ffff:127.0.0.1`, is checked as IPv4.
+  if (lower.startsWith(IPV4_MAPPED_PREFIX)) {
+    const mapped = lower.slice(IPV4_MAPPED_PREFIX.length);
+    if (isIP(mapped) === 4) {
+      return blockList.check(mapped, "ipv4");
+    }
+  }
+
+  const version = isIP(lower);
+  if (version === 0) {
+    return true;
+  }
+  return blockList.check(lower, version === 4 ? "ipv4" : "ipv6");
+};
+
+const resolveAddresses = async (hostname: string): Promise<string[]> => {
+  if (isIP(hostname) !== 0) {
+    return [hostname];
+  }
+
+  try {
+    const results = await lookup(hostname, { all: true });
+    return results.map((result) => result.address);
+  } catch {
+    throw new BadRequestError(`Host "${hostname}" could not be resolved`);
+  }
+};
+
+/**
+ * Rejects webhook and callback URLs the worker cannot or must not POST to:
+ * other protocols, and hosts that resolve to loopback, private, link-local
+ * or metadata addresses. Deliveries check again, as DNS can change.
+ */
+export const assertDeliverableUrl = async (url: string): Promise<void> => {
+  const { hostname, protocol } = new URL(url);
+
+  if (protocol !== "https:" && protocol !== "http:") {
+    throw new BadRequestError("URL must use http or https");
+  }
+
+  // URL keeps the brackets around IPv6 literals.
+  const host = hostname.replaceAll(/^\[|\]$/g, "").toLowerCase();
+
+  if (host === "localhost" || host.endsWith(".localhost")) {
+    throw new BadRequestError("URL must not point to a private address");
+  }
+
+  const addresses = await resolveAddresses(host);
+
+  if (addresses.length === 0 || addresses.some(isPrivateAddress)) {
+    throw new BadRequestError("URL must not point to a private address");
+  }
+};
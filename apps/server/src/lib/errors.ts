@@ -13,6 +13,13 @@ export class BadRequestError extends Error {
   }
 }
 
+export class ConflictError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "Conflict";
+  }
+}
+
 export class ForbiddenError extends Error {
   constructor(message = "Access denied") {
     super(message);
@@ -0,0 +1,160 @@
+import { db } from "@ocrbase/db";
+import { idempotencyKeys } from "@ocrbase/db/schema/idempotency-keys";
+import { env } from "@ocrbase/env/server";
+import { and, eq, lt } from "drizzle-orm";
+import { createHash } from "node:crypto";
+
+import { BadRequestError, ConflictError } from "./errors";
+
+export const IDEMPOTENCY_KEY_HEADER = "Idempotency-Key";
+export const IDEMPOTENT_REPLAY_HEADER = "Idempotent-Replayed";
+
+const MAX_KEY_LENGTH = 255;
+const HOUR_MS = 60 * 60 * 1000;
+
+interface IdempotencyOptions<T> {
+  /** Updates a stored response before it is replayed, e.g. to re-sign URLs. */
+  onReplay?: (response: T) => Promise<T>;
+}
+
+interface IdempotencyContext {
+  body: unknown;
+  organization: { id: string } | null;
+  request: Request;
+  set: {
+    headers: Record<string, string | number>;
+    status?: number | string;
+  };
+}
+
+const sha256 = (data: string | Uint8Array): string =>
+  createHash("sha256").update(data).digest("hex");
+
+/**
+ * Hashes the endpoint and body. Uploaded files are reduced to the hash of
+ * their bytes.
+ */
+const fingerprintRequest = async (
+  request: Request,
+  body: unknown
+): Promise<string> => {
+  const fields =
+    body && typeof body === "object"
+      ? await Promise.all(
+          Object.entries(body).map(
+            async ([name, value]): Promise<[string, unknown]> => [
+              name,
+              value instanceof File
+                ? `sha256:${sha256(new Uint8Array(await value.arrayBuffer()))}`
+                : value,
+            ]
+          )
+        )
+      : [];
+
+  const { pathname } = new URL(request.url);
+  return sha256(JSON.stringify([request.method, pathname, fields]));
+};
+
+/**
+ * Runs `handler` at most once per `Idempotency-Key` and organization. Repeats
+ * of the same request get the stored response back; reusing a key for a
+ * different request is a conflict. Requests without the header run as usual.
+ */
+export const withIdempotency = async <T>(
+  ctx: IdempotencyContext,
+  handler: () => Promise<T>,
+  { onReplay }: IdempotencyOptions<T> = {}
+): Promise<T> => {
+  const key = ctx.request.headers.get(IDEMPOTENCY_KEY_HEADER)?.trim();
+
+  if (!key || !ctx.organization) {
+    return handler();
+  }
+
+  if (key.length > MAX_KEY_LENGTH) {
+    throw new BadRequestError(
+      `${IDEMPOTENCY_KEY_HEADER} must be at most ${MAX_KEY_LENGTH} characters`
+    );
+  }
+
+  const fingerprint = await fingerprintRequest(ctx.request, ctx.body);
+  const matchesKey = and(
+    eq(idempotencyKeys.organizationId, ctx.organization.id),
+    eq(idempotencyKeys.key, key)
+  );
+
+  // An expired key is forgotten, as if it had never been used.
+  await db
+    .delete(idempotencyKeys)
+    .where(and(matchesKey, lt(idempotencyKeys.expiresAt, new Date())));
+
+  const [claimed] = await db
+    .insert(idempotencyKeys)
+    .values({
+      expiresAt: new Date(Date.now() + env.IDEMPOTENCY_KEY_TTL_HOURS * HOUR_MS),
+      key,
+      organizationId: ctx.organization.id,
+      requestFingerprint: fingerprint,
+    })
+    .onConflictDoNothing()
+    .returning({ key: idempotencyKeys.key });
+
+  if (!claimed) {
+    const existing = await db.query.idempotencyKeys.findFirst({
+      where: matchesKey,
+    });
+
+    if (existing && existing.requestFingerprint !== fingerprint) {
+      throw new ConflictError(
+        `${IDEMPOTENCY_KEY_HEADER} was already used for a different request`
+      );
+    }
+
+    if (!existing || existing.response === null) {
+      throw new ConflictError(
+        `A request with this ${IDEMPOTENCY_KEY_HEADER} is still in progress`
+      );
+    }
+
+    ctx.set.headers[IDEMPOTENT_REPLAY_HEADER] = "true";
+    if (existing.statusCode !== null) {
+      ctx.set.status = existing.statusCode;
+    }
+    const response = existing.response as T;
+    return onReplay ? onReplay(response) : response;
+  }
+
+  try {
+    const response = await handler();
+
+    await db
+      .update(idempotencyKeys)
+      .set({
+        response,
+        statusCode: typeof ctx.set.status === "number" ? ctx.set.status : null,
+      })
+      .where(matchesKey);
+
+    return response;
+  } catch (error) {
+    // A failed request releases the key so the client can retry with it.
+    await db.delete(idempotencyKeys).where(matchesKey);
+    throw error;
+  }
+};
+
+/**
+ * Deletes every expired key. Expired keys are otherwise only forgotten when
+ * the same key is sent again.
+ */
+export const purgeExpiredIdempotencyKeys = async (
+  now = new Date()
+): Promise<number> => {
+  const deleted = await db
+    .delete(idempotencyKeys)
+    .where(lt(idempotencyKeys.expiresAt, now))
+    .returning({ key: idempotencyKeys.key });
+
+  return deleted.length;
+};
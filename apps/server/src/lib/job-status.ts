@@ -1,16 +1,24 @@
-import type { JobStatus } from "@ocrbase/db/lib/enums";
+import type { JobProgress, JobStatus } from "@ocrbase/db/lib/enums";
 
 import { db } from "@ocrbase/db";
-import { apiKeyUsageDaily, usageEvents } from "@ocrbase/db/schema/api-keys";
-import { jobs } from "@ocrbase/db/schema/jobs";
-import { eq, sql } from "drizzle-orm";
+import { jobPages } from "@ocrbase/db/schema/job-pages";
+import {
+  type ExtractionFieldMeta,
+  type ExtractionUsage,
+  type ExtractionValidationError,
+  jobs,
+} from "@ocrbase/db/schema/jobs";
+import { and, asc, eq, inArray, ne, sql } from "drizzle-orm";
 
-import type { LlmUsage } from "../services/llm";
+import type { OcrPage } from "../services/ocr";
 
 import { publishJobUpdate } from "../services/realtime";
+import { recordUsage } from "../services/usage";
 
 interface UpdateData {
   status?: JobStatus;
+  cacheHit?: boolean;
+  fileHash?: string;
   markdownResult?: string;
   jsonResult?: unknown;
   pageCount?: number;
@@ -23,28 +31,55 @@ interface UpdateData {
   processingTimeMs?: number;
 }
 
+const ACTIVE_STATUSES: JobStatus[] = ["pending", "processing", "extracting"];
+
+/**
+ * Thrown by the worker when it notices a job was cancelled between stages.
+ */
+export class JobCancelledError extends Error {
+  constructor(jobId: string) {
+    super(`Job was cancelled: ${jobId}`);
+    this.name = "JobCancelledError";
+  }
+}
+
 export interface CompleteJobResult {
+  /** Pages to bill, when not every counted page went through OCR. */
+  billablePages?: number;
   markdownResult: string;
   jsonResult?: unknown;
+  jsonResultMeta?: ExtractionFieldMeta[] | null;
+  /** Pages sent to OCR. With a page range, only the selected pages are billed. */
   pageCount: number;
   tokenCount?: number;
   llmModel?: string;
-  llmUsage?: LlmUsage;
+  llmProvider?: string;
+  llmUsage?: ExtractionUsage;
   processingTimeMs: number;
+  validationErrors?: ExtractionValidationError[] | null;
 }
 
+// Worker updates never overwrite a cancellation that raced with them.
+const notCancelled = (jobId: string) =>
+  and(eq(jobs.id, jobId), ne(jobs.status, "cancelled"));
+
 export const updateJobStatus = async (
   jobId: string,
   status: JobStatus,
   data?: Omit<UpdateData, "status">
 ): Promise<void> => {
-  await db
+  const updated = await db
     .update(jobs)
     .set({
       status,
       ...data,
     })
-    .where(eq(jobs.id, jobId));
+    .where(notCancelled(jobId))
+    .returning({ id: jobs.id });
+
+  if (updated.length === 0) {
+    return;
+  }
 
   await publishJobUpdate(jobId, {
     data: {
@@ -56,10 +91,14 @@ export const updateJobStatus = async (
   });
 };
 
+/**
+ * Stores the result and bills the job. Returns false, without billing, when
+ * the job was cancelled while it ran.
+ */
 export const completeJob = async (
   jobId: string,
   result: CompleteJobResult
-): Promise<void> => {
+): Promise<boolean> => {
   const completedAt = new Date();
 
   const [updatedJob] = await db
@@ -67,94 +106,84 @@ export const completeJob = async (
     .set({
       completedAt,
       jsonResult: result.jsonResult,
+      jsonResultMeta: result.jsonResultMeta,
       llmModel: result.llmModel,
+      llmProvider: result.llmProvider,
+      llmUsage: result.llmUsage,
       markdownResult: result.markdownResult,
       pageCount: result.pageCount,
       processingTimeMs: result.processingTimeMs,
       status: "completed",
       tokenCount: result.tokenCount,
+      validationErrors: result.validationErrors,
     })
-    .where(eq(jobs.id, jobId))
-    .returning({ apiKeyId: jobs.apiKeyId });
-
-  if (updatedJob?.apiKeyId) {
-    const today = completedAt.toISOString().split("T")[0] as string;
-    const promptTokens = result.llmUsage?.promptTokens ?? 0;
-    const completionTokens = result.llmUsage?.completionTokens ?? 0;
-    const { apiKeyId } = updatedJob;
-
-    await db.transaction(async (tx) => {
-      const [inserted] = await tx
-        .insert(usageEvents)
-        .values({
-          apiKeyId,
-          completionTokens,
-          jobId,
-          model: result.llmModel ?? null,
-          pages: result.pageCount,
-          promptTokens,
-        })
-        .onConflictDoNothing({ target: usageEvents.jobId })
-        .returning({ id: usageEvents.id });
-
-      // Only update daily aggregate if event was inserted (not a retry)
-      if (inserted) {
-        await tx
-          .insert(apiKeyUsageDaily)
-          .values({
-            apiKeyId,
-            completionTokens,
-            day: today,
-            jobsCount: 1,
-            pages: result.pageCount,
-            promptTokens,
-          })
-          .onConflictDoUpdate({
-            set: {
-              completionTokens: sql`${apiKeyUsageDaily.completionTokens} + ${completionTokens}`,
-              jobsCount: sql`${apiKeyUsageDaily.jobsCount} + 1`,
-              pages: sql`${apiKeyUsageDaily.pages} + ${result.pageCount}`,
-              promptTokens: sql`${apiKeyUsageDaily.promptTokens} + ${promptTokens}`,
-            },
-            target: [apiKeyUsageDaily.apiKeyId, apiKeyUsageDaily.day],
-          });
-      }
+    .where(notCancelled(jobId))
+    .returning({ apiKeyId: jobs.apiKeyId, retention: jobs.retention });
+
+  if (!updatedJob) {
+    return false;
+  }
+
+  if (updatedJob.apiKeyId) {
+    await recordUsage({
+      apiKeyId: updatedJob.apiKeyId,
+      at: completedAt,
+      completionTokens: result.llmUsage?.completionTokens ?? 0,
+      jobId,
+      model: result.llmModel ?? null,
+      pages: result.billablePages ?? result.pageCount,
+      promptTokens: result.llmUsage?.promptTokens ?? 0,
     });
   }
 
+  // Zero-retention results stay out of Redis; streams fetch them once.
+  const isZeroRetention = updatedJob.retention === "none";
+
   await publishJobUpdate(jobId, {
     data: {
-      jsonResult: result.jsonResult,
-      markdownResult: result.markdownResult,
+      jsonResult: isZeroRetention ? undefined : result.jsonResult,
+      markdownResult: isZeroRetention ? undefined : result.markdownResult,
       processingTimeMs: result.processingTimeMs,
       status: "completed",
     },
     jobId,
     type: "completed",
   });
+
+  return true;
 };
 
+/**
+ * Records a failed attempt. A job that will be retried goes back to
+ * `pending` so it can still be cancelled during the backoff. Returns false
+ * when the job was cancelled, in which case the cancellation stands.
+ */
 export const failJob = async (
   jobId: string,
   errorCode: string,
   errorMessage: string,
   shouldRetry = false
-): Promise<void> => {
+): Promise<boolean> => {
   const job = await db.query.jobs.findFirst({
     where: eq(jobs.id, jobId),
   });
 
   const retryCount = (job?.retryCount ?? 0) + 1;
 
-  await db
+  const updated = await db
     .update(jobs)
     .set({
       errorCode,
       errorMessage,
       retryCount,
-      status: "failed",
+      status: shouldRetry ? "pending" : "failed",
     })
-    .where(eq(jobs.id, jobId));
+    .where(notCancelled(jobId))
+    .returning({ id: jobs.id });
+
+  if (updated.length === 0) {
+    return false;
+  }
 
   if (!shouldRetry) {
     await publishJobUpdate(jobId, {
@@ -166,6 +195,138 @@ export const failJob = async (
       type: "error",
     });
   }
+
+  return true;
+};
+
+/**
+ * Marks an unfinished job as cancelled. Returns false when the job already
+ * finished, failed or was cancelled.
+ */
+export const cancelJob = async (jobId: string): Promise<boolean> => {
+  const updated = await db
+    .update(jobs)
+    .set({ completedAt: new Date(), status: "cancelled" })
+    .where(and(eq(jobs.id, jobId), inArray(jobs.status, ACTIVE_STATUSES)))
+    .returning({ id: jobs.id });
+
+  if (updated.length === 0) {
+    return false;
+  }
+
+  await publishJobUpdate(jobId, {
+    data: { status: "cancelled" },
+    jobId,
+    type: "cancelled",
+  });
+
+  return true;
+};
+
+export const isJobCancelled = async (jobId: string): Promise<boolean> => {
+  const job = await db.query.jobs.findFirst({
+    columns: { status: true },
+    where: eq(jobs.id, jobId),
+  });
+
+  return job?.status === "cancelled";
+};
+
+export const assertJobNotCancelled = async (jobId: string): Promise<void> => {
+  if (await isJobCancelled(jobId)) {
+    throw new JobCancelledError(jobId);
+  }
+};
+
+/**
+ * Replaces the stored pages of a job. Retries re-run OCR, so pages from an
+ * earlier attempt are dropped rather than merged.
+ */
+export const saveJobPages = async (
+  jobId: string,
+  pages: OcrPage[]
+): Promise<void> => {
+  await db.transaction(async (tx) => {
+    await tx.delete(jobPages).where(eq(jobPages.jobId, jobId));
+
+    if (pages.length === 0) {
+      return;
+    }
+
+    await tx.insert(jobPages).values(
+      pages.map((page) => ({
+        height: page.height,
+        jobId,
+        layout: page.layout,
+        markdown: page.markdown,
+        pageNumber: page.pageNumber,
+        processingTimeMs: page.processingTimeMs ?? null,
+        width: page.width,
+      }))
+    );
+  });
+};
+
+/**
+ * Stores pages of a chunk, overwriting pages with the same number. Earlier
+ * chunks are left in place so a retried job can resume after them.
+ */
+export const upsertJobPages = async (
+  jobId: string,
+  pages: OcrPage[]
+): Promise<void> => {
+  if (pages.length === 0) {
+    return;
+  }
+
+  await db
+    .insert(jobPages)
+    .values(
+      pages.map((page) => ({
+        height: page.height,
+        jobId,
+        layout: page.layout,
+        markdown: page.markdown,
+        pageNumber: page.pageNumber,
+        processingTimeMs: page.processingTimeMs ?? null,
+        width: page.width,
+      }))
+    )
+    .onConflictDoUpdate({
+      set: {
+        height: sql`excluded.height`,
+        layout: sql`excluded.layout`,
+        markdown: sql`excluded.markdown`,
+        processingTimeMs: sql`excluded.processing_time_ms`,
+        width: sql`excluded.width`,
+      },
+      target: [jobPages.jobId, jobPages.pageNumber],
+    });
+};
+
+export const getJobPages = (jobId: string, pageNumbers?: number[]) =>
+  db.query.jobPages.findMany({
+    orderBy: asc(jobPages.pageNumber),
+    where: pageNumbers
+      ? and(
+          eq(jobPages.jobId, jobId),
+          inArray(jobPages.pageNumber, pageNumbers)
+        )
+      : eq(jobPages.jobId, jobId),
+  });
+
+export const publishJobProgress = async (
+  jobId: string,
+  progress: JobProgress
+): Promise<void> => {
+  await publishJobUpdate(jobId, {
+    data: {
+      ...progress,
+      status: progress.stage === "extracting" ? "extracting" : "processing",
+    },
+    jobId,
+    type: "progress",
+  });
 };
 
 export const getJobById = (jobId: string) =>
@@ -0,0 +1,120 @@
+import { describe, expect, test } from "bun:test";
+
+import { BadRequestError } from "./errors";
+import {
+  assertValidatableSchema,
+  toJsonPointer,
+  validateJsonSchema,
+} from "./json-schema";
+
+const invoiceSchema = {
+  properties: {
+    currency: { enum: ["EUR", "USD"], type: "string" },
+    lineItems: {
+      items: {
+        properties: {
+          description: { type: "string" },
+          total: { minimum: 0, type: "number" },
+        },
+        required: ["description", "total"],
+        type: "object",
+      },
+      type: "array",
+    },
+    total: { type: "number" },
+  },
+  required: ["total"],
+  type: "object",
+};
+
+describe("toJsonPointer", () => {
+  test("joins segments and escapes `~` and `/`", () => {
+    expect(toJsonPointer(["lineItems", 0, "total"])).toBe("/lineItems/0/total");
+    expect(toJsonPointer(["a/b", "c~d"])).toBe("/a~1b/c~0d");
+    expect(toJsonPointer([])).toBe("");
+  });
+});
+
+describe("validateJsonSchema", () => {
+  test("returns no errors for a conforming value", () => {
+    expect(
+      validateJsonSchema(invoiceSchema, {
+        currency: "EUR",
+        lineItems: [{ description: "Widget", total: 10 }],
+        total: 10,
+      })
+    ).toEqual([]);
+  });
+
+  test("reports nested violations by JSON Pointer", () => {
+    const errors = validateJsonSchema(invoiceSchema, {
+      currency: "GBP",
+      lineItems: [{ description: "Widget", total: -1 }, { total: 2 }],
+    });
+
+    expect(errors.map((error) => error.path).toSorted()).toEqual([
+      "/currency",
+      "/lineItems/0/total",
+      "/lineItems/1/description",
+      "/total",
+    ]);
+  });
+
+  test("resolves draft 2020-12 `$defs` references", () => {
+    const schema = {
+      $defs: { amount: { type: "number" } },
+      properties: { total: { $ref: "#/$defs/amount" } },
+      type: "object",
+    };
+
+    expect(validateJsonSchema(schema, { total: 1 })).toEqual([]);
+    expect(validateJsonSchema(schema, { total: "1" })).toHaveLength(1);
+  });
+
+  test("resolves draft-07 `definitions` references", () => {
+    const schema = {
+      definitions: { amount: { type: "number" } },
+      properties: { total: { $ref: "#/definitions/amount" } },
+      type: "object",
+    };
+
+    expect(validateJsonSchema(schema, { total: 1 })).toEqual([]);
+    expect(validateJsonSchema(schema, { total: "1" })).toEqual([
+      expect.objectContaining({ path: "/total" }),
+    ]);
+  });
+
+  test("reports a schema that cannot be compiled instead of throwing", () => {
+    const errors = validateJsonSchema(
+      { $ref: "https://example.com/schema.json" },
+      {}
+    );
+
+    expect(errors).toEqual([
+      expect.objectContaining({
+        message: expect.stringContaining("Schema cannot be validated"),
+        path: "",
+      }),
+    ]);
+  });
+});
+
+describe("assertValidatableSchema", () => {
+  test("accepts draft-07 and draft 2020-12 schemas", () => {
+    expect(() => assertValidatableSchema(invoiceSchema)).not.toThrow();
+    expect(() =>
+      assertValidatableSchema({
+        $schema: "http://json-schema.org/draft-07/schema#",
+        definitions: { name: { type: "string" } },
+        properties: { name: { $ref: "#/definitions/name" } },
+        type: "object",
+      })
+    ).not.toThrow();
+  });
+
+  test("rejects schemas with external references", () => {
+    expect(() =>
+      assertValidatableSchema({ $ref: "https://example.com/schema.json" })
+    ).toThrow(BadRequestError);
+  });
+});
@@ -0,0 +1,71 @@
+import type { ExtractionValidationError } from "@ocrbase/db/schema/jobs";
+
+import { z } from "zod";
+
+import { BadRequestError } from "./errors";
+
+type JsonSchema = z.core.JSONSchema.JSONSchema;
+
+/** Joins path segments into a JSON Pointer, e.g. `/lineItems/0/total`. */
+export const toJsonPointer = (path: PropertyKey[]): string =>
+  path
+    .map(
+      (segment) =>
+        `/${String(segment).replaceAll("~", "~0").replaceAll("/", "~1")}`
+    )
+    .join("");
+
+/**
+ * Schemas with `definitions` but no `$schema` are read as draft-07, where
+ * `$ref`s point into `definitions`; others default to draft 2020-12 `$defs`.
+ */
+const compile = (schema: Record<string, unknown>): z.ZodType =>
+  z.fromJSONSchema(schema as JsonSchema, {
+    defaultTarget:
+      "definitions" in schema && !("$defs" in schema) ? "draft-7" : undefined,
+  });
+
+/**
+ * Rejects schemas the validator cannot check, such as ones with external
+ * `$ref`s or `if`/`then` conditions, before they are saved.
+ */
+export const assertValidatableSchema = (
+  schema: Record<string, unknown>
+): void => {
+  try {
+    compile(schema);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new BadRequestError(`Invalid JSON schema: ${reason}`);
+  }
+};
+
+/**
+ * Checks a value against a JSON Schema: types, nested `required`, enums,
+ * formats and bounds. Returns every violation, or an empty array.
+ */
+export const validateJsonSchema = (
+  schema: Record<string, unknown>,
+  value: unknown
+): ExtractionValidationError[] => {
+  let validator: z.ZodType;
+
+  try {
+    validator = compile(schema);
+  } catch (error) {
+    // Schemas saved before validation existed may not compile.
+    const reason = error instanceof Error ? error.message : String(error);
+    return [{ message: `Schema cannot be validated: ${reason}`, path: "" }];
+  }
+
+  const result = validator.safeParse(value);
+
+  if (result.success) {
+    return [];
+  }
+
+  return result.error.issues.map((issue) => ({
+    message: issue.message,
+    path: toJsonPointer(issue.path),
+  }));
+};
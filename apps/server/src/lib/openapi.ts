@@ -34,17 +34,29 @@ export const OpenApiTags = [
   { description: "Document parsing (OCR to markdown)", name: "Parse" },
   { description: "Structured data extraction", name: "Extract" },
   { description: "OCR job management", name: "Jobs" },
+  { description: "Bulk job submission", name: "Batches" },
+  { description: "Full-text search over parsed documents", name: "Search" },
   { description: "API key management", name: "Keys" },
   { description: "Extraction schema management", name: "Schemas" },
   { description: "Direct upload with presigned URLs", name: "Uploads" },
+  { description: "Available OCR engines", name: "Engines" },
+  { description: "Available extraction models", name: "Models" },
+  { description: "Organization settings", name: "Settings" },
+  { description: "Outbound webhooks for job events", name: "Webhooks" },
 ];
 
 // Tag groups for better organization in docs (Scalar/Redocly extension)
 export const OpenApiTagGroups = [
   { name: "System", tags: ["Health"] },
   { name: "Authentication", tags: ["Auth", "Organization"] },
-  { name: "Documents", tags: ["Parse", "Extract", "Uploads", "Jobs"] },
-  { name: "Configuration", tags: ["Keys", "Schemas"] },
+  {
+    name: "Documents",
+    tags: ["Parse", "Extract", "Uploads", "Jobs", "Batches", "Search"],
+  },
+  {
+    name: "Configuration",
+    tags: ["Keys", "Schemas", "Engines", "Models", "Settings", "Webhooks"],
+  },
 ];
 
 // File upload constraints
@@ -62,9 +74,12 @@ export const FileConstraints = {
 
 // ID patterns for validation
 export const IdPatterns = {
+  batch: "^bat_[a-zA-Z0-9_-]+$",
   job: "^job_[a-zA-Z0-9_-]+$",
   key: "^ak_[a-zA-Z0-9_-]+$",
   schema: "^sch_[a-zA-Z0-9_-]+$",
+  webhook: "^wh_[a-zA-Z0-9_-]+$",
+  webhookDelivery: "^whd_[a-zA-Z0-9_-]+$",
 };
 
 // Example URLs for documentation
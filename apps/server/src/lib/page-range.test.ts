@@ -0,0 +1,63 @@
+import { describe, expect, test } from "bun:test";
+
+import { BadRequestError } from "./errors";
+import {
+  normalizePageRange,
+  parsePageRange,
+  selectPageNumbers,
+} from "./page-range";
+
+describe("parsePageRange", () => {
+  test("parses single pages and ranges into spans", () => {
+    expect(parsePageRange("1-3,7")).toEqual([
+      { end: 3, start: 1 },
+      { end: 7, start: 7 },
+    ]);
+  });
+
+  test("allows whitespace around pages and dashes", () => {
+    expect(parsePageRange(" 2 - 4 , 9 ")).toEqual([
+      { end: 4, start: 2 },
+      { end: 9, start: 9 },
+    ]);
+  });
+
+  test("keeps large ranges as a single span", () => {
+    expect(parsePageRange("1-100000")).toEqual([{ end: 100_000, start: 1 }]);
+  });
+
+  test.each(["", "1,,2", "a", "1-", "-3", "1-2-3", "1.5"])(
+    "rejects %p",
+    (value) => {
+      expect(() => parsePageRange(value)).toThrow(BadRequestError);
+    }
+  );
+
+  test("rejects page zero and descending ranges", () => {
+    expect(() => parsePageRange("0")).toThrow("pages start at 1");
+    expect(() => parsePageRange("5-2")).toThrow("ranges must be ascending");
+  });
+});
+
+describe("normalizePageRange", () => {
+  test("strips whitespace", () => {
+    expect(normalizePageRange("1 - 3, 7")).toBe("1-3,7");
+  });
+
+  test("rejects invalid selections", () => {
+    expect(() => normalizePageRange("3-1")).toThrow(BadRequestError);
+  });
+});
+
+describe("selectPageNumbers", () => {
+  test("lists selected pages in document order without duplicates", () => {
+    expect(selectPageNumbers(parsePageRange("5,1-3,2"), 10)).toEqual([
+      1, 2, 3, 5,
+    ]);
+  });
+
+  test("drops pages past the end of the document", () => {
+    expect(selectPageNumbers(parsePageRange("2-8"), 4)).toEqual([2, 3, 4]);
+    expect(selectPageNumbers(parsePageRange("9"), 4)).toEqual([]);
+  });
+});
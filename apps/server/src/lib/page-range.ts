@@ -0,0 +1,61 @@
+import { BadRequestError } from "./errors";
+
+export interface PageSpan {
+  start: number;
+  end: number;
+}
+
+/**
+ * Parses a page selection such as `"1-3,7"` into spans. Ranges are kept as
+ * spans rather than expanded so `"1-100000"` stays cheap.
+ */
+export const parsePageRange = (value: string): PageSpan[] => {
+  const parts = value.split(",").map((part) => part.trim());
+
+  if (parts.some((part) => part.length === 0)) {
+    throw new BadRequestError(`Invalid page range "${value}"`);
+  }
+
+  return parts.map((part): PageSpan => {
+    const match = /^(\d+)(?:\s*-\s*(\d+))?$/.exec(part);
+    if (!match) {
+      throw new BadRequestError(`Invalid page range "${value}"`);
+    }
+
+    const start = Number(match[1]);
+    const end = match[2] === undefined ? start : Number(match[2]);
+
+    if (start < 1 || end < start) {
+      throw new BadRequestError(
+        `Invalid page range "${part}": pages start at 1 and ranges must be ascending`
+      );
+    }
+
+    return { end, start };
+  });
+};
+
+/** Validates a page selection and strips whitespace, e.g. `"1 - 3, 7"` → `"1-3,7"`. */
+export const normalizePageRange = (value: string): string => {
+  parsePageRange(value);
+  return value.replaceAll(/\s+/g, "");
+};
+
+/**
+ * Lists the selected page numbers that exist in a document of `pageCount`
+ * pages, in document order and without duplicates.
+ */
+export const selectPageNumbers = (
+  spans: PageSpan[],
+  pageCount: number
+): number[] => {
+  const pageNumbers: number[] = [];
+
+  for (let page = 1; page <= pageCount; page += 1) {
+    if (spans.some(({ end, start }) => page >= start && page <= end)) {
+      pageNumbers.push(page);
+    }
+  }
+
+  return pageNumbers;
+};
@@ -0,0 +1,3 @@
+/** Serializes one server-sent event. */
+export const formatSseEvent = (event: string, data: unknown): string =>
+  `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
@@ -0,0 +1,58 @@
+import { describe, expect, test } from "bun:test";
+import { createHmac, timingSafeEqual } from "node:crypto";
+
+import { formatSignatureHeader, signWebhookPayload } from "./webhook-signature";
+
+const SECRET = "whsec_test";
+const TIMESTAMP = 1_700_000_000;
+const BODY = JSON.stringify({ id: "wh_123", type: "job.completed" });
+
+// The receiver-side check from the webhooks docs.
+const verify = (secret: string, header: string, body: string): boolean => {
+  const parts = Object.fromEntries(
+    header.split(",").map((part) => part.split("="))
+  ) as Record<string, string | undefined>;
+  const expected = createHmac("sha256", secret)
+    .update(`${parts.t}.${body}`)
+    .digest("hex");
+
+  return timingSafeEqual(Buffer.from(expected), Buffer.from(parts.v1 ?? ""));
+};
+
+describe("signWebhookPayload", () => {
+  test("is the HMAC-SHA256 of `<timestamp>.<body>`", () => {
+    expect(signWebhookPayload(SECRET, TIMESTAMP, BODY)).toBe(
+      createHmac("sha256", SECRET).update(`${TIMESTAMP}.${BODY}`).digest("hex")
+    );
+  });
+
+  test("changes with the secret, timestamp and body", () => {
+    const signature = signWebhookPayload(SECRET, TIMESTAMP, BODY);
+
+    expect(signWebhookPayload("whsec_other", TIMESTAMP, BODY)).not.toBe(
+      signature
+    );
+    expect(signWebhookPayload(SECRET, TIMESTAMP + 1, BODY)).not.toBe(signature);
+    expect(signWebhookPayload(SECRET, TIMESTAMP, `${BODY} `)).not.toBe(
+      signature
+    );
+  });
+});
+
+describe("formatSignatureHeader", () => {
+  test("carries the timestamp and signature", () => {
+    expect(formatSignatureHeader(SECRET, TIMESTAMP, BODY)).toBe(
+      `t=${TIMESTAMP},v1=${signWebhookPayload(SECRET, TIMESTAMP, BODY)}`
+    );
+  });
+
+  test("verifies with the documented receiver check", () => {
+    const header = formatSignatureHeader(SECRET, TIMESTAMP, BODY);
+
+    expect(verify(SECRET, header, BODY)).toBe(true);
+    expect(verify("whsec_other", header, BODY)).toBe(false);
+    expect(verify(SECRET, header, BODY.replace("wh_123", "wh_456"))).toBe(
+      false
+    );
+  });
+});
@@ -0,0 +1,21 @@
+import { createHmac } from "node:crypto";
+
+export const SIGNATURE_HEADER = "X-Ocrbase-Signature";
+
+/**
+ * Signs `<timestamp>.<body>` with the endpoint secret. Receivers recompute the
+ * HMAC from the raw body and the `t` value of the signature header.
+ */
+export const signWebhookPayload = (
+  secret: string,
+  timestamp: number,
+  body: string
+): string =>
+  createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+
+/** Builds the `t=<unix seconds>,v1=<hex signature>` header value. */
+export const formatSignatureHeader = (
+  secret: string,
+  timestamp: number,
+  body: string
+): string => `t=${timestamp},v1=${signWebhookPayload(secret, timestamp, body)}`;
@@ -3,7 +3,7 @@ import pino from "pino";
 
 import { envContext } from "./env-context";
 
-type WorkerJobSource = "api_upload" | "storage" | "url";
+type WorkerJobSource = "api_upload" | "job" | "storage" | "url";
 
 export interface WorkerJobContext {
   event: "job_processing";
@@ -27,15 +27,22 @@ export interface WorkerJobContext {
   processingTimeMs?: number;
   storageDurationMs?: number;
   ocrDurationMs?: number;
+  ocrChunks?: number;
+  ocrEngine?: string;
+  cacheHit?: boolean;
+  pageRange?: string;
+  extractionChunks?: number;
   llmDurationMs?: number;
   llmModel?: string;
+  llmProvider?: string;
   tokenCount?: number;
+  embeddedChunks?: number;
   retry?: {
     attempt: number;
     maxAttempts: number;
     willRetryOnFailure: boolean;
   };
-  outcome?: "success" | "error";
+  outcome?: "success" | "error" | "cancelled";
   error?: {
     code?: string;
     message: string;
@@ -0,0 +1,195 @@
+import type { Batch } from "@ocrbase/db/schema/batches";
+
+import { Elysia, t } from "elysia";
+
+import type { BatchResponse, BatchStatusCounts } from "./model";
+
+import { NotFoundError } from "../../lib/errors";
+import { IdPatterns } from "../../lib/openapi";
+import { requireAuth } from "../../plugins/auth";
+import { JobService } from "../jobs/service";
+import { formatJobResponse } from "../jobs/shared";
+import { BatchModel } from "./model";
+import { BatchService } from "./service";
+
+const RESULTS_PAGE_SIZE = 100;
+
+const commonResponses = {
+  401: { description: "Unauthorized - Invalid or missing API key" },
+  429: { description: "Too Many Requests - Rate limit exceeded" },
+  500: { description: "Internal Server Error" },
+};
+
+const BatchIdParams = t.Object({
+  id: t.String({
+    description: "Batch ID",
+    examples: ["bat_abc123xyz"],
+    pattern: IdPatterns.batch,
+  }),
+});
+
+const formatBatchResponse = (
+  batch: Batch,
+  counts: BatchStatusCounts
+): BatchResponse => ({
+  counts,
+  createdAt: batch.createdAt.toISOString(),
+  hints: batch.hints,
+  id: batch.id,
+  jobCount: batch.jobCount,
+  schemaId: batch.schemaId,
+  status:
+    counts.completed + counts.failed + counts.cancelled >= batch.jobCount
+      ? "completed"
+      : "processing",
+  type: batch.type,
+  updatedAt: batch.updatedAt.toISOString(),
+});
+
+export const batchesRoutes = new Elysia({ prefix: "/v1/batches" })
+  .use(requireAuth)
+  .post(
+    "/",
+    async (ctx) => {
+      const { apiKey, body, organization, user } = ctx;
+      const { requestId } = ctx as { requestId?: string };
+
+      if (!user || !organization) {
+        throw new Error("Unauthorized");
+      }
+
+      const { batch, jobIds } = await BatchService.create({
+        apiKeyId: apiKey?.id,
+        body,
+        organizationId: organization.id,
+        requestId,
+        userId: user.id,
+      });
+
+      return {
+        ...formatBatchResponse(batch, {
+          cancelled: 0,
+          completed: 0,
+          extracting: 0,
+          failed: 0,
+          pending: jobIds.length,
+          processing: 0,
+        }),
+        jobIds,
+      };
+    },
+    {
+      body: BatchModel.createBody,
+      detail: {
+        description: `Submit many documents in one request.
+
+Each file or URL becomes its own job sharing \`type\`, \`schemaId\`, \`hints\`, \`model\`, \`engine\` and \`pages\`. \`type\` defaults to \`extract\`. The whole batch counts as a single request against the rate limit.
+
+Send files as multipart form data, or URLs as a JSON body.`,
+        responses: {
+          202: { description: "Batch accepted for processing" },
+          400: { description: "Bad Request - No documents or too many" },
+          404: { description: "Not Found - Schema does not exist" },
+          413: { description: "Payload Too Large - Request body too big" },
+          ...commonResponses,
+        },
+        tags: ["Batches"],
+      },
+    }
+  )
+  .get(
+    "/:id",
+    async ({ organization, params, user }) => {
+      if (!user || !organization) {
+        throw new Error("Unauthorized");
+      }
+
+      const batch = await BatchService.getById(organization.id, params.id);
+
+      if (!batch) {
+        throw new NotFoundError("Batch not found");
+      }
+
+      const counts = await BatchService.getStatusCounts(batch.id);
+      return formatBatchResponse(batch, counts);
+    },
+    {
+      detail: {
+        description: `Get a batch with the number of its jobs in each status.
+
+\`status\` is \`completed\` once every job has completed, failed or been cancelled.`,
+        responses: {
+          200: { description: "Batch with status counts" },
+          404: { description: "Not Found - Batch does not exist" },
+          ...commonResponses,
+        },
+        tags: ["Batches"],
+      },
+      params: BatchIdParams,
+    }
+  )
+  .get(
+    "/:id/results",
+    async ({ organization, params, user }) => {
+      if (!user || !organization) {
+        throw new Error("Unauthorized");
+      }
+
+      const batch = await BatchService.getById(organization.id, params.id);
+
+      if (!batch) {
+        throw new NotFoundError("Batch not found");
+      }
+
+      const encoder = new TextEncoder();
+      let cursor: string | null = null;
+
+      const stream = new ReadableStream({
+        async pull(controller) {
+          const page = await BatchService.listJobsAfter(
+            batch.id,
+            cursor,
+            RESULTS_PAGE_SIZE
+          );
+
+          // Zero-retention results are handed out once, as by GET /v1/jobs/:id.
+          const fetched = await Promise.all(
+            page.map((job) => JobService.fetchResults(job))
+          );
+          const lines = fetched
+            .map((job) => `${JSON.stringify(formatJobResponse(job))}\n`)
+            .join("");
+          if (lines) {
+            controller.enqueue(encoder.encode(lines));
+          }
+
+          if (page.length < RESULTS_PAGE_SIZE) {
+            controller.close();
+            return;
+          }
+
+          cursor = page.at(-1)?.id ?? null;
+        },
+      });
+
+      return new Response(stream, {
+        headers: { "Content-Type": "application/x-ndjson" },
+      });
+    },
+    {
+      detail: {
+        description: `Stream every job of a batch as newline-delimited JSON.
+
+Each line is a job object as returned by \`GET /v1/jobs/{id}\`, including \`markdownResult\` and \`jsonResult\`. Jobs that are still running are included with their current status, so call this once the batch is \`completed\` to get every result.
+
+Results of zero-retention jobs are included the first time they are fetched, here or from \`GET /v1/jobs/{id}\`, and deleted right after.`,
+        responses: {
+          200: { description: "NDJSON stream of job objects" },
+          404: { description: "Not Found - Batch does not exist" },
+          ...commonResponses,
+        },
+        tags: ["Batches"],
+      },
+      params: BatchIdParams,
+    }
+  );
@@ -0,0 +1,80 @@
+import { t, type Static } from "elysia";
+
+import { FileConstraints } from "../../lib/openapi";
+import { JobModel } from "../jobs/model";
+
+export const BATCH_MAX_ITEMS = 2000;
+
+const JobType = t.Union([t.Literal("parse"), t.Literal("extract")]);
+
+const StatusCounts = t.Object({
+  cancelled: t.Number(),
+  completed: t.Number(),
+  extracting: t.Number(),
+  failed: t.Number(),
+  pending: t.Number(),
+  processing: t.Number(),
+});
+
+const batchFields = {
+  counts: StatusCounts,
+  createdAt: t.String(),
+  hints: t.Union([t.String(), t.Null()]),
+  id: t.String(),
+  jobCount: t.Number(),
+  schemaId: t.Union([t.String(), t.Null()]),
+  status: t.Union([t.Literal("processing"), t.Literal("completed")]),
+  type: JobType,
+  updatedAt: t.String(),
+};
+
+export const BatchModel = {
+  createBody: t.Object(
+    {
+      citations: t.Optional(JobModel.Citations),
+      engine: t.Optional(JobModel.OcrEngine),
+      files: t.Optional(
+        t.Files({
+          description: `Document files, one job each. Max size per file: ${FileConstraints.maxSize}.`,
+        })
+      ),
+      hints: t.Optional(
+        t.String({
+          description: "Extraction instructions shared by every job",
+          maxLength: 2000,
+        })
+      ),
+      model: t.Optional(JobModel.LlmModel),
+      pages: t.Optional(JobModel.PageRange),
+      retention: t.Optional(JobModel.Retention),
+      schemaId: t.Optional(
+        t.String({
+          description: "Saved extraction schema shared by every job",
+          examples: ["sch_abc123xyz"],
+          pattern: "^sch_[a-zA-Z0-9_-]+$",
+        })
+      ),
+      type: t.Optional(JobType),
+      urls: t.Optional(
+        t.Array(t.String({ format: "uri" }), {
+          description: "Document URLs, one job each",
+          maxItems: BATCH_MAX_ITEMS,
+        })
+      ),
+    },
+    {
+      description: `Provide files, URLs or both, up to ${BATCH_MAX_ITEMS} documents in total.`,
+    }
+  ),
+
+  createResponse: t.Object({
+    ...batchFields,
+    jobIds: t.Array(t.String()),
+  }),
+
+  response: t.Object(batchFields),
+};
+
+export type CreateBatchBody = Static<typeof BatchModel.createBody>;
+export type BatchResponse = Static<typeof BatchModel.response>;
+export type BatchStatusCounts = Static<typeof StatusCounts>;
@@ -0,0 +1,224 @@
+import { db } from "@ocrbase/db";
+import { createId } from "@ocrbase/db/lib/ids";
+import { batches, type Batch } from "@ocrbase/db/schema/batches";
+import { jobs, type Job, type NewJob } from "@ocrbase/db/schema/jobs";
+import { and, asc, count, eq, gt } from "drizzle-orm";
+
+import type { BatchStatusCounts, CreateBatchBody } from "./model";
+
+import { BadRequestError, NotFoundError } from "../../lib/errors";
+import { normalizePageRange } from "../../lib/page-range";
+import { addJobs } from "../../services/queue";
+import { resolveRetention } from "../../services/retention";
+import { StorageService } from "../../services/storage";
+import { extractFilenameFromUrl } from "../jobs/service";
+import { SchemaService } from "../schemas/service";
+import { SettingsService } from "../settings/service";
+import { BATCH_MAX_ITEMS } from "./model";
+
+// Keeps each insert well under the Postgres bind parameter limit.
+const INSERT_CHUNK_SIZE = 500;
+
+interface CreateBatchInput {
+  apiKeyId?: string;
+  body: CreateBatchBody;
+  organizationId: string;
+  requestId?: string;
+  userId: string;
+}
+
+const chunk = <T>(items: T[], size: number): T[][] => {
+  const chunks: T[][] = [];
+  for (let index = 0; index < items.length; index += size) {
+    chunks.push(items.slice(index, index + size));
+  }
+  return chunks;
+};
+
+/**
+ * Creates the batch and one job per file or URL, then queues all jobs at once.
+ * Files are uploaded before any row is written so a failed upload leaves no
+ * half-created batch behind.
+ */
+const create = async (
+  input: CreateBatchInput
+): Promise<{ batch: Batch; jobIds: string[] }> => {
+  const { apiKeyId, body, organizationId, requestId, userId } = input;
+  const files = body.files ?? [];
+  const urls = body.urls ?? [];
+  const itemCount = files.length + urls.length;
+
+  if (itemCount === 0) {
+    throw new BadRequestError("A batch needs at least one file or URL");
+  }
+
+  if (itemCount > BATCH_MAX_ITEMS) {
+    throw new BadRequestError(
+      `A batch can contain at most ${BATCH_MAX_ITEMS} documents`
+    );
+  }
+
+  if (
+    body.schemaId &&
+    !(await SchemaService.getById(organizationId, userId, body.schemaId))
+  ) {
+    throw new NotFoundError("Schema not found");
+  }
+
+  const ocrEngine = await SettingsService.resolveOcrEngine(
+    organizationId,
+    body.engine
+  );
+  const pageRange = body.pages ? normalizePageRange(body.pages) : null;
+  const type = body.type ?? "extract";
+  const llmModel = await SettingsService.resolveLlmModel(
+    organizationId,
+    type === "extract" ? body.model : undefined
+  );
+  const retention = await resolveRetention(apiKeyId, body.retention);
+  const batchId = createId("batch");
+
+  const shared = {
+    apiKeyId,
+    batchId,
+    cacheMode: retention === "none" ? ("bypass" as const) : undefined,
+    citations: body.citations,
+    hints: body.hints,
+    llmModel,
+    ocrEngine,
+    organizationId,
+    pageRange,
+    requestedLlmModel: llmModel,
+    retention,
+    schemaId: body.schemaId,
+    status: "pending" as const,
+    type,
+    userId,
+  };
+
+  const jobRows: NewJob[] = [];
+
+  for (const file of files) {
+    const id = createId("job");
+    const fileKey = `${organizationId}/jobs/${id}/${file.name}`;
+    const buffer = Buffer.from(await file.arrayBuffer());
+
+    await StorageService.uploadFile(fileKey, buffer, file.type);
+
+    jobRows.push({
+      ...shared,
+      fileKey,
+      fileName: file.name,
+      fileSize: file.size,
+      id,
+      mimeType: file.type,
+    });
+  }
+
+  for (const url of urls) {
+    jobRows.push({
+      ...shared,
+      fileKey: null,
+      fileName: extractFilenameFromUrl(url),
+      fileSize: 0,
+      id: createId("job"),
+      mimeType: "application/octet-stream",
+      sourceUrl: url,
+    });
+  }
+
+  const batch = await db.transaction(async (tx) => {
+    const [created] = await tx
+      .insert(batches)
+      .values({
+        apiKeyId,
+        hints: body.hints,
+        id: batchId,
+        jobCount: jobRows.length,
+        organizationId,
+        schemaId: body.schemaId,
+        type,
+        userId,
+      })
+      .returning();
+
+    for (const rows of chunk(jobRows, INSERT_CHUNK_SIZE)) {
+      await tx.insert(jobs).values(rows);
+    }
+
+    return created;
+  });
+
+  if (!batch) {
+    throw new Error("Failed to create batch");
+  }
+
+  const jobIds = jobRows.map((row) => row.id as string);
+
+  await addJobs(
+    jobIds.map((jobId) => ({ jobId, organizationId, requestId, userId }))
+  );
+
+  return { batch, jobIds };
+};
+
+const getById = async (
+  organizationId: string,
+  batchId: string
+): Promise<Batch | null> => {
+  const batch = await db.query.batches.findFirst({
+    where: and(
+      eq(batches.id, batchId),
+      eq(batches.organizationId, organizationId)
+    ),
+  });
+
+  return batch ?? null;
+};
+
+const getStatusCounts = async (batchId: string): Promise<BatchStatusCounts> => {
+  const rows = await db
+    .select({ count: count(), status: jobs.status })
+    .from(jobs)
+    .where(eq(jobs.batchId, batchId))
+    .groupBy(jobs.status);
+
+  const counts: BatchStatusCounts = {
+    cancelled: 0,
+    completed: 0,
+    extracting: 0,
+    failed: 0,
+    pending: 0,
+    processing: 0,
+  };
+
+  for (const row of rows) {
+    counts[row.status] = row.count;
+  }
+
+  return counts;
+};
+
+/**
+ * Returns the next page of batch jobs ordered by ID, for streaming results
+ * without holding the whole batch in memory.
+ */
+const listJobsAfter = (
+  batchId: string,
+  cursor: string | null,
+  limit: number
+): Promise<Job[]> =>
+  db.query.jobs.findMany({
+    limit,
+    orderBy: asc(jobs.id),
+    where: cursor
+      ? and(eq(jobs.batchId, batchId), gt(jobs.id, cursor))
+      : eq(jobs.batchId, batchId),
+  });
+
+export const BatchService = {
+  create,
+  getById,
+  getStatusCounts,
+  listJobsAfter,
+};
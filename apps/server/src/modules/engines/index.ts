@@ -0,0 +1,45 @@
+import { Elysia } from "elysia";
+
+import { requireAuth } from "../../plugins/auth";
+import { listOcrEngines } from "../../services/ocr";
+import { SettingsService } from "../settings/service";
+
+export const enginesRoutes = new Elysia({ prefix: "/v1/engines" })
+  .use(requireAuth)
+  .get(
+    "/",
+    async ({ organization, user }) => {
+      if (!user || !organization) {
+        throw new Error("Unauthorized");
+      }
+
+      let defaultEngine: string | null = null;
+      try {
+        defaultEngine = await SettingsService.resolveOcrEngine(organization.id);
+      } catch {
+        // The configured default is unavailable; leave every engine unmarked.
+      }
+
+      return listOcrEngines().map((engine) => ({
+        available: engine.isConfigured(),
+        default: engine.name === defaultEngine,
+        label: engine.label,
+        model: engine.model,
+        name: engine.name,
+      }));
+    },
+    {
+      detail: {
+        description: `List the OCR engines known to this server.
+
+\`available\` is false for engines that are not configured on this deployment. \`default\` marks the engine used when a request does not pick one.`,
+        responses: {
+          200: { description: "List of OCR engines" },
+          401: { description: "Unauthorized - Invalid or missing API key" },
+          429: { description: "Too Many Requests - Rate limit exceeded" },
+          500: { description: "Internal Server Error" },
+        },
+        tags: ["Engines"],
+      },
+    }
+  );
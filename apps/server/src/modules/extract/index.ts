@@ -1,7 +1,9 @@
 import { Elysia, t } from "elysia";
 
+import { withIdempotency } from "../../lib/idempotency";
 import { ExampleUrls, FileConstraints } from "../../lib/openapi";
 import { requireAuth } from "../../plugins/auth";
+import { JobModel } from "../jobs/model";
 import { createJobHandler, getWideEvent } from "../jobs/shared";
 
 export const extractRoutes = new Elysia({ prefix: "/v1/extract" })
@@ -10,11 +12,17 @@ export const extractRoutes = new Elysia({ prefix: "/v1/extract" })
     "/",
     (ctx) => {
       const wideEvent = getWideEvent(ctx);
-      return createJobHandler(ctx, wideEvent, { type: "extract" });
+      return withIdempotency(ctx, () =>
+        createJobHandler(ctx, wideEvent, { type: "extract" })
+      );
     },
     {
       body: t.Object(
         {
+          cache: t.Optional(JobModel.CacheMode),
+          callbackUrl: t.Optional(JobModel.CallbackUrl),
+          citations: t.Optional(JobModel.Citations),
+          engine: t.Optional(JobModel.OcrEngine),
           file: t.Optional(
             t.File({
               description: `Document file to extract data from. Max size: ${FileConstraints.maxSize}. Supported formats: PDF, PNG, JPEG, WebP, TIFF.`,
@@ -28,6 +36,9 @@ export const extractRoutes = new Elysia({ prefix: "/v1/extract" })
               maxLength: 2000,
             })
           ),
+          model: t.Optional(JobModel.LlmModel),
+          pages: t.Optional(JobModel.PageRange),
+          retention: t.Optional(JobModel.Retention),
           schemaId: t.Optional(
             t.String({
               description:
@@ -36,6 +47,14 @@ export const extractRoutes = new Elysia({ prefix: "/v1/extract" })
               pattern: "^sch_[a-zA-Z0-9_-]+$",
             })
           ),
+          sourceJobId: t.Optional(
+            t.String({
+              description:
+                "ID of a completed job whose markdown is extracted again, skipping OCR. Only LLM usage is billed. Cannot be combined with file, url, pages or engine.",
+              examples: ["job_abc123xyz"],
+              pattern: "^job_[a-zA-Z0-9_-]+$",
+            })
+          ),
           url: t.Optional(
             t.String({
               description: "URL of the document to extract data from",
@@ -46,7 +65,7 @@ export const extractRoutes = new Elysia({ prefix: "/v1/extract" })
         },
         {
           description:
-            "Provide either a file upload or a URL. Optionally include a schemaId for structured extraction.",
+            "Provide a file upload, a URL or the sourceJobId of a completed job. Optionally include a schemaId for structured extraction.",
         }
       ),
       detail: {
@@ -54,17 +73,26 @@ export const extractRoutes = new Elysia({ prefix: "/v1/extract" })
 
 Upload a file or provide a URL, then optionally specify a schema to extract structured JSON data. Without a schema, returns parsed markdown.
 
+To iterate on a schema without paying for OCR again, pass \`sourceJobId\` instead of a file or URL. The markdown of that completed job is reused and only the LLM extraction runs.
+
 **Supported formats:** PDF, PNG, JPEG, WebP, TIFF
 **Max file size:** ${FileConstraints.maxSize}
 
+Send an \`Idempotency-Key\` header to make retries safe: a repeated request returns the original job instead of creating another one.
+
 Returns a job object with both markdown and JSON results (if schema provided).`,
         responses: {
           202: { description: "Job accepted for processing" },
           400: {
-            description: "Bad Request - No file/URL provided or invalid schema",
+            description:
+              "Bad Request - No file/URL provided, invalid schema or model not allowed",
           },
           401: { description: "Unauthorized - Invalid or missing API key" },
-          404: { description: "Not Found - Schema not found" },
+          404: { description: "Not Found - Schema or source job not found" },
+          409: {
+            description:
+              "Conflict - Idempotency-Key reused for a different request",
+          },
           413: { description: "Payload Too Large - File exceeds 50MB limit" },
           429: { description: "Too Many Requests - Rate limit exceeded" },
           500: { description: "Internal Server Error" },
@@ -2,8 +2,13 @@ import { Elysia, t } from "elysia";
 
 import { NotFoundError } from "../../lib/errors";
 import { requireAuth } from "../../plugins/auth";
+import { JobModel } from "./model";
 import { JobService } from "./service";
-import { formatJobResponse, getWideEvent } from "./shared";
+import {
+  formatJobPageResponse,
+  formatJobResponse,
+  getWideEvent,
+} from "./shared";
 
 const sanitizeFileName = (name: string) => name.replaceAll(/["\r\n\\;]/g, "_");
 
@@ -39,14 +44,7 @@ export const jobsRoutes = new Elysia({ prefix: "/v1/jobs" })
         throw new Error("Unauthorized");
       }
 
-      const result = await JobService.list(organization.id, user.id, {
-        limit: query.limit,
-        page: query.page,
-        sortBy: query.sortBy,
-        sortOrder: query.sortOrder,
-        status: query.status,
-        type: query.type,
-      });
+      const result = await JobService.list(organization.id, user.id, query);
 
       return {
         data: result.data.map(formatJobResponse),
@@ -57,8 +55,9 @@ export const jobsRoutes = new Elysia({ prefix: "/v1/jobs" })
       detail: {
         description: `List all jobs with filtering, sorting, and pagination.
 
-Filter by status (pending, processing, extracting, completed, failed) or type (parse, extract).
-Results are paginated with configurable page size (max 100).`,
+Filter by status (pending, processing, extracting, completed, failed, cancelled), type (parse, extract), schema, API key, user, creation date, file name prefix or MIME type. Use \`q\` to full-text search the markdown of completed jobs.
+
+Results are paginated with configurable page size (max 100). Pass \`pagination.nextCursor\` back as \`cursor\` to fetch the next page; unlike \`page\`, cursors do not shift while new jobs are created.`,
         responses: {
           200: { description: "List of jobs with pagination metadata" },
           ...commonResponses,
@@ -66,6 +65,39 @@ Results are paginated with configurable page size (max 100).`,
         tags: ["Jobs"],
       },
       query: t.Object({
+        apiKeyId: t.Optional(
+          t.String({
+            description: "Only jobs created with this API key",
+            examples: ["key_abc123xyz"],
+          })
+        ),
+        createdAfter: t.Optional(
+          t.String({
+            description: "Only jobs created at or after this time (ISO 8601)",
+            examples: ["2025-01-01T00:00:00Z"],
+            format: "date-time",
+          })
+        ),
+        createdBefore: t.Optional(
+          t.String({
+            description: "Only jobs created before this time (ISO 8601)",
+            examples: ["2025-02-01T00:00:00Z"],
+            format: "date-time",
+          })
+        ),
+        cursor: t.Optional(
+          t.String({
+            description:
+              "nextCursor from the previous page. Takes precedence over page and requires sorting by createdAt.",
+          })
+        ),
+        fileName: t.Optional(
+          t.String({
+            description: "Only jobs whose file name starts with this prefix",
+            examples: ["invoice-"],
+            maxLength: 255,
+          })
+        ),
         limit: t.Optional(
           t.Numeric({
             default: 20,
@@ -75,6 +107,12 @@ Results are paginated with configurable page size (max 100).`,
             minimum: 1,
           })
         ),
+        mimeType: t.Optional(
+          t.String({
+            description: "Only jobs with this MIME type",
+            examples: ["application/pdf"],
+          })
+        ),
         page: t.Optional(
           t.Numeric({
             default: 1,
@@ -83,6 +121,21 @@ Results are paginated with configurable page size (max 100).`,
             minimum: 1,
           })
         ),
+        q: t.Optional(
+          t.String({
+            description:
+              "Full-text search over the markdown result. Supports quoted phrases, OR and -negation.",
+            examples: ["invoice total"],
+            maxLength: 500,
+            minLength: 1,
+          })
+        ),
+        schemaId: t.Optional(
+          t.String({
+            description: "Only jobs extracted with this schema",
+            examples: ["sch_abc123xyz"],
+          })
+        ),
         sortBy: t.Optional(
           t.Union([t.Literal("createdAt"), t.Literal("updatedAt")], {
             description: "Field to sort by",
@@ -103,6 +156,7 @@ Results are paginated with configurable page size (max 100).`,
               t.Literal("extracting"),
               t.Literal("completed"),
               t.Literal("failed"),
+              t.Literal("cancelled"),
             ],
             {
               description: "Filter by job status",
@@ -116,6 +170,11 @@ Results are paginated with configurable page size (max 100).`,
             examples: ["parse"],
           })
         ),
+        userId: t.Optional(
+          t.String({
+            description: "Only jobs created by this user",
+          })
+        ),
       }),
     }
   )
@@ -142,14 +201,16 @@ Results are paginated with configurable page size (max 100).`,
         type: job.type,
       });
 
-      return formatJobResponse(job);
+      return formatJobResponse(await JobService.fetchResults(job));
     },
     {
       detail: {
         description: `Get detailed information about a specific job.
 
 Returns job status, metadata, processing times, and results (if completed).
-For completed jobs, includes markdownResult and jsonResult (if extraction schema was used).`,
+For completed jobs, includes markdownResult and jsonResult (if extraction schema was used).
+
+Results of a zero-retention job are returned by the first fetch after it completes and deleted right after; later fetches show \`resultsPurgedAt\` instead.`,
         responses: {
           200: { description: "Job details" },
           404: { description: "Not Found - Job does not exist" },
@@ -160,6 +221,123 @@ For completed jobs, includes markdownResult and jsonResult (if extraction schema
       params: JobIdParams,
     }
   )
+  .post(
+    "/:id/cancel",
+    async (ctx) => {
+      const { organization, params, user } = ctx;
+      const wideEvent = getWideEvent(ctx);
+
+      if (!user || !organization) {
+        throw new Error("Unauthorized");
+      }
+
+      const job = await JobService.cancel(organization.id, user.id, params.id);
+
+      wideEvent?.setJob({ id: job.id, type: job.type });
+
+      return formatJobResponse(job);
+    },
+    {
+      detail: {
+        description: `Cancel a job that has not finished.
+
+Pending jobs are removed from the queue. A job that is already running stops before its next stage (between OCR chunks, or between OCR and extraction) and is not billed. The job record is kept with status \`cancelled\`, and a \`cancelled\` realtime event is published.`,
+        responses: {
+          200: { description: "Job cancelled" },
+          400: { description: "Bad Request - Job already finished" },
+          404: { description: "Not Found - Job does not exist" },
+          ...commonResponses,
+        },
+        tags: ["Jobs"],
+      },
+      params: JobIdParams,
+    }
+  )
+  .post(
+    "/:id/retry",
+    async (ctx) => {
+      const { organization, params, user } = ctx;
+      const { requestId } = ctx as { requestId?: string };
+      const wideEvent = getWideEvent(ctx);
+
+      if (!user || !organization) {
+        throw new Error("Unauthorized");
+      }
+
+      const job = await JobService.retry(
+        organization.id,
+        user.id,
+        params.id,
+        requestId
+      );
+
+      wideEvent?.setJob({ id: job.id, type: job.type });
+
+      return formatJobResponse(job);
+    },
+    {
+      detail: {
+        description: `Retry a failed or cancelled job.
+
+The job is queued again with the same ID, file and options, and its error fields are cleared. Pages that were already OCR'd are reused, so large PDFs resume from the last finished chunk.`,
+        responses: {
+          200: { description: "Job queued again" },
+          400: { description: "Bad Request - Job is not failed or cancelled" },
+          404: { description: "Not Found - Job does not exist" },
+          409: {
+            description: "Conflict - The cancelled run is still stopping",
+          },
+          ...commonResponses,
+        },
+        tags: ["Jobs"],
+      },
+      params: JobIdParams,
+    }
+  )
+  .post(
+    "/:id/rerun",
+    async (ctx) => {
+      const { apiKey, body, organization, params, set, user } = ctx;
+      const { requestId } = ctx as { requestId?: string };
+      const wideEvent = getWideEvent(ctx);
+
+      if (!user || !organization) {
+        throw new Error("Unauthorized");
+      }
+
+      const job = await JobService.rerun({
+        apiKeyId: apiKey?.id,
+        body,
+        jobId: params.id,
+        organizationId: organization.id,
+        requestId,
+        userId: user.id,
+      });
+
+      wideEvent?.setJob({ id: job.id, type: job.type });
+
+      set.status = 201;
+      return formatJobResponse(job);
+    },
+    {
+      body: JobModel.RerunJobBody,
+      detail: {
+        description: `Create a new job from the same document as an existing one.
+
+Use this to extract again with a different \`schemaId\`, \`hints\`, \`model\` or \`engine\`. Options that are not given are copied from the original job. The new job links back to it through \`parentJobId\`; the original job is left unchanged.`,
+        responses: {
+          201: { description: "New job created and queued" },
+          400: {
+            description: "Bad Request - Original file is no longer available",
+          },
+          404: { description: "Not Found - Job or schema does not exist" },
+          ...commonResponses,
+        },
+        tags: ["Jobs"],
+      },
+      params: JobIdParams,
+    }
+  )
   .delete(
     "/:id",
     async (ctx) => {
@@ -197,6 +375,84 @@ This action cannot be undone. Deletes the job record, uploaded file, and any gen
       params: JobIdParams,
     }
   )
+  .get(
+    "/:id/pages",
+    async (ctx) => {
+      const { organization, params, user } = ctx;
+      const wideEvent = getWideEvent(ctx);
+
+      if (!user || !organization) {
+        throw new Error("Unauthorized");
+      }
+
+      const pages = await JobService.listPages(
+        organization.id,
+        user.id,
+        params.id
+      );
+
+      wideEvent?.setJob({ id: params.id, pageCount: pages.length });
+
+      return { data: pages.map(formatJobPageResponse) };
+    },
+    {
+      detail: {
+        description: `List the OCR result of a job page by page.
+
+Each page holds its markdown, pixel dimensions (when the OCR engine reports them) and OCR timing. Pages become available once OCR has finished, before extraction completes.`,
+        responses: {
+          200: { description: "Pages of the job in page order" },
+          404: { description: "Not Found - Job does not exist" },
+          ...commonResponses,
+        },
+        tags: ["Jobs"],
+      },
+      params: JobIdParams,
+    }
+  )
+  .get(
+    "/:id/pages/:n",
+    async (ctx) => {
+      const { organization, params, user } = ctx;
+      const wideEvent = getWideEvent(ctx);
+
+      if (!user || !organization) {
+        throw new Error("Unauthorized");
+      }
+
+      const page = await JobService.getPage(
+        organization.id,
+        user.id,
+        params.id,
+        params.n
+      );
+
+      wideEvent?.setJob({ id: params.id });
+
+      return formatJobPageResponse(page);
+    },
+    {
+      detail: {
+        description: `Get a single page of a job's OCR result.
+
+Page numbers start at 1.`,
+        responses: {
+          200: { description: "Page details" },
+          404: { description: "Not Found - Job or page does not exist" },
+          ...commonResponses,
+        },
+        tags: ["Jobs"],
+      },
+      params: t.Object({
+        id: JobIdParams.properties.id,
+        n: t.Numeric({
+          description: "Page number (1-based)",
+          examples: [1],
+          minimum: 1,
+        }),
+      }),
+    }
+  )
   .get(
     "/:id/file",
     async (ctx) => {
@@ -274,12 +530,14 @@ Streams the file with appropriate Content-Type header for inline viewing.`,
       detail: {
         description: `Download the job result as a file.
 
-Choose between markdown (.md) or JSON (.json) format. JSON format is only available for jobs with extraction schemas.`,
+Choose between markdown (.md), JSON (.json) or layout (.layout.json) format. JSON format is only available for jobs with extraction schemas.
+
+The layout format lists the regions found on each page (text, title, table, figure, formula) with their bounding box in page pixels, reading order and content. It is only available for OCR engines with layout analysis.`,
         responses: {
-          200: { description: "File download (markdown or JSON)" },
+          200: { description: "File download (markdown, JSON or layout)" },
           400: {
             description:
-              "Bad Request - Job not completed or JSON not available",
+              "Bad Request - Job not completed or JSON/layout not available",
           },
           404: { description: "Not Found - Job does not exist" },
           ...commonResponses,
@@ -289,7 +547,7 @@ Choose between markdown (.md) or JSON (.json) format. JSON format is only availa
       params: JobIdParams,
       query: t.Object({
         format: t.Optional(
-          t.Union([t.Literal("md"), t.Literal("json")], {
+          t.Union([t.Literal("md"), t.Literal("json"), t.Literal("layout")], {
             default: "md",
             description: "Download format",
             examples: ["md"],
@@ -8,26 +8,199 @@ const JOB_STATUSES = [
   "extracting",
   "completed",
   "failed",
+  "cancelled",
 ] as const;
 
 const JobId = Type.String({ pattern: JOB_ID_PATTERN });
 
+const OcrEngine = Type.Union(
+  [
+    Type.Literal("paddleocr-vl"),
+    Type.Literal("tesseract"),
+    Type.Literal("openai-vision"),
+  ],
+  {
+    description:
+      "OCR engine to run. Defaults to the organization or server default.",
+    examples: ["paddleocr-vl"],
+  }
+);
+
+const PageRange = Type.String({
+  description:
+    "Pages to process, 1-based, e.g. `1-3,7`. Only these pages are sent to OCR and billed. Defaults to all pages.",
+  examples: ["1-3,7"],
+  pattern: "^\\s*\\d+(\\s*-\\s*\\d+)?(\\s*,\\s*\\d+(\\s*-\\s*\\d+)?)*\\s*$",
+});
+
+const CallbackUrl = Type.String({
+  description:
+    "URL that receives the finished job once, signed with the callback secret of the API key that created it. Requires API key authentication.",
+  examples: ["https://example.com/ocr/callback?token=abc123"],
+  format: "uri",
+  maxLength: 2048,
+});
+
+const CacheMode = Type.Union(
+  [Type.Literal("use"), Type.Literal("bypass"), Type.Literal("refresh")],
+  {
+    description:
+      "OCR cache behaviour. `use` reuses earlier OCR output of the same file, `refresh` runs OCR again and updates the cache, `bypass` neither reads nor writes the cache. Defaults to `use`.",
+    examples: ["use"],
+  }
+);
+
+const Citations = Type.Boolean({
+  description:
+    "Score every extracted value and cite the page and quote it came from. Runs an extra LLM call, billed as usage. Defaults to `false`.",
+  examples: [true],
+});
+
+const Retention = Type.Union([Type.Literal("standard"), Type.Literal("none")], {
+  description:
+    "Data retention. `none` deletes the source file as soon as processing ends and hands out the results only once, over the event stream or a single result fetch. Defaults to `standard`.",
+  examples: ["standard"],
+});
+
+const LlmModel = Type.String({
+  description:
+    "Extraction model to run. Must be the provider's default model or on the organization's allowlist, see `GET /v1/models`. Defaults to the schema's default model, then the provider default.",
+  examples: ["google/gemini-2.5-flash"],
+  maxLength: 200,
+  minLength: 1,
+});
+
+const ValidationError = Type.Object({
+  message: Type.String(),
+  path: Type.String({
+    description:
+      "JSON Pointer to the offending value, e.g. `/lineItems/0/total`. Empty for the result as a whole.",
+  }),
+});
+
+const ExtractionCitation = Type.Object({
+  bbox: Type.Union(
+    [
+      Type.Tuple([Type.Number(), Type.Number(), Type.Number(), Type.Number()]),
+      Type.Null(),
+    ],
+    {
+      description:
+        "`[x1, y1, x2, y2]` of the layout block holding the quote, in page pixels. Null without layout data.",
+    }
+  ),
+  pageHeight: Type.Union([Type.Number(), Type.Null()]),
+  pageNumber: Type.Number(),
+  pageWidth: Type.Union([Type.Number(), Type.Null()]),
+  quote: Type.String({
+    description: "Source text supporting the value, as it appears on the page",
+  }),
+});
+
+const ExtractionFieldMeta = Type.Object({
+  citation: Type.Union([ExtractionCitation, Type.Null()], {
+    description: "Null when the value could not be found in the document",
+  }),
+  confidence: Type.Number({ maximum: 1, minimum: 0 }),
+  path: Type.String({
+    description: "JSON Pointer to the value in `jsonResult`, e.g. `/total`",
+  }),
+});
+
+const LlmUsage = Type.Object({
+  chunks: Type.Union(
+    [
+      Type.Array(
+        Type.Object({
+          completionTokens: Type.Number(),
+          firstPage: Type.Number(),
+          lastPage: Type.Number(),
+          promptTokens: Type.Number(),
+        })
+      ),
+      Type.Null(),
+    ],
+    {
+      description:
+        "Tokens per chunk of a chunked extraction, citations included. Null for single-pass extractions.",
+    }
+  ),
+  completionTokens: Type.Number(),
+  promptTokens: Type.Number(),
+});
+
+const CallbackStatus = Type.Union([
+  Type.Literal("pending"),
+  Type.Literal("succeeded"),
+  Type.Literal("failed"),
+]);
+
 const CreateJobBody = Type.Object({
+  cache: Type.Optional(CacheMode),
+  callbackUrl: Type.Optional(CallbackUrl),
+  citations: Type.Optional(Citations),
+  engine: Type.Optional(OcrEngine),
   hints: Type.Optional(Type.String()),
+  model: Type.Optional(LlmModel),
+  pages: Type.Optional(PageRange),
+  retention: Type.Optional(Retention),
   schemaId: Type.Optional(Type.String()),
   type: Type.Union([Type.Literal("parse"), Type.Literal("extract")]),
 });
 
 const CreateJobFromUrl = Type.Object({
+  cache: Type.Optional(CacheMode),
+  callbackUrl: Type.Optional(CallbackUrl),
+  citations: Type.Optional(Citations),
+  engine: Type.Optional(OcrEngine),
   hints: Type.Optional(Type.String()),
+  model: Type.Optional(LlmModel),
+  pages: Type.Optional(PageRange),
+  retention: Type.Optional(Retention),
   schemaId: Type.Optional(Type.String()),
   type: Type.Union([Type.Literal("parse"), Type.Literal("extract")]),
   url: Type.String({ format: "uri" }),
 });
 
+const RerunJobBody = Type.Object({
+  citations: Type.Optional(
+    Type.Boolean({
+      description:
+        "Score and cite the extracted values. Defaults to the original job's setting.",
+    })
+  ),
+  engine: Type.Optional(OcrEngine),
+  hints: Type.Optional(
+    Type.String({
+      description: "Extraction hints. Defaults to the original job's hints.",
+    })
+  ),
+  model: Type.Optional(
+    Type.String({
+      description:
+        "Extraction model to run. Defaults to the model the original job asked for, then the schema's default model.",
+      maxLength: 200,
+      minLength: 1,
+    })
+  ),
+  schemaId: Type.Optional(
+    Type.String({
+      description: "Schema to extract with. Defaults to the original schema.",
+    })
+  ),
+});
+
 const ListJobsQuery = Type.Object({
+  apiKeyId: Type.Optional(Type.String()),
+  createdAfter: Type.Optional(Type.String()),
+  createdBefore: Type.Optional(Type.String()),
+  cursor: Type.Optional(Type.String()),
+  fileName: Type.Optional(Type.String()),
   limit: Type.Optional(Type.Number({ default: 20, maximum: 100, minimum: 1 })),
+  mimeType: Type.Optional(Type.String()),
   page: Type.Optional(Type.Number({ default: 1, minimum: 1 })),
+  q: Type.Optional(Type.String()),
+  schemaId: Type.Optional(Type.String()),
   sortBy: Type.Optional(
     Type.Union([Type.Literal("createdAt"), Type.Literal("updatedAt")])
   ),
@@ -41,33 +214,58 @@ const ListJobsQuery = Type.Object({
       Type.Literal("extracting"),
       Type.Literal("completed"),
       Type.Literal("failed"),
+      Type.Literal("cancelled"),
     ])
   ),
   type: Type.Optional(
     Type.Union([Type.Literal("parse"), Type.Literal("extract")])
   ),
+  userId: Type.Optional(Type.String()),
 });
 
 const JobResponse = Type.Object({
+  batchId: Type.Union([Type.String(), Type.Null()]),
+  cacheHit: Type.Boolean(),
+  callbackStatus: Type.Union([CallbackStatus, Type.Null()]),
+  callbackUrl: Type.Union([Type.String(), Type.Null()]),
   completedAt: Type.Union([Type.String(), Type.Null()]),
   createdAt: Type.String(),
   errorCode: Type.Union([Type.String(), Type.Null()]),
   errorMessage: Type.Union([Type.String(), Type.Null()]),
   fileKey: Type.Union([Type.String(), Type.Null()]),
   fileName: Type.String(),
+  filePurgedAt: Type.Union([Type.String(), Type.Null()], {
+    description: "When the source file was deleted by the retention policy",
+  }),
   fileSize: Type.Number(),
   hints: Type.Union([Type.String(), Type.Null()]),
   id: Type.String({ pattern: JOB_ID_PATTERN }),
   jsonResult: Type.Union([Type.Unknown(), Type.Null()]),
+  jsonResultMeta: Type.Union([Type.Array(ExtractionFieldMeta), Type.Null()], {
+    description:
+      "Confidence and source citation of each value in `jsonResult`. Null for parse jobs and when the values could not be cited.",
+  }),
   llmModel: Type.Union([Type.String(), Type.Null()]),
   llmProvider: Type.Union([Type.String(), Type.Null()]),
+  llmUsage: Type.Union([LlmUsage, Type.Null()], {
+    description: "Tokens spent by every LLM call of an extract job",
+  }),
   markdownResult: Type.Union([Type.String(), Type.Null()]),
   mimeType: Type.String(),
+  ocrEngine: Type.Union([Type.String(), Type.Null()]),
   organizationId: Type.String(),
   pageCount: Type.Union([Type.Number(), Type.Null()]),
+  pageRange: Type.Union([Type.String(), Type.Null()]),
+  parentJobId: Type.Union([Type.String(), Type.Null()]),
   processingTimeMs: Type.Union([Type.Number(), Type.Null()]),
+  resultsPurgedAt: Type.Union([Type.String(), Type.Null()], {
+    description:
+      "When the results were deleted by the retention policy or, for zero-retention jobs, after their one-time delivery",
+  }),
+  retention: Retention,
   retryCount: Type.Number(),
   schemaId: Type.Union([Type.String(), Type.Null()]),
+  sourceJobId: Type.Union([Type.String(), Type.Null()]),
   sourceUrl: Type.Union([Type.String(), Type.Null()]),
   startedAt: Type.Union([Type.String(), Type.Null()]),
   status: Type.Union([
@@ -76,18 +274,24 @@ const JobResponse = Type.Object({
     Type.Literal("extracting"),
     Type.Literal("completed"),
     Type.Literal("failed"),
+    Type.Literal("cancelled"),
   ]),
   tokenCount: Type.Union([Type.Number(), Type.Null()]),
   type: Type.Union([Type.Literal("parse"), Type.Literal("extract")]),
   updatedAt: Type.String(),
   userId: Type.String(),
+  validationErrors: Type.Union([Type.Array(ValidationError), Type.Null()], {
+    description:
+      "Where `jsonResult` breaks the schema. Empty when it conforms, null for jobs without a schema.",
+  }),
 });
 
 const PaginationMeta = Type.Object({
-  currentPage: Type.Number(),
+  currentPage: Type.Union([Type.Number(), Type.Null()]),
   hasNextPage: Type.Boolean(),
   hasPreviousPage: Type.Boolean(),
   limit: Type.Number(),
+  nextCursor: Type.Union([Type.String(), Type.Null()]),
   totalCount: Type.Number(),
   totalPages: Type.Number(),
 });
@@ -97,27 +301,59 @@ const ListJobsResponse = Type.Object({
   pagination: PaginationMeta,
 });
 
+const JobPageResponse = Type.Object({
+  height: Type.Union([Type.Number(), Type.Null()]),
+  jobId: Type.String({ pattern: JOB_ID_PATTERN }),
+  markdown: Type.String(),
+  pageNumber: Type.Number(),
+  processingTimeMs: Type.Union([Type.Number(), Type.Null()]),
+  width: Type.Union([Type.Number(), Type.Null()]),
+});
+
+const ListJobPagesResponse = Type.Object({
+  data: Type.Array(JobPageResponse),
+});
+
 const DownloadQuery = Type.Object({
-  format: Type.Optional(Type.Union([Type.Literal("md"), Type.Literal("json")])),
+  format: Type.Optional(
+    Type.Union([
+      Type.Literal("md"),
+      Type.Literal("json"),
+      Type.Literal("layout"),
+    ])
+  ),
 });
 
 export const JobModel = {
+  CacheMode,
+  CallbackUrl,
+  Citations,
   CreateJobBody,
   CreateJobFromUrl,
   DownloadQuery,
   JobId,
+  JobPageResponse,
   JobResponse,
+  ListJobPagesResponse,
   ListJobsQuery,
   ListJobsResponse,
+  LlmModel,
+  OcrEngine,
+  PageRange,
   PaginationMeta,
+  RerunJobBody,
+  Retention,
 } as const;
 
 export type CreateJobBody = Static<typeof CreateJobBody>;
 export type CreateJobFromUrl = Static<typeof CreateJobFromUrl>;
 export type DownloadQuery = Static<typeof DownloadQuery>;
+export type JobPageResponse = Static<typeof JobPageResponse>;
 export type JobResponse = Static<typeof JobResponse>;
+export type ListJobPagesResponse = Static<typeof ListJobPagesResponse>;
 export type ListJobsQuery = Static<typeof ListJobsQuery>;
 export type ListJobsResponse = Static<typeof ListJobsResponse>;
 export type PaginationMeta = Static<typeof PaginationMeta>;
+export type RerunJobBody = Static<typeof RerunJobBody>;
 
 export { JOB_STATUSES, JOB_TYPES };
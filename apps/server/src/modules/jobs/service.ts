@@ -1,17 +1,60 @@
 import type { JobStatus, JobType } from "@ocrbase/db/lib/enums";
 
 import { db } from "@ocrbase/db";
-import { jobs, type Job } from "@ocrbase/db/schema/jobs";
-import { and, asc, count, desc, eq } from "drizzle-orm";
-
-import type { CreateJobBody, ListJobsQuery, PaginationMeta } from "./model";
-
-import { BadRequestError, NotFoundError } from "../../lib/errors";
-import { addJob } from "../../services/queue";
+import { apiKeys } from "@ocrbase/db/schema/api-keys";
+import { jobPages, type JobPage } from "@ocrbase/db/schema/job-pages";
+import { jobSearchVector, jobs, type Job } from "@ocrbase/db/schema/jobs";
+import {
+  and,
+  asc,
+  count,
+  desc,
+  eq,
+  gte,
+  inArray,
+  like,
+  lt,
+  ne,
+  type SQL,
+  sql,
+} from "drizzle-orm";
+
+import type {
+  CreateJobBody,
+  ListJobsQuery,
+  PaginationMeta,
+  RerunJobBody,
+} from "./model";
+
+import { decodeCursor, encodeCursor } from "../../lib/cursor";
+import { assertDeliverableUrl } from "../../lib/delivery-url";
+import {
+  BadRequestError,
+  ConflictError,
+  NotFoundError,
+} from "../../lib/errors";
+import { cancelJob } from "../../lib/job-status";
+import { normalizePageRange } from "../../lib/page-range";
+import { deleteCachedOcr, hashDocument } from "../../services/ocr-cache";
+import {
+  addJob,
+  isJobActive,
+  removeQueuedJob,
+  requeueJob,
+} from "../../services/queue";
+import {
+  discardJobFile,
+  resolveRetention,
+  takeJobResults,
+  withholdResults,
+} from "../../services/retention";
 import { StorageService } from "../../services/storage";
+import { SchemaService } from "../schemas/service";
+import { SettingsService } from "../settings/service";
 
 const DEFAULT_PAGE = 1;
 const DEFAULT_LIMIT = 20;
+const RETRYABLE_STATUSES: JobStatus[] = ["failed", "cancelled"];
 
 interface CreateJobInput {
   apiKeyId?: string;
@@ -35,12 +78,32 @@ interface CreateJobFromUrlInput {
   userId: string;
 }
 
+interface CreateFromSourceJobInput {
+  apiKeyId?: string;
+  body: Pick<
+    CreateJobBody,
+    "callbackUrl" | "citations" | "hints" | "model" | "retention" | "schemaId"
+  > & {
+    sourceJobId: string;
+  };
+  organizationId: string;
+  requestId?: string;
+  userId: string;
+}
+
 interface CreatePresignedUploadInput {
+  apiKeyId?: string;
+  cache?: CreateJobBody["cache"];
+  citations?: boolean;
+  engine?: CreateJobBody["engine"];
   fileName: string;
   fileSize: number;
   hints?: string;
   mimeType: string;
+  model?: string;
   organizationId: string;
+  pages?: string;
+  retention?: CreateJobBody["retention"];
   schemaId?: string;
   type: "parse" | "extract";
   userId: string;
@@ -53,24 +116,83 @@ interface ConfirmUploadInput {
   userId: string;
 }
 
+interface RerunJobInput {
+  apiKeyId?: string;
+  body: RerunJobBody;
+  jobId: string;
+  organizationId: string;
+  requestId?: string;
+  userId: string;
+}
+
 interface ListJobsResult {
   data: Job[];
   pagination: PaginationMeta;
 }
 
+/**
+ * Checks a callback before its job is created: the URL must be deliverable
+ * and the API key must have a secret to sign the callback with.
+ */
+const assertCallbackDeliverable = async (
+  apiKeyId: string | undefined,
+  callbackUrl: string
+): Promise<void> => {
+  await assertDeliverableUrl(callbackUrl);
+
+  const key = apiKeyId
+    ? await db.query.apiKeys.findFirst({
+        columns: { callbackSecret: true },
+        where: eq(apiKeys.id, apiKeyId),
+      })
+    : undefined;
+
+  if (!key?.callbackSecret) {
+    throw new BadRequestError(
+      "The API key has no callback secret, rotate one with POST /v1/keys/{id}/callback-secret to use callbackUrl"
+    );
+  }
+};
+
 const create = async (input: CreateJobInput): Promise<Job> => {
   const { apiKeyId, body, file, organizationId, requestId, userId } = input;
 
+  const ocrEngine = await SettingsService.resolveOcrEngine(
+    organizationId,
+    body.engine
+  );
+  const llmModel = await SettingsService.resolveLlmModel(
+    organizationId,
+    body.model
+  );
+  const pageRange = body.pages ? normalizePageRange(body.pages) : null;
+  const retention = await resolveRetention(apiKeyId, body.retention);
+
+  if (body.callbackUrl) {
+    await assertCallbackDeliverable(apiKeyId, body.callbackUrl);
+  }
+
   const [newJob] = await db
     .insert(jobs)
     .values({
       apiKeyId,
+      // Zero-retention documents never reach the OCR cache.
+      cacheMode: retention === "none" ? "bypass" : body.cache,
+      callbackStatus: body.callbackUrl ? "pending" : null,
+      callbackUrl: body.callbackUrl,
+      citations: body.citations,
+      fileHash: hashDocument(file.buffer),
       fileKey: null,
       fileName: file.name,
       fileSize: file.size,
       hints: body.hints,
+      llmModel,
       mimeType: file.type,
+      ocrEngine,
       organizationId,
+      pageRange,
+      requestedLlmModel: llmModel,
+      retention,
       schemaId: body.schemaId,
       status: "pending",
       type: body.type,
@@ -106,7 +228,7 @@ const create = async (input: CreateJobInput): Promise<Job> => {
   return updatedJob;
 };
 
-const extractFilenameFromUrl = (url: string): string => {
+export const extractFilenameFromUrl = (url: string): string => {
   try {
     const urlParts = new URL(url);
     const pathParts = urlParts.pathname.split("/").filter(Boolean);
@@ -120,17 +242,41 @@ const createFromUrl = async (input: CreateJobFromUrlInput): Promise<Job> => {
   const { apiKeyId, body, organizationId, requestId, userId } = input;
 
   const fileName = extractFilenameFromUrl(body.url);
+  const ocrEngine = await SettingsService.resolveOcrEngine(
+    organizationId,
+    body.engine
+  );
+  const llmModel = await SettingsService.resolveLlmModel(
+    organizationId,
+    body.model
+  );
+  const pageRange = body.pages ? normalizePageRange(body.pages) : null;
+  const retention = await resolveRetention(apiKeyId, body.retention);
+
+  if (body.callbackUrl) {
+    await assertCallbackDeliverable(apiKeyId, body.callbackUrl);
+  }
 
   const [newJob] = await db
     .insert(jobs)
     .values({
       apiKeyId,
+      // Zero-retention documents never reach the OCR cache.
+      cacheMode: retention === "none" ? "bypass" : body.cache,
+      callbackStatus: body.callbackUrl ? "pending" : null,
+      callbackUrl: body.callbackUrl,
+      citations: body.citations,
       fileKey: null,
       fileName,
       fileSize: 0,
       hints: body.hints,
+      llmModel,
       mimeType: "application/octet-stream",
+      ocrEngine,
       organizationId,
+      pageRange,
+      requestedLlmModel: llmModel,
+      retention,
       schemaId: body.schemaId,
       sourceUrl: body.url,
       status: "pending",
@@ -153,6 +299,88 @@ const createFromUrl = async (input: CreateJobFromUrlInput): Promise<Job> => {
   return newJob;
 };
 
+/**
+ * Creates an extract job that reuses the markdown of a completed job instead
+ * of running OCR again. The worker only runs the LLM, so no pages are billed.
+ */
+const createFromSourceJob = async (
+  input: CreateFromSourceJobInput
+): Promise<Job> => {
+  const { apiKeyId, body, organizationId, requestId, userId } = input;
+
+  const source = await getById(organizationId, userId, body.sourceJobId);
+
+  if (!source) {
+    throw new NotFoundError("Source job not found");
+  }
+
+  if (source.status !== "completed" || source.markdownResult === null) {
+    throw new BadRequestError("Source job has no markdown result");
+  }
+
+  if (
+    body.schemaId &&
+    !(await SchemaService.getById(organizationId, userId, body.schemaId))
+  ) {
+    throw new NotFoundError("Schema not found");
+  }
+
+  if (body.callbackUrl) {
+    await assertCallbackDeliverable(apiKeyId, body.callbackUrl);
+  }
+
+  const llmModel = await SettingsService.resolveLlmModel(
+    organizationId,
+    body.model
+  );
+  // Re-extractions of a zero-retention job stay zero-retention.
+  const retention = await resolveRetention(
+    apiKeyId,
+    source.retention === "none" ? "none" : body.retention
+  );
+
+  const [newJob] = await db
+    .insert(jobs)
+    .values({
+      apiKeyId,
+      callbackStatus: body.callbackUrl ? "pending" : null,
+      callbackUrl: body.callbackUrl,
+      citations: body.citations,
+      fileKey: null,
+      fileName: source.fileName,
+      fileSize: source.fileSize,
+      hints: body.hints,
+      llmModel,
+      markdownResult: source.markdownResult,
+      mimeType: source.mimeType,
+      ocrEngine: source.ocrEngine,
+      organizationId,
+      pageCount: source.pageCount,
+      pageRange: source.pageRange,
+      requestedLlmModel: llmModel,
+      retention,
+      schemaId: body.schemaId,
+      sourceJobId: source.id,
+      status: "pending",
+      type: "extract",
+      userId,
+    })
+    .returning();
+
+  if (!newJob) {
+    throw new Error("Failed to create job");
+  }
+
+  await addJob({
+    jobId: newJob.id,
+    organizationId,
+    requestId,
+    userId,
+  });
+
+  return newJob;
+};
+
 const getById = async (
   organizationId: string,
   _userId: string,
@@ -165,6 +393,27 @@ const getById = async (
   return result ?? null;
 };
 
+/**
+ * Returns a job as its owner fetches it. A completed zero-retention job hands
+ * out its results on the first fetch and has them wiped in the process.
+ */
+const fetchResults = async (job: Job): Promise<Job> => {
+  if (job.retention !== "none") {
+    return job;
+  }
+
+  const taken =
+    job.status === "completed" ? await takeJobResults(job.id) : null;
+  return taken ?? withholdResults(job);
+};
+
+/** Pages of zero-retention jobs are never exposed on their own. */
+const assertPagesKept = (job: Job): void => {
+  if (job.retention === "none") {
+    throw new BadRequestError("Pages are not kept for zero-retention jobs");
+  }
+};
+
 const deleteJob = async (
   organizationId: string,
   userId: string,
@@ -185,18 +434,245 @@ const deleteJob = async (
   }
 
   await db.delete(jobs).where(eq(jobs.id, jobId));
+  await deleteCachedOcr(organizationId, [job.fileHash]);
 };
 
-const list = async (
+/**
+ * Cancels a job that has not finished. Waiting jobs leave the queue right
+ * away; a running job is stopped by the worker before its next stage.
+ */
+const cancel = async (
   organizationId: string,
-  _userId: string,
-  query: ListJobsQuery
-): Promise<ListJobsResult> => {
-  const page = query.page ?? DEFAULT_PAGE;
-  const limit = query.limit ?? DEFAULT_LIMIT;
-  const offset = (page - 1) * limit;
+  userId: string,
+  jobId: string
+): Promise<Job> => {
+  const job = await getById(organizationId, userId, jobId);
+
+  if (!job) {
+    throw new NotFoundError("Job not found");
+  }
+
+  if (!(await cancelJob(job.id))) {
+    throw new BadRequestError(`Job is already ${job.status}`);
+  }
+
+  // A job that never reached a worker still holds its zero-retention file.
+  if ((await removeQueuedJob(job.id)) && job.retention === "none") {
+    await discardJobFile(job);
+  }
+
+  const cancelled = await getById(organizationId, userId, jobId);
+  return cancelled ?? job;
+};
+
+/**
+ * Runs a failed or cancelled job again from its stored source. Pages that
+ * were already OCR'd are kept, so chunked jobs resume where they stopped.
+ */
+const retry = async (
+  organizationId: string,
+  userId: string,
+  jobId: string,
+  requestId?: string
+): Promise<Job> => {
+  const job = await getById(organizationId, userId, jobId);
+
+  if (!job) {
+    throw new NotFoundError("Job not found");
+  }
+
+  if (!RETRYABLE_STATUSES.includes(job.status)) {
+    throw new BadRequestError(
+      `Only failed or cancelled jobs can be retried, this job is ${job.status}`
+    );
+  }
+
+  if (!job.fileKey && !job.sourceUrl && !job.sourceJobId) {
+    throw new BadRequestError("Job has no stored file or source URL");
+  }
+
+  // A cancelled run stays locked in its worker until it notices; requeueing
+  // now would leave it running against the reset row.
+  if (await isJobActive(job.id)) {
+    throw new ConflictError(
+      "The previous run is still stopping, retry again shortly"
+    );
+  }
+
+  const [resetJob] = await db
+    .update(jobs)
+    .set({
+      cacheHit: false,
+      callbackStatus: job.callbackUrl ? "pending" : null,
+      completedAt: null,
+      errorCode: null,
+      errorMessage: null,
+      jsonResult: null,
+      jsonResultMeta: null,
+      llmUsage: null,
+      // A re-extraction keeps the markdown it extracts from.
+      markdownResult: job.sourceJobId ? job.markdownResult : null,
+      pageCount: job.sourceJobId ? job.pageCount : null,
+      processingTimeMs: null,
+      retryCount: 0,
+      startedAt: null,
+      status: "pending",
+      validationErrors: null,
+    })
+    .where(and(eq(jobs.id, job.id), inArray(jobs.status, RETRYABLE_STATUSES)))
+    .returning();
+
+  // Someone else retried it between the read and the update.
+  if (!resetJob) {
+    throw new BadRequestError("Job is already being retried");
+  }
+
+  await requeueJob({
+    jobId: resetJob.id,
+    organizationId,
+    requestId,
+    userId,
+  });
+
+  return resetJob;
+};
+
+/**
+ * Picks the model of a rerun: the request's choice, then the one the original
+ * asked for. A model the original only got from its schema is not carried
+ * over, so a rerun with another schema uses that schema's default.
+ */
+const resolveRerunModel = async (
+  organizationId: string,
+  parent: Job,
+  requested?: string
+): Promise<string | null> =>
+  (await SettingsService.resolveLlmModel(organizationId, requested)) ??
+  parent.requestedLlmModel;
+
+/** Rejects reruns of a job whose document can no longer be read. */
+const assertDocumentAvailable = async (parent: Job): Promise<void> => {
+  if (!parent.fileKey && !parent.sourceUrl && !parent.sourceJobId) {
+    throw new BadRequestError("Job has no stored file or source URL");
+  }
+
+  if (parent.fileKey && !(await StorageService.fileExists(parent.fileKey))) {
+    throw new BadRequestError("The original file is no longer available");
+  }
+};
+
+/**
+ * Creates a new job from the same document as an earlier one, optionally
+ * with a different schema, hints, model or engine. The original job is
+ * untouched.
+ */
+const rerun = async (input: RerunJobInput): Promise<Job> => {
+  const { apiKeyId, body, jobId, organizationId, requestId, userId } = input;
+
+  const parent = await getById(organizationId, userId, jobId);
+
+  if (!parent) {
+    throw new NotFoundError("Job not found");
+  }
 
-  const conditions = [eq(jobs.organizationId, organizationId)];
+  await assertDocumentAvailable(parent);
+
+  if (
+    body.schemaId &&
+    !(await SchemaService.getById(organizationId, userId, body.schemaId))
+  ) {
+    throw new NotFoundError("Schema not found");
+  }
+
+  const ocrEngine = await SettingsService.resolveOcrEngine(
+    organizationId,
+    body.engine ?? parent.ocrEngine ?? undefined
+  );
+  const llmModel = await resolveRerunModel(organizationId, parent, body.model);
+  // Reruns of a zero-retention job stay zero-retention.
+  const retention = await resolveRetention(apiKeyId, parent.retention);
+
+  const [newJob] = await db
+    .insert(jobs)
+    .values({
+      apiKeyId,
+      cacheMode: retention === "none" ? "bypass" : parent.cacheMode,
+      citations: body.citations ?? parent.citations,
+      fileHash: parent.fileHash,
+      fileKey: null,
+      fileName: parent.fileName,
+      fileSize: parent.fileSize,
+      hints: body.hints ?? parent.hints,
+      llmModel,
+      // Reruns of a re-extraction reuse the same markdown.
+      markdownResult: parent.sourceJobId ? parent.markdownResult : null,
+      mimeType: parent.mimeType,
+      ocrEngine,
+      organizationId,
+      pageCount: parent.sourceJobId ? parent.pageCount : null,
+      pageRange: parent.pageRange,
+      parentJobId: parent.id,
+      requestedLlmModel: llmModel,
+      retention,
+      schemaId: body.schemaId ?? parent.schemaId,
+      sourceJobId: parent.sourceJobId,
+      sourceUrl: parent.fileKey ? null : parent.sourceUrl,
+      status: "pending",
+      type: parent.type,
+      userId,
+    })
+    .returning();
+
+  if (!newJob) {
+    throw new Error("Failed to create job");
+  }
+
+  let rerunJob = newJob;
+
+  // Each job owns its file, so deleting the original cannot break the rerun.
+  if (parent.fileKey) {
+    const fileKey = `${organizationId}/jobs/${newJob.id}/${parent.fileName}`;
+    await StorageService.copyFile(parent.fileKey, fileKey);
+
+    const [updatedJob] = await db
+      .update(jobs)
+      .set({ fileKey })
+      .where(eq(jobs.id, newJob.id))
+      .returning();
+
+    if (!updatedJob) {
+      throw new Error("Failed to update job with file key");
+    }
+
+    rerunJob = updatedJob;
+  }
+
+  await addJob({
+    jobId: rerunJob.id,
+    organizationId,
+    requestId,
+    userId,
+  });
+
+  return rerunJob;
+};
+
+const escapeLikePattern = (value: string): string =>
+  value.replaceAll(/[\\%_]/g, String.raw`\$&`);
+
+const parseDateFilter = (name: string, value: string): Date => {
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw new BadRequestError(`Invalid ${name} date "${value}"`);
+  }
+  return date;
+};
+
+const buildListConditions = (
+  organizationId: string,
+  query: ListJobsQuery
+): SQL[] => {
+  const conditions: SQL[] = [eq(jobs.organizationId, organizationId)];
 
   if (query.type) {
     conditions.push(eq(jobs.type, query.type as JobType));
@@ -206,39 +682,169 @@ const list = async (
     conditions.push(eq(jobs.status, query.status as JobStatus));
   }
 
-  const whereClause = and(...conditions);
+  if (query.schemaId) {
+    conditions.push(eq(jobs.schemaId, query.schemaId));
+  }
+
+  if (query.apiKeyId) {
+    conditions.push(eq(jobs.apiKeyId, query.apiKeyId));
+  }
+
+  if (query.userId) {
+    conditions.push(eq(jobs.userId, query.userId));
+  }
+
+  if (query.createdAfter) {
+    conditions.push(
+      gte(jobs.createdAt, parseDateFilter("createdAfter", query.createdAfter))
+    );
+  }
+
+  if (query.createdBefore) {
+    conditions.push(
+      lt(jobs.createdAt, parseDateFilter("createdBefore", query.createdBefore))
+    );
+  }
+
+  if (query.fileName) {
+    conditions.push(
+      like(jobs.fileName, `${escapeLikePattern(query.fileName)}%`)
+    );
+  }
+
+  if (query.mimeType) {
+    conditions.push(eq(jobs.mimeType, query.mimeType));
+  }
+
+  // Zero-retention results must not be findable by their content.
+  if (query.q) {
+    conditions.push(
+      ne(jobs.retention, "none"),
+      sql`${jobSearchVector} @@ websearch_to_tsquery('english', ${query.q})`
+    );
+  }
+
+  return conditions;
+};
+
+/**
+ * Lists jobs matching the query. Pass `cursor` (the `nextCursor` of the
+ * previous page) to page by `(createdAt, id)`, which stays stable while new
+ * jobs arrive; `page` falls back to offset pagination.
+ */
+const list = async (
+  organizationId: string,
+  _userId: string,
+  query: ListJobsQuery
+): Promise<ListJobsResult> => {
+  const page = query.page ?? DEFAULT_PAGE;
+  const limit = query.limit ?? DEFAULT_LIMIT;
+  const cursor = query.cursor ? decodeCursor(query.cursor) : null;
+
+  if (cursor && query.sortBy === "updatedAt") {
+    throw new BadRequestError(
+      "cursor can only be used when sorting by createdAt"
+    );
+  }
+
+  const whereClause = and(...buildListConditions(organizationId, query));
+  const ascending = query.sortOrder === "asc";
+  const direction = ascending ? asc : desc;
 
   const sortColumn =
     query.sortBy === "updatedAt" ? jobs.updatedAt : jobs.createdAt;
-  const orderByClause =
-    query.sortOrder === "asc" ? asc(sortColumn) : desc(sortColumn);
 
-  const [data, [countResult]] = await Promise.all([
+  const pageClause = cursor
+    ? and(
+        whereClause,
+        sql`(${jobs.createdAt}, ${jobs.id}) ${sql.raw(ascending ? ">" : "<")} (${cursor.createdAt}::timestamp, ${cursor.id})`
+      )
+    : whereClause;
+
+  // One extra row tells whether another page follows.
+  const [rows, [countResult]] = await Promise.all([
     db.query.jobs.findMany({
-      limit,
-      offset,
-      orderBy: orderByClause,
-      where: whereClause,
+      extras: (table) => ({
+        createdAtText: sql<string>`${table.createdAt}::text`.as(
+          "created_at_text"
+        ),
+      }),
+      limit: limit + 1,
+      offset: cursor ? undefined : (page - 1) * limit,
+      orderBy: [direction(sortColumn), direction(jobs.id)],
+      where: pageClause,
     }),
     db.select({ count: count() }).from(jobs).where(whereClause),
   ]);
 
+  const hasNextPage = rows.length > limit;
+  const pageRows = rows.slice(0, limit);
+  const lastRow = pageRows.at(-1);
   const totalCount = countResult?.count ?? 0;
-  const totalPages = Math.ceil(totalCount / limit);
 
   return {
-    data,
+    data: pageRows.map(({ createdAtText: _createdAtText, ...job }) =>
+      withholdResults(job)
+    ),
     pagination: {
-      currentPage: page,
-      hasNextPage: page < totalPages,
-      hasPreviousPage: page > 1,
+      currentPage: cursor ? null : page,
+      hasNextPage,
+      hasPreviousPage: cursor !== null || page > 1,
       limit,
+      nextCursor:
+        hasNextPage && lastRow && query.sortBy !== "updatedAt"
+          ? encodeCursor({ createdAt: lastRow.createdAtText, id: lastRow.id })
+          : null,
       totalCount,
-      totalPages,
+      totalPages: Math.ceil(totalCount / limit),
     },
   };
 };
 
+const listPages = async (
+  organizationId: string,
+  userId: string,
+  jobId: string
+): Promise<JobPage[]> => {
+  const job = await getById(organizationId, userId, jobId);
+
+  if (!job) {
+    throw new NotFoundError("Job not found");
+  }
+
+  assertPagesKept(job);
+
+  return db.query.jobPages.findMany({
+    orderBy: asc(jobPages.pageNumber),
+    where: eq(jobPages.jobId, jobId),
+  });
+};
+
+const getPage = async (
+  organizationId: string,
+  userId: string,
+  jobId: string,
+  pageNumber: number
+): Promise<JobPage> => {
+  const job = await getById(organizationId, userId, jobId);
+
+  if (!job) {
+    throw new NotFoundError("Job not found");
+  }
+
+  assertPagesKept(job);
+
+  const page = await db.query.jobPages.findFirst({
+    where: and(eq(jobPages.jobId, jobId), eq(jobPages.pageNumber, pageNumber)),
+  });
+
+  if (!page) {
+    throw new NotFoundError("Page not found");
+  }
+
+  return page;
+};
+
 const getFileBuffer = async (
   organizationId: string,
   userId: string,
@@ -262,14 +868,52 @@ const getDownloadContent = async (
   organizationId: string,
   userId: string,
   jobId: string,
-  format: "json" | "md" = "md"
+  format: "json" | "layout" | "md" = "md"
 ): Promise<{ content: string; contentType: string; fileName: string }> => {
-  const job = await getById(organizationId, userId, jobId);
+  const found = await getById(organizationId, userId, jobId);
 
-  if (!job) {
+  if (!found) {
     throw new NotFoundError("Job not found");
   }
 
+  if (format === "layout") {
+    assertPagesKept(found);
+  }
+
+  if (found.retention === "none" && found.resultsPurgedAt) {
+    throw new BadRequestError("Results have already been delivered");
+  }
+
+  // A zero-retention download is the one delivery, whichever format it asks for.
+  const job = await fetchResults(found);
+
+  if (format === "layout") {
+    const pages = await db.query.jobPages.findMany({
+      orderBy: asc(jobPages.pageNumber),
+      where: eq(jobPages.jobId, jobId),
+    });
+
+    if (!pages.some((page) => page.layout)) {
+      throw new BadRequestError("Layout result not available");
+    }
+
+    const layout = {
+      jobId: job.id,
+      pages: pages.map((page) => ({
+        blocks: page.layout ?? [],
+        height: page.height,
+        pageNumber: page.pageNumber,
+        width: page.width,
+      })),
+    };
+
+    return {
+      content: JSON.stringify(layout, null, 2),
+      contentType: "application/json",
+      fileName: `${job.fileName.replace(/\.[^.]+$/, "")}.layout.json`,
+    };
+  }
+
   if (format === "json") {
     if (!job.jsonResult) {
       throw new BadRequestError("JSON result not available");
@@ -297,25 +941,51 @@ const createForPresignedUpload = async (
   input: CreatePresignedUploadInput
 ): Promise<{ job: Job; uploadUrl: string }> => {
   const {
+    apiKeyId,
+    cache,
+    citations,
+    engine,
     fileName,
     fileSize,
     hints,
     mimeType,
+    model,
     organizationId,
+    pages,
+    retention: requestedRetention,
     schemaId,
     type,
     userId,
   } = input;
 
+  const ocrEngine = await SettingsService.resolveOcrEngine(
+    organizationId,
+    engine
+  );
+  const llmModel = await SettingsService.resolveLlmModel(
+    organizationId,
+    type === "extract" ? model : undefined
+  );
+  const pageRange = pages ? normalizePageRange(pages) : null;
+  const retention = await resolveRetention(apiKeyId, requestedRetention);
+
   const [newJob] = await db
     .insert(jobs)
     .values({
+      apiKeyId,
+      cacheMode: retention === "none" ? "bypass" : cache,
+      citations,
       fileKey: null,
       fileName,
       fileSize,
       hints,
+      llmModel,
       mimeType,
+      ocrEngine,
       organizationId,
+      pageRange,
+      requestedLlmModel: llmModel,
+      retention,
       schemaId,
       status: "pending",
       type,
@@ -344,6 +1014,24 @@ const createForPresignedUpload = async (
   return { job: updatedJob, uploadUrl };
 };
 
+/**
+ * Signs a new upload URL for a presigned upload that has not been confirmed,
+ * e.g. when an idempotent presign is replayed after its URL expired.
+ */
+const refreshUploadUrl = async (
+  organizationId: string,
+  userId: string,
+  jobId: string
+): Promise<string | null> => {
+  const job = await getById(organizationId, userId, jobId);
+
+  if (!job?.fileKey || job.status !== "pending" || job.fileHash) {
+    return null;
+  }
+
+  return StorageService.getPresignedUploadUrl(job.fileKey, job.mimeType);
+};
+
 const confirmUpload = async (input: ConfirmUploadInput): Promise<Job> => {
   const { jobId, organizationId, requestId, userId } = input;
 
@@ -366,6 +1054,13 @@ const confirmUpload = async (input: ConfirmUploadInput): Promise<Job> => {
     throw new BadRequestError("File has not been uploaded to storage yet");
   }
 
+  const buffer = await StorageService.getFile(job.fileKey);
+  const [hashedJob] = await db
+    .update(jobs)
+    .set({ fileHash: hashDocument(buffer) })
+    .where(eq(jobs.id, job.id))
+    .returning();
+
   await addJob({
     jobId: job.id,
     organizationId,
@@ -373,17 +1068,25 @@ const confirmUpload = async (input: ConfirmUploadInput): Promise<Job> => {
     userId,
   });
 
-  return job;
+  return hashedJob ?? job;
 };
 
 export const JobService = {
+  cancel,
   confirmUpload,
   create,
   createForPresignedUpload,
+  createFromSourceJob,
   createFromUrl,
   delete: deleteJob,
+  fetchResults,
   getById,
   getDownloadContent,
   getFileBuffer,
+  getPage,
   list,
+  listPages,
+  refreshUploadUrl,
+  rerun,
+  retry,
 };
@@ -1,7 +1,8 @@
+import type { JobPage } from "@ocrbase/db/schema/job-pages";
 import type { Job } from "@ocrbase/db/schema/jobs";
 
 import type { WideEventContext } from "../../lib/wide-event";
-import type { JobResponse } from "./model";
+import type { CreateJobBody, JobPageResponse, JobResponse } from "./model";
 
 import { BadRequestError } from "../../lib/errors";
 import { JobService } from "./service";
@@ -14,25 +15,38 @@ export const getWideEvent = (ctx: unknown): WideEventContext | undefined =>
   (ctx as ContextWithWideEvent).wideEvent;
 
 export const formatJobResponse = (job: Job): JobResponse => ({
+  batchId: job.batchId,
+  cacheHit: job.cacheHit,
+  callbackStatus: job.callbackStatus,
+  callbackUrl: job.callbackUrl,
   completedAt: job.completedAt?.toISOString() ?? null,
   createdAt: job.createdAt.toISOString(),
   errorCode: job.errorCode,
   errorMessage: job.errorMessage,
   fileKey: job.fileKey,
   fileName: job.fileName,
+  filePurgedAt: job.filePurgedAt?.toISOString() ?? null,
   fileSize: job.fileSize,
   hints: job.hints,
   id: job.id,
   jsonResult: job.jsonResult ?? null,
+  jsonResultMeta: job.jsonResultMeta,
   llmModel: job.llmModel,
   llmProvider: job.llmProvider,
+  llmUsage: job.llmUsage,
   markdownResult: job.markdownResult,
   mimeType: job.mimeType,
+  ocrEngine: job.ocrEngine,
   organizationId: job.organizationId,
   pageCount: job.pageCount,
+  pageRange: job.pageRange,
+  parentJobId: job.parentJobId,
   processingTimeMs: job.processingTimeMs,
+  resultsPurgedAt: job.resultsPurgedAt?.toISOString() ?? null,
+  retention: job.retention,
   retryCount: job.retryCount,
   schemaId: job.schemaId,
+  sourceJobId: job.sourceJobId,
   sourceUrl: job.sourceUrl,
   startedAt: job.startedAt?.toISOString() ?? null,
   status: job.status,
@@ -40,6 +54,16 @@ export const formatJobResponse = (job: Job): JobResponse => ({
   type: job.type,
   updatedAt: job.updatedAt.toISOString(),
   userId: job.userId,
+  validationErrors: job.validationErrors,
+});
+
+export const formatJobPageResponse = (page: JobPage): JobPageResponse => ({
+  height: page.height,
+  jobId: page.jobId,
+  markdown: page.markdown,
+  pageNumber: page.pageNumber,
+  processingTimeMs: page.processingTimeMs,
+  width: page.width,
 });
 
 const setWideEventJob = (
@@ -62,9 +86,17 @@ export const createJobHandler = async <
   T extends {
     apiKey?: { id: string } | null;
     body: {
+      cache?: CreateJobBody["cache"];
+      callbackUrl?: string;
+      citations?: boolean;
+      engine?: CreateJobBody["engine"];
       file?: File;
       hints?: string;
+      model?: string;
+      pages?: string;
+      retention?: CreateJobBody["retention"];
       schemaId?: string;
+      sourceJobId?: string;
       url?: string;
     };
     organization: { id: string } | null;
@@ -85,6 +117,38 @@ export const createJobHandler = async <
 
   const organizationId = organization.id;
 
+  // Callbacks are signed with the creating API key, so sessions cannot use them.
+  if (body.callbackUrl && !apiKey) {
+    throw new BadRequestError("callbackUrl requires API key authentication");
+  }
+
+  if (body.sourceJobId) {
+    if (body.file || body.url || body.pages || body.engine) {
+      throw new BadRequestError(
+        "sourceJobId cannot be combined with file, url, pages or engine"
+      );
+    }
+
+    const job = await JobService.createFromSourceJob({
+      apiKeyId: apiKey?.id,
+      body: {
+        callbackUrl: body.callbackUrl,
+        citations: body.citations,
+        hints: body.hints,
+        model: body.model,
+        retention: body.retention,
+        schemaId: body.schemaId,
+        sourceJobId: body.sourceJobId,
+      },
+      organizationId,
+      requestId,
+      userId: user.id,
+    });
+
+    setWideEventJob(wideEvent, job);
+    return formatJobResponse(job);
+  }
+
   const hasValidUrl =
     typeof body.url === "string" &&
     body.url.length > 0 &&
@@ -94,7 +158,14 @@ export const createJobHandler = async <
     const job = await JobService.createFromUrl({
       apiKeyId: apiKey?.id,
       body: {
+        cache: body.cache,
+        callbackUrl: body.callbackUrl,
+        citations: body.citations,
+        engine: body.engine,
         hints: body.hints,
+        model: body.model,
+        pages: body.pages,
+        retention: body.retention,
         schemaId: body.schemaId,
         type: options.type,
         url: body.url,
@@ -118,7 +189,14 @@ export const createJobHandler = async <
   const job = await JobService.create({
     apiKeyId: apiKey?.id,
     body: {
+      cache: body.cache,
+      callbackUrl: body.callbackUrl,
+      citations: body.citations,
+      engine: body.engine,
       hints: body.hints,
+      model: body.model,
+      pages: body.pages,
+      retention: body.retention,
       schemaId: body.schemaId,
       type: options.type,
     },
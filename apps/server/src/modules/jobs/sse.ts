@@ -1,16 +1,18 @@
 import { auth } from "@ocrbase/auth";
 import { db } from "@ocrbase/db";
 import { member, organization } from "@ocrbase/db/schema/auth";
-import { jobs } from "@ocrbase/db/schema/jobs";
+import { jobs, type Job } from "@ocrbase/db/schema/jobs";
 import { and, eq } from "drizzle-orm";
 import { Elysia, t } from "elysia";
 
 import { validateApiKey } from "../../lib/api-key";
+import { formatSseEvent } from "../../lib/sse";
 import {
   subscribeToJob,
   unsubscribeFromJob,
   type JobUpdateMessage,
 } from "../../services/realtime";
+import { takeJobResults } from "../../services/retention";
 
 const HEARTBEAT_INTERVAL_MS = 15_000;
 
@@ -19,8 +21,18 @@ const findJob = (jobId: string, organizationId: string) =>
     where: and(eq(jobs.id, jobId), eq(jobs.organizationId, organizationId)),
   });
 
-const formatSseEvent = (event: string, data: unknown): string =>
-  `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+const completedMessage = (
+  jobId: string,
+  results: Pick<Job, "jsonResult" | "markdownResult"> | null
+): JobUpdateMessage => ({
+  data: {
+    jsonResult: results?.jsonResult ?? undefined,
+    markdownResult: results?.markdownResult ?? undefined,
+    status: "completed",
+  },
+  jobId,
+  type: "completed",
+});
 
 export const jobsSse = new Elysia().get(
   "/v1/realtime",
@@ -114,10 +126,27 @@ export const jobsSse = new Elysia().get(
           enqueue(": heartbeat\n\n");
         }, HEARTBEAT_INTERVAL_MS);
 
-        const callback = (message: JobUpdateMessage): void => {
-          enqueue(formatSseEvent(message.type, message));
+        const callback = async (message: JobUpdateMessage): Promise<void> => {
+          // Zero-retention results are not published; the first stream to
+          // see the completion takes them from the database.
+          if (message.type === "completed" && job.retention === "none") {
+            try {
+              const taken = await takeJobResults(jobId);
+              enqueue(
+                formatSseEvent("completed", completedMessage(jobId, taken))
+              );
+            } catch {
+              enqueue(formatSseEvent("completed", message));
+            }
+          } else {
+            enqueue(formatSseEvent(message.type, message));
+          }
 
-          if (message.type === "completed" || message.type === "error") {
+          if (
+            message.type === "completed" ||
+            message.type === "error" ||
+            message.type === "cancelled"
+          ) {
             closeStream();
           }
         };
@@ -131,16 +160,12 @@ export const jobsSse = new Elysia().get(
         const current = latestJob ?? job;
 
         if (current.status === "completed") {
+          const results =
+            current.retention === "none"
+              ? await takeJobResults(jobId)
+              : current;
           enqueue(
-            formatSseEvent("completed", {
-              data: {
-                jsonResult: current.jsonResult ?? undefined,
-                markdownResult: current.markdownResult ?? undefined,
-                status: "completed",
-              },
-              jobId,
-              type: "completed",
-            })
+            formatSseEvent("completed", completedMessage(jobId, results))
           );
           closeStream();
           return;
@@ -161,6 +186,18 @@ export const jobsSse = new Elysia().get(
           return;
         }
 
+        if (current.status === "cancelled") {
+          enqueue(
+            formatSseEvent("cancelled", {
+              data: { status: "cancelled" },
+              jobId,
+              type: "cancelled",
+            })
+          );
+          closeStream();
+          return;
+        }
+
         enqueue(
           formatSseEvent("status", {
             data: { status: current.status },
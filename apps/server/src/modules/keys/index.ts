@@ -1,3 +1,5 @@
+import type { RetentionMode } from "@ocrbase/db/lib/enums";
+
 import { Elysia, t } from "elysia";
 
 import { NotFoundError } from "../../lib/errors";
@@ -12,6 +14,7 @@ const formatKeyResponse = (key: {
   keyPrefix: string;
   isActive: boolean;
   requestCount: number;
+  retention: RetentionMode;
   lastUsedAt: Date | null;
   createdAt: Date;
   updatedAt: Date;
@@ -23,6 +26,7 @@ const formatKeyResponse = (key: {
   lastUsedAt: key.lastUsedAt?.toISOString() ?? null,
   name: key.name,
   requestCount: key.requestCount,
+  retention: key.retention,
   updatedAt: key.updatedAt.toISOString(),
 });
 
@@ -38,16 +42,19 @@ export const keysRoutes = new Elysia({ prefix: "/v1/keys" })
       const result = await KeyService.create({
         name: body.name,
         organizationId: organization?.id ?? user.id,
+        retention: body.retention,
         userId: user.id,
       });
 
       return {
+        callbackSecret: result.callbackSecret,
         createdAt: result.createdAt.toISOString(),
         id: result.id,
         isActive: result.isActive,
         key: result.key,
         keyPrefix: result.keyPrefix,
         name: result.name,
+        retention: result.retention,
       };
     },
     {
@@ -55,11 +62,12 @@ export const keysRoutes = new Elysia({ prefix: "/v1/keys" })
       detail: {
         description: `Create a new API key for programmatic access.
 
-The full API key is only returned once at creation time. Store it securely.
+The full API key and its callback signing secret are only returned once at creation time. Store them securely.
 Keys can be revoked or deleted at any time.`,
         responses: {
           201: {
-            description: "API key created (includes full key, only shown once)",
+            description:
+              "API key created (includes full key and callback secret, only shown once)",
           },
           401: { description: "Unauthorized - Invalid or missing API key" },
           429: { description: "Too Many Requests - Rate limit exceeded" },
@@ -116,6 +124,7 @@ Returns key metadata including prefix, status, and usage statistics. Full keys a
           lastUsedAt: usage.key.lastUsedAt?.toISOString() ?? null,
           name: usage.key.name,
           requestCount: usage.key.requestCount,
+          retention: usage.key.retention,
         },
         recentUsage: usage.recentUsage.map((u) => ({
           createdAt: u.createdAt.toISOString(),
@@ -188,6 +197,47 @@ The key will immediately stop working but usage history is preserved. This actio
       }),
     }
   )
+  .post(
+    "/:id/callback-secret",
+    async ({ params, organization, user }) => {
+      if (!user || !organization) {
+        throw new Error("Unauthorized");
+      }
+
+      const callbackSecret = await KeyService.rotateCallbackSecret(
+        params.id,
+        organization.id
+      );
+
+      if (!callbackSecret) {
+        throw new NotFoundError("API key not found");
+      }
+
+      return { callbackSecret };
+    },
+    {
+      detail: {
+        description: `Generate a new secret for signing the key's job callbacks.
+
+The secret is only returned once and replaces the previous one immediately. Keys created before callback secrets existed need one before their callbacks can be delivered.`,
+        responses: {
+          200: { description: "Callback secret rotated (only shown once)" },
+          401: { description: "Unauthorized - Invalid or missing API key" },
+          404: { description: "Not Found - API key does not exist" },
+          429: { description: "Too Many Requests - Rate limit exceeded" },
+          500: { description: "Internal Server Error" },
+        },
+        tags: ["Keys"],
+      },
+      params: t.Object({
+        id: t.String({
+          description: "API key ID",
+          examples: ["ak_abc123xyz"],
+          pattern: IdPatterns.key,
+        }),
+      }),
+    }
+  )
   .delete(
     "/:id",
     async ({ params, organization, user }) => {
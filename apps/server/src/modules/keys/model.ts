@@ -1,17 +1,38 @@
 import { t, type Static } from "elysia";
 
+import { JobModel } from "../jobs/model";
+
 export const KeyModel = {
+  callbackSecretResponse: t.Object({
+    callbackSecret: t.String({
+      description:
+        "Signs the key's job callbacks. Only returned once; the previous secret stops working immediately.",
+    }),
+  }),
+
   createBody: t.Object({
     name: t.String({ maxLength: 100, minLength: 1 }),
+    retention: t.Optional(
+      t.Union([t.Literal("standard"), t.Literal("none")], {
+        description:
+          "Data retention of every job created with the key. With `none`, jobs are zero-retention whatever the request asks for. Cannot be changed later.",
+        examples: ["standard"],
+      })
+    ),
   }),
 
   createResponse: t.Object({
+    callbackSecret: t.String({
+      description:
+        "Signs job callbacks of jobs created with the key. Only returned once.",
+    }),
     createdAt: t.String(),
     id: t.String(),
     isActive: t.Boolean(),
     key: t.String(),
     keyPrefix: t.String(),
     name: t.String(),
+    retention: JobModel.Retention,
   }),
 
   listResponse: t.Array(
@@ -23,6 +44,7 @@ export const KeyModel = {
       lastUsedAt: t.Union([t.String(), t.Null()]),
       name: t.String(),
       requestCount: t.Number(),
+      retention: JobModel.Retention,
       updatedAt: t.String(),
     })
   ),
@@ -35,6 +57,7 @@ export const KeyModel = {
     lastUsedAt: t.Union([t.String(), t.Null()]),
     name: t.String(),
     requestCount: t.Number(),
+    retention: JobModel.Retention,
     updatedAt: t.String(),
   }),
 
@@ -47,6 +70,7 @@ export const KeyModel = {
       lastUsedAt: t.Union([t.String(), t.Null()]),
       name: t.String(),
       requestCount: t.Number(),
+      retention: JobModel.Retention,
     }),
     recentUsage: t.Array(
       t.Object({
@@ -68,4 +92,7 @@ export const KeyModel = {
 export type CreateKeyBody = Static<typeof KeyModel.createBody>;
 export type KeyResponse = Static<typeof KeyModel.response>;
 export type CreateKeyResponse = Static<typeof KeyModel.createResponse>;
+export type CallbackSecretResponse = Static<
+  typeof KeyModel.callbackSecretResponse
+>;
 export type KeyUsageResponse = Static<typeof KeyModel.usageResponse>;
@@ -1,37 +1,47 @@
+import type { RetentionMode } from "@ocrbase/db/lib/enums";
+
 import { db } from "@ocrbase/db";
 import { apiKeys, apiKeyUsage } from "@ocrbase/db/schema/api-keys";
 import { and, desc, eq, gte, sql } from "drizzle-orm";
 
 import { generateApiKey, getKeyPrefix, hashApiKey } from "../../lib/api-key";
+import { generateWebhookSecret } from "../../services/webhooks";
 
 export const KeyService = {
   async create({
     name,
     organizationId,
+    retention,
     userId,
   }: {
     name: string;
     organizationId: string;
+    retention?: RetentionMode;
     userId: string;
   }): Promise<{
+    callbackSecret: string;
     id: string;
     key: string;
     keyPrefix: string;
     name: string;
     isActive: boolean;
+    retention: RetentionMode;
     createdAt: Date;
   }> {
     const rawKey = generateApiKey();
     const keyHash = await hashApiKey(rawKey);
     const keyPrefix = getKeyPrefix(rawKey);
+    const callbackSecret = generateWebhookSecret();
 
     const [created] = await db
       .insert(apiKeys)
       .values({
+        callbackSecret,
         keyHash,
         keyPrefix,
         name,
         organizationId,
+        retention,
         userId,
       })
       .returning();
@@ -41,12 +51,14 @@ export const KeyService = {
     }
 
     return {
+      callbackSecret,
       createdAt: created.createdAt,
       id: created.id,
       isActive: created.isActive,
       key: rawKey,
       keyPrefix: created.keyPrefix,
       name: created.name,
+      retention: created.retention,
     };
   },
 
@@ -135,6 +147,7 @@ export const KeyService = {
         lastUsedAt: key.lastUsedAt,
         name: key.name,
         requestCount: key.requestCount,
+        retention: key.retention,
       },
       recentUsage,
       stats: {
@@ -155,6 +168,7 @@ export const KeyService = {
         lastUsedAt: apiKeys.lastUsedAt,
         name: apiKeys.name,
         requestCount: apiKeys.requestCount,
+        retention: apiKeys.retention,
         updatedAt: apiKeys.updatedAt,
       })
       .from(apiKeys)
@@ -173,4 +187,21 @@ export const KeyService = {
 
     return result.length > 0;
   },
+
+  /** Replaces the key's callback secret and returns the new one. */
+  async rotateCallbackSecret(
+    id: string,
+    organizationId: string
+  ): Promise<string | null> {
+    const callbackSecret = generateWebhookSecret();
+    const [updated] = await db
+      .update(apiKeys)
+      .set({ callbackSecret })
+      .where(
+        and(eq(apiKeys.id, id), eq(apiKeys.organizationId, organizationId))
+      )
+      .returning({ id: apiKeys.id });
+
+    return updated ? callbackSecret : null;
+  },
 };
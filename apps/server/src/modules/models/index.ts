@@ -0,0 +1,40 @@
+import { Elysia } from "elysia";
+
+import { requireAuth } from "../../plugins/auth";
+import { SettingsService } from "../settings/service";
+
+export const modelsRoutes = new Elysia({ prefix: "/v1/models" })
+  .use(requireAuth)
+  .get(
+    "/",
+    async ({ organization, user }) => {
+      if (!user || !organization) {
+        throw new Error("Unauthorized");
+      }
+
+      const { models, provider } = await SettingsService.listLlmModels(
+        organization.id
+      );
+
+      return models.map((model) => ({
+        default: model === provider.defaultModel,
+        id: model,
+        provider: provider.name,
+        providerLabel: provider.label,
+      }));
+    },
+    {
+      detail: {
+        description: `List the extraction models the current organization may use.
+
+Pass a model's \`id\` as \`model\` to \`POST /v1/extract\` or as a schema's \`defaultModel\`. \`default\` marks the model used when neither the request nor the schema picks one. Organization admins add models through \`allowedLlmModels\` in the settings.`,
+        responses: {
+          200: { description: "List of extraction models" },
+          401: { description: "Unauthorized - Invalid or missing API key" },
+          429: { description: "Too Many Requests - Rate limit exceeded" },
+          500: { description: "Internal Server Error" },
+        },
+        tags: ["Models"],
+      },
+    }
+  );
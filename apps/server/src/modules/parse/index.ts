@@ -1,7 +1,9 @@
 import { Elysia, t } from "elysia";
 
+import { withIdempotency } from "../../lib/idempotency";
 import { ExampleUrls, FileConstraints } from "../../lib/openapi";
 import { requireAuth } from "../../plugins/auth";
+import { JobModel } from "../jobs/model";
 import { createJobHandler, getWideEvent } from "../jobs/shared";
 
 export const parseRoutes = new Elysia({ prefix: "/v1/parse" })
@@ -10,16 +12,23 @@ export const parseRoutes = new Elysia({ prefix: "/v1/parse" })
     "/",
     (ctx) => {
       const wideEvent = getWideEvent(ctx);
-      return createJobHandler(ctx, wideEvent, { type: "parse" });
+      return withIdempotency(ctx, () =>
+        createJobHandler(ctx, wideEvent, { type: "parse" })
+      );
     },
     {
       body: t.Object(
         {
+          cache: t.Optional(JobModel.CacheMode),
+          callbackUrl: t.Optional(JobModel.CallbackUrl),
+          engine: t.Optional(JobModel.OcrEngine),
           file: t.Optional(
             t.File({
               description: `Document file to parse. Max size: ${FileConstraints.maxSize}. Supported formats: PDF, PNG, JPEG, WebP, TIFF.`,
             })
           ),
+          pages: t.Optional(JobModel.PageRange),
+          retention: t.Optional(JobModel.Retention),
           url: t.Optional(
             t.String({
               description: "URL of the document to parse (PDF or image)",
@@ -41,11 +50,17 @@ Upload a file or provide a URL to a PDF/image document. The document will be pro
 **Supported formats:** PDF, PNG, JPEG, WebP, TIFF
 **Max file size:** ${FileConstraints.maxSize}
 
+Send an \`Idempotency-Key\` header to make retries safe: a repeated request returns the original job instead of creating another one.
+
 Returns a job object. Poll the job status or use WebSocket for real-time updates.`,
         responses: {
           202: { description: "Job accepted for processing" },
           400: { description: "Bad Request - No file or URL provided" },
           401: { description: "Unauthorized - Invalid or missing API key" },
+          409: {
+            description:
+              "Conflict - Idempotency-Key reused for a different request",
+          },
           413: { description: "Payload Too Large - File exceeds 50MB limit" },
           429: { description: "Too Many Requests - Rate limit exceeded" },
           500: { description: "Internal Server Error" },
@@ -0,0 +1,94 @@
+import { Elysia, t } from "elysia";
+
+import { requireAuth } from "../../plugins/auth";
+import { getWideEvent } from "../jobs/shared";
+import { QuestionModel } from "./model";
+import { formatQuestionResponse, QuestionService } from "./service";
+
+const JobIdParams = t.Object({
+  id: t.String({
+    description: "Job ID",
+    examples: ["job_abc123xyz"],
+    pattern: "^job_[a-zA-Z0-9_-]+$",
+  }),
+});
+
+const commonResponses = {
+  401: { description: "Unauthorized - Invalid or missing API key" },
+  429: { description: "Too Many Requests - Rate limit exceeded" },
+  500: { description: "Internal Server Error" },
+};
+
+export const questionsRoutes = new Elysia({ prefix: "/v1/jobs" })
+  .use(requireAuth)
+  .post(
+    "/:id/ask",
+    async (ctx) => {
+      const { apiKey, body, organization, params, request, user } = ctx;
+      const wideEvent = getWideEvent(ctx);
+
+      if (!user || !organization) {
+        throw new Error("Unauthorized");
+      }
+
+      const stream = await QuestionService.ask({
+        apiKeyId: apiKey?.id,
+        body,
+        jobId: params.id,
+        organizationId: organization.id,
+        signal: request.signal,
+        userId: user.id,
+      });
+
+      wideEvent?.setJob({ id: params.id });
+
+      return new Response(stream, {
+        headers: {
+          "cache-control": "no-cache",
+          connection: "keep-alive",
+          "content-type": "text/event-stream",
+          "x-accel-buffering": "no",
+        },
+      });
+    },
+    {
+      body: QuestionModel.askBody,
+      detail: {
+        description: `Ask a question about a completed job and stream the answer.
+
+The most relevant pages of the document are retrieved (semantic search when embeddings are enabled, full-text search otherwise) and the answer cites them as \`[p. N]\`. The response is a \`text/event-stream\`: a \`token\` event carries each piece of text, then a \`done\` event carries the stored question with its parsed citations. If the answer fails midway an \`error\` event is sent instead.`,
+        responses: {
+          200: { description: "Server-sent events with the streamed answer" },
+          400: { description: "Bad Request - Job is not completed" },
+          404: { description: "Not Found - Job does not exist" },
+          ...commonResponses,
+        },
+        tags: ["Jobs"],
+      },
+      params: JobIdParams,
+    }
+  )
+  .get(
+    "/:id/questions",
+    async ({ organization, params, user }) => {
+      if (!user || !organization) {
+        throw new Error("Unauthorized");
+      }
+
+      const questions = await QuestionService.list(organization.id, params.id);
+
+      return { data: questions.map(formatQuestionResponse) };
+    },
+    {
+      detail: {
+        description: `List the questions asked about a job and their answers, oldest first.`,
+        responses: {
+          200: { description: "Question and answer history of the job" },
+          404: { description: "Not Found - Job does not exist" },
+          ...commonResponses,
+        },
+        tags: ["Jobs"],
+      },
+      params: JobIdParams,
+    }
+  );
@@ -0,0 +1,38 @@
+import { t, type Static } from "elysia";
+
+const JobQuestion = t.Object({
+  answer: t.String({ description: "Markdown answer with [p. N] citations" }),
+  citations: t.Array(
+    t.Object({
+      pageNumber: t.Number({ description: "Cited page of the document" }),
+    }),
+    { description: "Pages the answer cites, in order of first mention" }
+  ),
+  completionTokens: t.Union([t.Number(), t.Null()]),
+  createdAt: t.String(),
+  id: t.String(),
+  jobId: t.String(),
+  llmModel: t.Union([t.String(), t.Null()]),
+  promptTokens: t.Union([t.Number(), t.Null()]),
+  question: t.String(),
+});
+
+export const QuestionModel = {
+  askBody: t.Object({
+    question: t.String({
+      description: "Question about the document",
+      examples: ["What are the payment terms?"],
+      maxLength: 2000,
+      minLength: 1,
+    }),
+  }),
+
+  listResponse: t.Object({
+    data: t.Array(JobQuestion),
+  }),
+
+  question: JobQuestion,
+};
+
+export type AskQuestionBody = Static<typeof QuestionModel.askBody>;
+export type JobQuestionResponse = Static<typeof JobQuestion>;
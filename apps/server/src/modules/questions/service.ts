@@ -0,0 +1,321 @@
+import type { JobQuestion } from "@ocrbase/db/schema/job-questions";
+import type { Job } from "@ocrbase/db/schema/jobs";
+
+import { db } from "@ocrbase/db";
+import { jobPageSearchVector, jobPages } from "@ocrbase/db/schema/job-pages";
+import { jobQuestions } from "@ocrbase/db/schema/job-questions";
+import { jobs } from "@ocrbase/db/schema/jobs";
+import { and, asc, desc, eq, inArray, sql } from "drizzle-orm";
+
+import type { AskQuestionBody, JobQuestionResponse } from "./model";
+
+import { BadRequestError, NotFoundError } from "../../lib/errors";
+import { formatSseEvent } from "../../lib/sse";
+import { embeddingService } from "../../services/embeddings";
+import {
+  llmService,
+  resolveLlmProvider,
+  type QuestionContextPage,
+} from "../../services/llm";
+import { recordUsage } from "../../services/usage";
+import { SearchService } from "../search/service";
+
+const MAX_CONTEXT_PAGES = 4;
+const MAX_PAGE_CHARS = 12_000;
+const SEMANTIC_MATCHES = 8;
+const CITATION_PATTERN = /\[p\.\s*(\d+)\]/g;
+const WORD_PATTERN = /[\p{L}\p{N}]+/gu;
+
+interface AskOptions {
+  organizationId: string;
+  userId: string;
+  apiKeyId?: string;
+  jobId: string;
+  body: AskQuestionBody;
+  signal?: AbortSignal;
+}
+
+export const formatQuestionResponse = (
+  question: JobQuestion
+): JobQuestionResponse => ({
+  answer: question.answer,
+  citations: question.citations,
+  completionTokens: question.completionTokens,
+  createdAt: question.createdAt.toISOString(),
+  id: question.id,
+  jobId: question.jobId,
+  llmModel: question.llmModel,
+  promptTokens: question.promptTokens,
+  question: question.question,
+});
+
+const getCompletedJob = async (
+  organizationId: string,
+  jobId: string
+): Promise<Job> => {
+  const job = await db.query.jobs.findFirst({
+    where: and(eq(jobs.id, jobId), eq(jobs.organizationId, organizationId)),
+  });
+
+  if (!job) {
+    throw new NotFoundError("Job not found");
+  }
+
+  if (job.status !== "completed") {
+    throw new BadRequestError(
+      "Questions can only be asked about completed jobs"
+    );
+  }
+
+  return job;
+};
+
+/** Pages holding the chunks closest in meaning to the question. */
+const rankPagesBySimilarity = async (
+  organizationId: string,
+  jobId: string,
+  question: string
+): Promise<number[]> => {
+  if (!embeddingService.model()) {
+    return [];
+  }
+
+  try {
+    const { data } = await SearchService.semanticSearch(organizationId, {
+      jobIds: [jobId],
+      limit: SEMANTIC_MATCHES,
+      query: question,
+    });
+    return [...new Set(data.map((match) => match.pageNumber))].slice(
+      0,
+      MAX_CONTEXT_PAGES
+    );
+  } catch {
+    // Jobs indexed before embeddings were enabled still have full-text search.
+    return [];
+  }
+};
+
+/**
+ * Pages matching any word of the question. Words are OR'd because a question
+ * rarely has all of its words on one page.
+ */
+const rankPagesByText = async (
+  jobId: string,
+  question: string
+): Promise<number[]> => {
+  const words = question.match(WORD_PATTERN) ?? [];
+  if (words.length === 0) {
+    return [];
+  }
+
+  const tsQuery = sql`to_tsquery('english', ${words.join(" | ")})`;
+  const rows = await db
+    .select({ pageNumber: jobPages.pageNumber })
+    .from(jobPages)
+    .where(
+      and(eq(jobPages.jobId, jobId), sql`${jobPageSearchVector} @@ ${tsQuery}`)
+    )
+    .orderBy(
+      desc(sql`ts_rank_cd(${jobPageSearchVector}, ${tsQuery})`),
+      asc(jobPages.pageNumber)
+    )
+    .limit(MAX_CONTEXT_PAGES);
+
+  return rows.map((row) => row.pageNumber);
+};
+
+/**
+ * Picks the pages the answer is based on. Short documents are sent whole;
+ * longer ones are narrowed down by semantic, then full-text search, falling
+ * back to the first pages. Re-extractions answer from their source job's
+ * pages, as they store none of their own.
+ */
+const retrievePages = async (
+  job: Job,
+  question: string
+): Promise<QuestionContextPage[]> => {
+  const pagesJobId = job.sourceJobId ?? job.id;
+  let pageNumbers: number[] = [];
+
+  if ((job.pageCount ?? 0) > MAX_CONTEXT_PAGES) {
+    pageNumbers = await rankPagesBySimilarity(
+      job.organizationId,
+      pagesJobId,
+      question
+    );
+    if (pageNumbers.length === 0) {
+      pageNumbers = await rankPagesByText(pagesJobId, question);
+    }
+  }
+
+  const pages = await db.query.jobPages.findMany({
+    columns: { markdown: true, pageNumber: true },
+    limit: MAX_CONTEXT_PAGES,
+    orderBy: asc(jobPages.pageNumber),
+    where:
+      pageNumbers.length > 0
+        ? and(
+            eq(jobPages.jobId, pagesJobId),
+            inArray(jobPages.pageNumber, pageNumbers)
+          )
+        : eq(jobPages.jobId, pagesJobId),
+  });
+
+  // Jobs processed before per-page results were stored only have markdown.
+  if (pages.length === 0 && job.markdownResult) {
+    pages.push({ markdown: job.markdownResult, pageNumber: 1 });
+  }
+
+  return pages.map((page) => ({
+    markdown: page.markdown.slice(0, MAX_PAGE_CHARS),
+    pageNumber: page.pageNumber,
+  }));
+};
+
+/** Cited pages in order of first mention, limited to pages the model saw. */
+const parseCitations = (
+  answer: string,
+  pages: QuestionContextPage[]
+): JobQuestion["citations"] => {
+  const available = new Set(pages.map((page) => page.pageNumber));
+  const cited = new Set<number>();
+
+  for (const match of answer.matchAll(CITATION_PATTERN)) {
+    const pageNumber = Number(match[1]);
+    if (available.has(pageNumber)) {
+      cited.add(pageNumber);
+    }
+  }
+
+  return [...cited].map((pageNumber) => ({ pageNumber }));
+};
+
+/**
+ * Answers a question about a completed job. The returned stream emits a
+ * `token` event per text delta, then `done` with the stored question, or
+ * `error` if the answer could not be generated.
+ */
+const ask = async ({
+  apiKeyId,
+  body,
+  jobId,
+  organizationId,
+  signal,
+  userId,
+}: AskOptions): Promise<ReadableStream<Uint8Array>> => {
+  const job = await getCompletedJob(organizationId, jobId);
+
+  // Answers and their context would outlive the one-time delivery.
+  if (job.retention === "none") {
+    throw new BadRequestError(
+      "Questions cannot be asked about zero-retention jobs"
+    );
+  }
+
+  const pages = await retrievePages(job, body.question);
+
+  if (pages.length === 0) {
+    throw new BadRequestError("Job has no parsed content to answer from");
+  }
+
+  const answerStream = llmService.answerQuestion({
+    abortSignal: signal,
+    pages,
+    provider: await resolveLlmProvider(organizationId),
+    question: body.question,
+  });
+  const encoder = new TextEncoder();
+
+  return new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: string, data: unknown) => {
+        try {
+          controller.enqueue(encoder.encode(formatSseEvent(event, data)));
+        } catch {
+          // Client disconnected
+        }
+      };
+
+      let answer = "";
+
+      try {
+        for await (const text of answerStream.textStream) {
+          answer += text;
+          send("token", { text });
+        }
+
+        const usage = await answerStream.usage();
+        const [saved] = await db
+          .insert(jobQuestions)
+          .values({
+            answer,
+            apiKeyId,
+            citations: parseCitations(answer, pages),
+            completionTokens: usage.completionTokens,
+            jobId,
+            llmModel: answerStream.model,
+            organizationId,
+            promptTokens: usage.promptTokens,
+            question: body.question,
+            userId,
+          })
+          .returning();
+
+        if (saved?.apiKeyId) {
+          await recordUsage({
+            apiKeyId: saved.apiKeyId,
+            at: saved.createdAt,
+            completionTokens: usage.completionTokens,
+            jobId,
+            model: answerStream.model,
+            pages: 0,
+            promptTokens: usage.promptTokens,
+            questionId: saved.id,
+          });
+        }
+
+        if (saved) {
+          send("done", formatQuestionResponse(saved));
+        }
+      } catch (error) {
+        send("error", {
+          message:
+            error instanceof Error
+              ? error.message
+              : "Failed to answer question",
+        });
+      } finally {
+        try {
+          controller.close();
+        } catch {
+          // Already closed
+        }
+      }
+    },
+  });
+};
+
+const list = async (
+  organizationId: string,
+  jobId: string
+): Promise<JobQuestion[]> => {
+  const job = await db.query.jobs.findFirst({
+    columns: { id: true },
+    where: and(eq(jobs.id, jobId), eq(jobs.organizationId, organizationId)),
+  });
+
+  if (!job) {
+    throw new NotFoundError("Job not found");
+  }
+
+  return db.query.jobQuestions.findMany({
+    orderBy: asc(jobQuestions.createdAt),
+    where: eq(jobQuestions.jobId, jobId),
+  });
+};
+
+export const QuestionService = {
+  ask,
+  list,
+};
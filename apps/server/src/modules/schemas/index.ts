@@ -1,3 +1,5 @@
+import type { ExtractionStrategy } from "@ocrbase/db/lib/enums";
+
 import { db } from "@ocrbase/db";
 import { jobs } from "@ocrbase/db/schema/jobs";
 import { eq } from "drizzle-orm";
@@ -19,6 +21,8 @@ const formatSchemaResponse = (schema: {
   name: string;
   description: string | null;
   jsonSchema: unknown;
+  defaultModel: string | null;
+  extractionStrategy: ExtractionStrategy;
   sampleJobId: string | null;
   generatedBy: string | null;
   usageCount: number;
@@ -27,7 +31,9 @@ const formatSchemaResponse = (schema: {
   updatedAt: Date;
 }) => ({
   createdAt: schema.createdAt.toISOString(),
+  defaultModel: schema.defaultModel,
   description: schema.description,
+  extractionStrategy: schema.extractionStrategy,
   generatedBy: schema.generatedBy,
   id: schema.id,
   jsonSchema: schema.jsonSchema as Record<string, unknown>,
@@ -65,7 +71,10 @@ export const schemasRoutes = new Elysia({ prefix: "/v1/schemas" })
 Define a JSON Schema that specifies the structure of data to extract from documents. Use this schema with the /extract endpoint.`,
         responses: {
           201: { description: "Schema created successfully" },
-          400: { description: "Bad Request - Invalid JSON schema" },
+          400: {
+            description:
+              "Bad Request - Invalid JSON schema or model not allowed",
+          },
           401: { description: "Unauthorized - Invalid or missing API key" },
           429: { description: "Too Many Requests - Rate limit exceeded" },
           500: { description: "Internal Server Error" },
@@ -166,10 +175,13 @@ Returns the full JSON schema definition and usage statistics.`,
       detail: {
         description: `Update an existing schema.
 
-Modify the name, description, or JSON schema definition. Changes apply to future extractions only.`,
+Modify the name, description, default model or JSON schema definition. Changes apply to future extractions only.`,
         responses: {
           200: { description: "Schema updated successfully" },
-          400: { description: "Bad Request - Invalid JSON schema" },
+          400: {
+            description:
+              "Bad Request - Invalid JSON schema or model not allowed",
+          },
           401: { description: "Unauthorized - Invalid or missing API key" },
           404: { description: "Not Found - Schema does not exist" },
           429: { description: "Too Many Requests - Rate limit exceeded" },
@@ -1,8 +1,26 @@
 import { t, type Static } from "elysia";
 
+const DefaultModel = t.String({
+  description:
+    "Extraction model for jobs using this schema that do not ask for one. Must be the provider's default model or on the organization's allowlist.",
+  examples: ["google/gemini-2.5-flash"],
+  maxLength: 200,
+  minLength: 1,
+});
+
+const ExtractionStrategy = t.Union(
+  [t.Literal("single"), t.Literal("chunked")],
+  {
+    description:
+      "`single` sends the whole document in one prompt. `chunked` extracts a few pages at a time and merges the results, for documents longer than the model's context window.",
+  }
+);
+
 export const SchemaModel = {
   createBody: t.Object({
+    defaultModel: t.Optional(DefaultModel),
     description: t.Optional(t.String({ maxLength: 1000 })),
+    extractionStrategy: t.Optional(ExtractionStrategy),
     jsonSchema: t.Record(t.String(), t.Unknown()),
     name: t.String({ maxLength: 255, minLength: 1 }),
   }),
@@ -26,7 +44,9 @@ export const SchemaModel = {
   listResponse: t.Array(
     t.Object({
       createdAt: t.String(),
+      defaultModel: t.Union([t.String(), t.Null()]),
       description: t.Union([t.String(), t.Null()]),
+      extractionStrategy: ExtractionStrategy,
       generatedBy: t.Union([t.String(), t.Null()]),
       id: t.String(),
       jsonSchema: t.Record(t.String(), t.Unknown()),
@@ -42,7 +62,9 @@ export const SchemaModel = {
 
   response: t.Object({
     createdAt: t.String(),
+    defaultModel: t.Union([t.String(), t.Null()]),
     description: t.Union([t.String(), t.Null()]),
+    extractionStrategy: ExtractionStrategy,
     generatedBy: t.Union([t.String(), t.Null()]),
     id: t.String(),
     jsonSchema: t.Record(t.String(), t.Unknown()),
@@ -56,7 +78,9 @@ export const SchemaModel = {
   }),
 
   updateBody: t.Object({
+    defaultModel: t.Optional(t.Union([DefaultModel, t.Null()])),
     description: t.Optional(t.Union([t.String({ maxLength: 1000 }), t.Null()])),
+    extractionStrategy: t.Optional(ExtractionStrategy),
     jsonSchema: t.Optional(t.Record(t.String(), t.Unknown())),
     name: t.Optional(t.String({ maxLength: 255, minLength: 1 })),
   }),
@@ -1,10 +1,14 @@
+import type { ExtractionStrategy } from "@ocrbase/db/lib/enums";
+
 import { db } from "@ocrbase/db";
 import { schemas } from "@ocrbase/db/schema/schemas";
 import { and, eq, sql } from "drizzle-orm";
 
 import type { CreateSchemaBody, UpdateSchemaBody } from "./model";
 
-import { llmService } from "../../services/llm";
+import { assertValidatableSchema } from "../../lib/json-schema";
+import { llmService, resolveLlmProvider } from "../../services/llm";
+import { SettingsService } from "../settings/service";
 
 export interface GeneratedSchemaResult {
   suggestedName: string;
@@ -19,10 +23,18 @@ const create = async (
   userId: string,
   data: CreateSchemaBody
 ) => {
+  assertValidatableSchema(data.jsonSchema);
+  const defaultModel = await SettingsService.resolveLlmModel(
+    organizationId,
+    data.defaultModel
+  );
+
   const [schema] = await db
     .insert(schemas)
     .values({
+      defaultModel,
       description: data.description,
+      extractionStrategy: data.extractionStrategy,
       jsonSchema: data.jsonSchema,
       name: data.name,
       organizationId,
@@ -73,8 +85,10 @@ const update = async (
   data: UpdateSchemaBody
 ) => {
   const updateData: Partial<{
+    defaultModel: string | null;
     name: string;
     description: string | null;
+    extractionStrategy: ExtractionStrategy;
     jsonSchema: Record<string, unknown>;
   }> = {};
 
@@ -84,9 +98,19 @@ const update = async (
   if (data.description !== undefined) {
     updateData.description = data.description;
   }
+  if (data.extractionStrategy !== undefined) {
+    updateData.extractionStrategy = data.extractionStrategy;
+  }
   if (data.jsonSchema !== undefined) {
+    assertValidatableSchema(data.jsonSchema);
     updateData.jsonSchema = data.jsonSchema;
   }
+  if (data.defaultModel !== undefined) {
+    updateData.defaultModel = await SettingsService.resolveLlmModel(
+      organizationId,
+      data.defaultModel
+    );
+  }
 
   const [schema] = await db
     .update(schemas)
@@ -123,7 +147,7 @@ const deleteSchema = async (
 };
 
 const generate = async (
-  _organizationId: string,
+  organizationId: string,
   _userId: string,
   markdown: string,
   hints?: string,
@@ -132,6 +156,7 @@ const generate = async (
   const result = await llmService.generateSchema({
     hints,
     markdown,
+    provider: await resolveLlmProvider(organizationId),
   });
 
   return {
@@ -0,0 +1,61 @@
+import { Elysia } from "elysia";
+
+import { requireAuth } from "../../plugins/auth";
+import { SearchModel } from "./model";
+import { SearchService } from "./service";
+
+export const searchRoutes = new Elysia({ prefix: "/v1/search" })
+  .use(requireAuth)
+  .get(
+    "/",
+    ({ organization, query, user }) => {
+      if (!user || !organization) {
+        throw new Error("Unauthorized");
+      }
+
+      return SearchService.search(organization.id, query);
+    },
+    {
+      detail: {
+        description: `Full-text search across the parsed pages of every job in the organization.
+
+Jobs are ranked by their most relevant page. Each hit lists up to three matching pages with a snippet in which matched words are wrapped in \`<mark></mark>\`. Words match regardless of case and ending, so \`invoices\` also finds \`invoice\`.`,
+        responses: {
+          200: { description: "Matching jobs, most relevant first" },
+          401: { description: "Unauthorized - Invalid or missing API key" },
+          429: { description: "Too Many Requests - Rate limit exceeded" },
+          500: { description: "Internal Server Error" },
+        },
+        tags: ["Search"],
+      },
+      query: SearchModel.query,
+    }
+  )
+  .post(
+    "/semantic",
+    ({ body, organization, user }) => {
+      if (!user || !organization) {
+        throw new Error("Unauthorized");
+      }
+
+      return SearchService.semanticSearch(organization.id, body);
+    },
+    {
+      body: SearchModel.semanticBody,
+      detail: {
+        description: `Find the passages closest in meaning to a query, for retrieval-augmented generation.
+
+Completed jobs are split into chunks along layout blocks or paragraphs, never across pages, and embedded when the server has an embedding provider configured. Results are ordered by cosine similarity. Limit the search to specific documents with \`jobIds\`.`,
+        responses: {
+          200: { description: "Closest chunks, most similar first" },
+          400: {
+            description: "Bad Request - Semantic search is not enabled",
+          },
+          401: { description: "Unauthorized - Invalid or missing API key" },
+          429: { description: "Too Many Requests - Rate limit exceeded" },
+          500: { description: "Internal Server Error" },
+        },
+        tags: ["Search"],
+      },
+    }
+  );
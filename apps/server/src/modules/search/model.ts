@@ -0,0 +1,104 @@
+import { t, type Static } from "elysia";
+
+const SearchMatch = t.Object({
+  pageNumber: t.Number(),
+  score: t.Number(),
+  snippet: t.String({
+    description:
+      "Excerpt of the page markdown with matched words wrapped in <mark></mark>",
+  }),
+});
+
+const SearchHit = t.Object({
+  createdAt: t.String(),
+  fileName: t.String(),
+  jobId: t.String(),
+  matches: t.Array(SearchMatch, {
+    description: "Best matching pages of the job, most relevant first",
+  }),
+  score: t.Number(),
+  status: t.String(),
+  type: t.Union([t.Literal("parse"), t.Literal("extract")]),
+});
+
+const SemanticMatch = t.Object({
+  chunkId: t.String(),
+  content: t.String({ description: "Text of the matching chunk" }),
+  fileName: t.String(),
+  jobId: t.String(),
+  pageNumber: t.Number(),
+  score: t.Number({
+    description: "Cosine similarity between the query and the chunk (-1 to 1)",
+  }),
+});
+
+export const SearchModel = {
+  query: t.Object({
+    limit: t.Optional(
+      t.Numeric({
+        default: 10,
+        description: "Number of jobs to return (1-50)",
+        examples: [10],
+        maximum: 50,
+        minimum: 1,
+      })
+    ),
+    offset: t.Optional(
+      t.Numeric({
+        default: 0,
+        description: "Number of jobs to skip",
+        examples: [0],
+        minimum: 0,
+      })
+    ),
+    q: t.String({
+      description:
+        'Search terms. Supports quoted phrases, OR and -negation, e.g. "purchase order" -draft.',
+      examples: ["invoice total"],
+      maxLength: 500,
+      minLength: 1,
+    }),
+  }),
+
+  response: t.Object({
+    data: t.Array(SearchHit),
+    hasMore: t.Boolean(),
+  }),
+
+  semanticBody: t.Object({
+    jobIds: t.Optional(
+      t.Array(t.String({ pattern: "^job_[a-zA-Z0-9_-]+$" }), {
+        description: "Only search chunks of these jobs",
+        maxItems: 100,
+        minItems: 1,
+      })
+    ),
+    limit: t.Optional(
+      t.Number({
+        default: 10,
+        description: "Number of chunks to return (1-50)",
+        maximum: 50,
+        minimum: 1,
+      })
+    ),
+    query: t.String({
+      description: "Natural language question or passage to match",
+      examples: ["What are the payment terms?"],
+      maxLength: 2000,
+      minLength: 1,
+    }),
+  }),
+
+  semanticResponse: t.Object({
+    data: t.Array(SemanticMatch),
+    model: t.String({ description: "Embedding model used for the query" }),
+  }),
+};
+
+export type SearchQuery = Static<typeof SearchModel.query>;
+export type SearchHit = Static<typeof SearchHit>;
+export type SearchResponse = Static<typeof SearchModel.response>;
+export type SemanticSearchBody = Static<typeof SearchModel.semanticBody>;
+export type SemanticSearchResponse = Static<
+  typeof SearchModel.semanticResponse
+>;
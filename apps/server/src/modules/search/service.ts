@@ -0,0 +1,188 @@
+import { db } from "@ocrbase/db";
+import { documentChunks } from "@ocrbase/db/schema/document-chunks";
+import { jobPageSearchVector, jobPages } from "@ocrbase/db/schema/job-pages";
+import { jobs } from "@ocrbase/db/schema/jobs";
+import {
+  and,
+  asc,
+  cosineDistance,
+  desc,
+  eq,
+  inArray,
+  lte,
+  ne,
+  sql,
+} from "drizzle-orm";
+
+import type {
+  SearchHit,
+  SearchQuery,
+  SearchResponse,
+  SemanticSearchBody,
+  SemanticSearchResponse,
+} from "./model";
+
+import { BadRequestError } from "../../lib/errors";
+import { embeddingService } from "../../services/embeddings";
+
+const DEFAULT_LIMIT = 10;
+const MATCHES_PER_JOB = 3;
+const HEADLINE_OPTIONS =
+  "StartSel=<mark>, StopSel=</mark>, MinWords=15, MaxWords=35, MaxFragments=2";
+
+/**
+ * Searches the page markdown of every job in the organization. Jobs are
+ * ranked by their best matching page and carry up to three page snippets.
+ * Zero-retention jobs are never searched.
+ */
+const search = async (
+  organizationId: string,
+  query: SearchQuery
+): Promise<SearchResponse> => {
+  const limit = query.limit ?? DEFAULT_LIMIT;
+  const offset = query.offset ?? 0;
+  const tsQuery = sql`websearch_to_tsquery('english', ${query.q})`;
+  const matchesQuery = sql`${jobPageSearchVector} @@ ${tsQuery}`;
+  const pageScore = sql<number>`ts_rank_cd(${jobPageSearchVector}, ${tsQuery})`;
+  const jobScore = sql<number>`max(${pageScore})`.mapWith(Number);
+
+  // One extra row tells whether more jobs match.
+  const rankedJobs = await db
+    .select({
+      createdAt: jobs.createdAt,
+      fileName: jobs.fileName,
+      jobId: jobs.id,
+      score: jobScore,
+      status: jobs.status,
+      type: jobs.type,
+    })
+    .from(jobPages)
+    .innerJoin(jobs, eq(jobs.id, jobPages.jobId))
+    .where(
+      and(
+        eq(jobs.organizationId, organizationId),
+        ne(jobs.retention, "none"),
+        matchesQuery
+      )
+    )
+    .groupBy(jobs.id)
+    .orderBy(desc(jobScore), desc(jobs.createdAt))
+    .limit(limit + 1)
+    .offset(offset);
+
+  const pageJobs = rankedJobs.slice(0, limit);
+
+  if (pageJobs.length === 0) {
+    return { data: [], hasMore: false };
+  }
+
+  const rankedPages = db
+    .select({
+      jobId: jobPages.jobId,
+      markdown: jobPages.markdown,
+      pageNumber: jobPages.pageNumber,
+      position:
+        sql<number>`row_number() over (partition by ${jobPages.jobId} order by ${pageScore} desc, ${jobPages.pageNumber})`.as(
+          "position"
+        ),
+      score: pageScore.as("score"),
+    })
+    .from(jobPages)
+    .where(
+      and(
+        inArray(
+          jobPages.jobId,
+          pageJobs.map((job) => job.jobId)
+        ),
+        matchesQuery
+      )
+    )
+    .as("ranked_pages");
+
+  // Headlines are costly, so they are only built for the pages returned.
+  const matches = await db
+    .select({
+      jobId: rankedPages.jobId,
+      pageNumber: rankedPages.pageNumber,
+      score: sql<number>`${rankedPages.score}`.mapWith(Number),
+      snippet: sql<string>`ts_headline('english', ${rankedPages.markdown}, ${tsQuery}, ${HEADLINE_OPTIONS})`,
+    })
+    .from(rankedPages)
+    .where(lte(rankedPages.position, MATCHES_PER_JOB))
+    .orderBy(asc(rankedPages.position));
+
+  const data = pageJobs.map(
+    (job): SearchHit => ({
+      createdAt: job.createdAt.toISOString(),
+      fileName: job.fileName,
+      jobId: job.jobId,
+      matches: matches
+        .filter((match) => match.jobId === job.jobId)
+        .map(({ pageNumber, score, snippet }) => ({
+          pageNumber,
+          score,
+          snippet,
+        })),
+      score: job.score,
+      status: job.status,
+      type: job.type,
+    })
+  );
+
+  return { data, hasMore: rankedJobs.length > limit };
+};
+
+/**
+ * Finds the chunks closest in meaning to the query. Only chunks embedded with
+ * the current model are compared, since vectors of different models differ.
+ */
+const semanticSearch = async (
+  organizationId: string,
+  body: SemanticSearchBody
+): Promise<SemanticSearchResponse> => {
+  const model = embeddingService.model();
+  if (!model) {
+    throw new BadRequestError("Semantic search is not enabled on this server");
+  }
+
+  const [queryEmbedding = []] = await embeddingService.embed([body.query]);
+  const distance = cosineDistance(documentChunks.embedding, queryEmbedding);
+
+  const conditions = [
+    eq(documentChunks.organizationId, organizationId),
+    eq(documentChunks.embeddingModel, model),
+    ne(jobs.retention, "none"),
+  ];
+
+  if (body.jobIds) {
+    conditions.push(inArray(documentChunks.jobId, body.jobIds));
+  }
+
+  const rows = await db
+    .select({
+      chunkId: documentChunks.id,
+      content: documentChunks.content,
+      distance: sql<number>`${distance}`.mapWith(Number),
+      fileName: jobs.fileName,
+      jobId: documentChunks.jobId,
+      pageNumber: documentChunks.pageNumber,
+    })
+    .from(documentChunks)
+    .innerJoin(jobs, eq(jobs.id, documentChunks.jobId))
+    .where(and(...conditions))
+    .orderBy(distance)
+    .limit(body.limit ?? DEFAULT_LIMIT);
+
+  return {
+    data: rows.map(({ distance: rowDistance, ...row }) => ({
+      ...row,
+      score: 1 - rowDistance,
+    })),
+    model,
+  };
+};
+
+export const SearchService = {
+  search,
+  semanticSearch,
+};
@@ -0,0 +1,92 @@
+import type { OrganizationSettings } from "@ocrbase/db/schema/organization-settings";
+
+import { Elysia } from "elysia";
+
+import type { SettingsResponse } from "./model";
+
+import { requireAuth } from "../../plugins/auth";
+import { isLlmProviderName } from "../../services/llm";
+import { isOcrEngineName } from "../../services/ocr";
+import { SettingsModel } from "./model";
+import { SettingsService } from "./service";
+
+const commonResponses = {
+  401: { description: "Unauthorized - Invalid or missing API key" },
+  429: { description: "Too Many Requests - Rate limit exceeded" },
+  500: { description: "Internal Server Error" },
+};
+
+const formatSettingsResponse = (
+  organizationId: string,
+  settings: OrganizationSettings | null
+): SettingsResponse => ({
+  allowedLlmModels: settings?.allowedLlmModels ?? null,
+  defaultLlmProvider: isLlmProviderName(settings?.defaultLlmProvider)
+    ? settings.defaultLlmProvider
+    : null,
+  defaultOcrEngine: isOcrEngineName(settings?.defaultOcrEngine)
+    ? settings.defaultOcrEngine
+    : null,
+  fileRetentionDays: settings?.fileRetentionDays ?? null,
+  organizationId,
+  resultRetentionDays: settings?.resultRetentionDays ?? null,
+  updatedAt: settings?.updatedAt.toISOString() ?? null,
+});
+
+export const settingsRoutes = new Elysia({ prefix: "/v1/settings" })
+  .use(requireAuth)
+  .get(
+    "/",
+    async ({ organization, user }) => {
+      if (!user || !organization) {
+        throw new Error("Unauthorized");
+      }
+
+      const settings = await SettingsService.get(organization.id);
+      return formatSettingsResponse(organization.id, settings);
+    },
+    {
+      detail: {
+        description: `Get the settings of the current organization.
+
+Organization settings provide defaults for jobs that do not override them per request, the extraction models jobs may choose from, and the retention policy for stored documents.`,
+        responses: {
+          200: { description: "Organization settings" },
+          ...commonResponses,
+        },
+        tags: ["Settings"],
+      },
+    }
+  )
+  .patch(
+    "/",
+    async ({ body, organization, user }) => {
+      if (!user || !organization) {
+        throw new Error("Unauthorized");
+      }
+
+      await SettingsService.assertCanManage(organization.id, user.id);
+      const settings = await SettingsService.update(organization.id, body);
+
+      return formatSettingsResponse(organization.id, settings);
+    },
+    {
+      body: SettingsModel.updateBody,
+      detail: {
+        description: `Update the settings of the current organization.
+
+Only organization owners and admins can change settings.
+
+Retention applies to jobs that have finished. Expired source files and results are deleted by an hourly background task; the job record and its usage are kept.`,
+        responses: {
+          200: { description: "Settings updated successfully" },
+          400: {
+            description: "Bad Request - Engine or LLM provider not configured",
+          },
+          403: { description: "Forbidden - Caller is not an admin" },
+          ...commonResponses,
+        },
+        tags: ["Settings"],
+      },
+    }
+  );
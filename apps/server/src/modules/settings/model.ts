@@ -0,0 +1,70 @@
+import { t, type Static } from "elysia";
+
+const OcrEngineName = t.Union([
+  t.Literal("paddleocr-vl"),
+  t.Literal("tesseract"),
+  t.Literal("openai-vision"),
+]);
+
+const LlmProviderName = t.Union([
+  t.Literal("openrouter"),
+  t.Literal("openai-compatible"),
+  t.Literal("anthropic"),
+]);
+
+const LlmModelId = t.String({ maxLength: 200, minLength: 1 });
+
+const RetentionDays = t.Integer({ maximum: 3650, minimum: 1 });
+
+export const SettingsModel = {
+  response: t.Object({
+    allowedLlmModels: t.Union([t.Array(t.String()), t.Null()]),
+    defaultLlmProvider: t.Union([LlmProviderName, t.Null()]),
+    defaultOcrEngine: t.Union([OcrEngineName, t.Null()]),
+    fileRetentionDays: t.Union([t.Number(), t.Null()]),
+    organizationId: t.String(),
+    resultRetentionDays: t.Union([t.Number(), t.Null()]),
+    updatedAt: t.Union([t.String(), t.Null()]),
+  }),
+
+  updateBody: t.Object({
+    allowedLlmModels: t.Optional(
+      t.Union([t.Array(LlmModelId, { maxItems: 50 }), t.Null()], {
+        description:
+          "Extraction models that requests and schemas may choose, in addition to the provider's default model. Set to null to allow only the default.",
+        examples: [["openai/gpt-4.1-mini", "anthropic/claude-sonnet-4.5"]],
+      })
+    ),
+    defaultLlmProvider: t.Optional(
+      t.Union([LlmProviderName, t.Null()], {
+        description:
+          "LLM provider used for extraction, schema generation and questions. Set to null to fall back to the server default.",
+        examples: ["openrouter"],
+      })
+    ),
+    defaultOcrEngine: t.Optional(
+      t.Union([OcrEngineName, t.Null()], {
+        description:
+          "OCR engine used when a request does not specify one. Set to null to fall back to the server default.",
+        examples: ["paddleocr-vl"],
+      })
+    ),
+    fileRetentionDays: t.Optional(
+      t.Union([RetentionDays, t.Null()], {
+        description:
+          "Delete uploaded source files this many days after the job was created. Set to null to keep them.",
+        examples: [30],
+      })
+    ),
+    resultRetentionDays: t.Optional(
+      t.Union([RetentionDays, t.Null()], {
+        description:
+          "Delete markdown, extracted JSON and page results this many days after the job was created. Set to null to keep them.",
+        examples: [90],
+      })
+    ),
+  }),
+};
+
+export type SettingsResponse = Static<typeof SettingsModel.response>;
+export type UpdateSettingsBody = Static<typeof SettingsModel.updateBody>;
@@ -0,0 +1,184 @@
+import { db } from "@ocrbase/db";
+import { member } from "@ocrbase/db/schema/auth";
+import {
+  organizationSettings,
+  type OrganizationSettings,
+} from "@ocrbase/db/schema/organization-settings";
+import { and, eq } from "drizzle-orm";
+
+import type { UpdateSettingsBody } from "./model";
+
+import { BadRequestError, ForbiddenError } from "../../lib/errors";
+import {
+  getLlmProvider,
+  type LlmProvider,
+  type LlmProviderName,
+  resolveLlmProvider,
+} from "../../services/llm";
+import {
+  DEFAULT_OCR_ENGINE,
+  getOcrEngine,
+  isOcrEngineName,
+  type OcrEngineName,
+} from "../../services/ocr";
+
+const ADMIN_ROLES = new Set(["owner", "admin"]);
+
+export interface LlmModelOptions {
+  provider: LlmProvider;
+  /** The provider's default model first, then the organization's allowlist. */
+  models: string[];
+}
+
+const get = async (
+  organizationId: string
+): Promise<OrganizationSettings | null> => {
+  const settings = await db.query.organizationSettings.findFirst({
+    where: eq(organizationSettings.organizationId, organizationId),
+  });
+
+  return settings ?? null;
+};
+
+const assertCanManage = async (
+  organizationId: string,
+  userId: string
+): Promise<void> => {
+  const [membership] = await db
+    .select({ role: member.role })
+    .from(member)
+    .where(
+      and(eq(member.organizationId, organizationId), eq(member.userId, userId))
+    )
+    .limit(1);
+
+  // Roles can be comma-separated when a member holds several.
+  const roles = membership?.role.split(",").map((role) => role.trim()) ?? [];
+
+  if (!roles.some((role) => ADMIN_ROLES.has(role))) {
+    throw new ForbiddenError(
+      "Only organization owners and admins can change settings"
+    );
+  }
+};
+
+const assertEngineConfigured = (engine: OcrEngineName): void => {
+  if (!getOcrEngine(engine).isConfigured()) {
+    throw new BadRequestError(`OCR engine "${engine}" is not configured`);
+  }
+};
+
+const assertLlmProviderConfigured = (provider: LlmProviderName): void => {
+  if (!getLlmProvider(provider).isConfigured()) {
+    throw new BadRequestError(`LLM provider "${provider}" is not configured`);
+  }
+};
+
+const update = async (
+  organizationId: string,
+  data: UpdateSettingsBody
+): Promise<OrganizationSettings> => {
+  if (data.defaultOcrEngine) {
+    assertEngineConfigured(data.defaultOcrEngine);
+  }
+
+  if (data.defaultLlmProvider) {
+    assertLlmProviderConfigured(data.defaultLlmProvider);
+  }
+
+  const [settings] = await db
+    .insert(organizationSettings)
+    .values({ organizationId, ...data })
+    .onConflictDoUpdate({
+      set: data,
+      target: organizationSettings.organizationId,
+    })
+    .returning();
+
+  if (!settings) {
+    throw new Error("Failed to update organization settings");
+  }
+
+  return settings;
+};
+
+/**
+ * Picks the OCR engine for a new job: the request's choice wins, then the
+ * organization default, then the server-wide default.
+ */
+const resolveOcrEngine = async (
+  organizationId: string,
+  requested?: string
+): Promise<OcrEngineName> => {
+  if (requested !== undefined && !isOcrEngineName(requested)) {
+    throw new BadRequestError(`Unknown OCR engine "${requested}"`);
+  }
+
+  let engine = requested;
+
+  if (!engine) {
+    const settings = await get(organizationId);
+    engine = isOcrEngineName(settings?.defaultOcrEngine)
+      ? settings.defaultOcrEngine
+      : DEFAULT_OCR_ENGINE;
+  }
+
+  assertEngineConfigured(engine);
+  return engine;
+};
+
+/** Lists the extraction models jobs of an organization may use. */
+const listLlmModels = async (
+  organizationId: string
+): Promise<LlmModelOptions> => {
+  const [provider, settings] = await Promise.all([
+    resolveLlmProvider(organizationId),
+    get(organizationId),
+  ]);
+
+  const models = new Set(
+    [provider.defaultModel, ...(settings?.allowedLlmModels ?? [])].filter(
+      Boolean
+    )
+  );
+
+  return { models: [...models], provider };
+};
+
+const assertLlmModelAllowed = async (
+  organizationId: string,
+  model: string
+): Promise<void> => {
+  const { models } = await listLlmModels(organizationId);
+
+  if (!models.includes(model)) {
+    throw new BadRequestError(
+      `Model "${model}" is not allowed for this organization`
+    );
+  }
+};
+
+/**
+ * Validates the extraction model a request asks for. Null leaves the choice
+ * to the schema default, then the provider default, when the job runs.
+ */
+const resolveLlmModel = async (
+  organizationId: string,
+  requested?: string | null
+): Promise<string | null> => {
+  if (!requested) {
+    return null;
+  }
+
+  await assertLlmModelAllowed(organizationId, requested);
+  return requested;
+};
+
+export const SettingsService = {
+  assertCanManage,
+  get,
+  listLlmModels,
+  resolveLlmModel,
+  resolveOcrEngine,
+  update,
+};
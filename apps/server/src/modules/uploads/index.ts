@@ -1,7 +1,9 @@
 import { Elysia, t } from "elysia";
 
+import { withIdempotency } from "../../lib/idempotency";
 import { FileConstraints } from "../../lib/openapi";
 import { requireAuth } from "../../plugins/auth";
+import { JobModel } from "../jobs/model";
 import { JobService } from "../jobs/service";
 import { formatJobResponse } from "../jobs/shared";
 
@@ -9,28 +11,56 @@ export const uploadsRoutes = new Elysia({ prefix: "/v1/uploads" })
   .use(requireAuth)
   .post(
     "/presign",
-    async ({ body, organization, set, user }) => {
+    (ctx) => {
+      const { apiKey, body, organization, set, user } = ctx;
       if (!user || !organization) {
         set.status = 401;
         return { message: "Unauthorized" };
       }
 
-      const { job, uploadUrl } = await JobService.createForPresignedUpload({
-        fileName: body.fileName,
-        fileSize: body.fileSize,
-        hints: body.hints,
-        mimeType: body.mimeType,
-        organizationId: organization.id,
-        schemaId: body.schemaId,
-        type: body.type,
-        userId: user.id,
-      });
+      return withIdempotency(
+        ctx,
+        async () => {
+          const { job, uploadUrl } = await JobService.createForPresignedUpload({
+            apiKeyId: apiKey?.id,
+            cache: body.cache,
+            citations: body.citations,
+            engine: body.engine,
+            fileName: body.fileName,
+            fileSize: body.fileSize,
+            hints: body.hints,
+            mimeType: body.mimeType,
+            model: body.model,
+            organizationId: organization.id,
+            pages: body.pages,
+            retention: body.retention,
+            schemaId: body.schemaId,
+            type: body.type,
+            userId: user.id,
+          });
 
-      set.status = 200;
-      return { jobId: job.id, uploadUrl };
+          set.status = 200;
+          return { jobId: job.id, uploadUrl };
+        },
+        {
+          // The stored URL may have expired by the time the request is retried.
+          onReplay: async (response) => ({
+            ...response,
+            uploadUrl:
+              (await JobService.refreshUploadUrl(
+                organization.id,
+                user.id,
+                response.jobId
+              )) ?? response.uploadUrl,
+          }),
+        }
+      );
     },
     {
       body: t.Object({
+        cache: t.Optional(JobModel.CacheMode),
+        citations: t.Optional(JobModel.Citations),
+        engine: t.Optional(JobModel.OcrEngine),
         fileName: t.String({ minLength: 1 }),
         fileSize: t.Number({
           maximum: FileConstraints.maxSizeBytes,
@@ -44,12 +74,15 @@ export const uploadsRoutes = new Elysia({ prefix: "/v1/uploads" })
           t.Literal("image/webp"),
           t.Literal("image/tiff"),
         ]),
+        model: t.Optional(JobModel.LlmModel),
+        pages: t.Optional(JobModel.PageRange),
+        retention: t.Optional(JobModel.Retention),
         schemaId: t.Optional(t.String()),
         type: t.Union([t.Literal("parse"), t.Literal("extract")]),
       }),
       detail: {
         description:
-          "Get a presigned URL for direct-to-S3 file upload. After uploading the file, call POST /v1/uploads/{jobId}/complete to start processing.",
+          "Get a presigned URL for direct-to-S3 file upload. After uploading the file, call POST /v1/uploads/{jobId}/complete to start processing. Send an `Idempotency-Key` header to make retries safe.",
         tags: ["Uploads"],
       },
     }
@@ -0,0 +1,295 @@
+import type {
+  WebhookDelivery,
+  WebhookEndpoint,
+} from "@ocrbase/db/schema/webhooks";
+
+import { Elysia, t } from "elysia";
+
+import type { WebhookDeliveryResponse, WebhookResponse } from "./model";
+
+import { BadRequestError, NotFoundError } from "../../lib/errors";
+import { IdPatterns } from "../../lib/openapi";
+import { requireAuth } from "../../plugins/auth";
+import { WebhookModel } from "./model";
+import { WebhookService } from "./service";
+
+const commonResponses = {
+  401: { description: "Unauthorized - Invalid or missing API key" },
+  429: { description: "Too Many Requests - Rate limit exceeded" },
+  500: { description: "Internal Server Error" },
+};
+
+const webhookIdParams = t.Object({
+  id: t.String({
+    description: "Webhook endpoint ID",
+    examples: ["wh_abc123xyz"],
+    pattern: IdPatterns.webhook,
+  }),
+});
+
+const formatWebhookResponse = (endpoint: WebhookEndpoint): WebhookResponse => ({
+  createdAt: endpoint.createdAt.toISOString(),
+  description: endpoint.description,
+  events: endpoint.events,
+  id: endpoint.id,
+  isActive: endpoint.isActive,
+  updatedAt: endpoint.updatedAt.toISOString(),
+  url: endpoint.url,
+});
+
+const formatDeliveryResponse = (
+  delivery: WebhookDelivery
+): WebhookDeliveryResponse => ({
+  attempts: delivery.attempts,
+  createdAt: delivery.createdAt.toISOString(),
+  deliveredAt: delivery.deliveredAt?.toISOString() ?? null,
+  endpointId: delivery.endpointId,
+  errorMessage: delivery.errorMessage,
+  event: delivery.event,
+  id: delivery.id,
+  jobId: delivery.jobId,
+  lastAttemptAt: delivery.lastAttemptAt?.toISOString() ?? null,
+  payload: delivery.payload,
+  responseBody: delivery.responseBody,
+  responseStatus: delivery.responseStatus,
+  status: delivery.status,
+});
+
+export const webhooksRoutes = new Elysia({ prefix: "/v1/webhooks" })
+  .use(requireAuth)
+  .post(
+    "/",
+    async ({ body, organization, set, user }) => {
+      if (!user || !organization) {
+        throw new Error("Unauthorized");
+      }
+
+      const endpoint = await WebhookService.create(organization.id, body);
+
+      set.status = 201;
+      return { ...formatWebhookResponse(endpoint), secret: endpoint.secret };
+    },
+    {
+      body: WebhookModel.createBody,
+      detail: {
+        description: `Register a URL that receives job events.
+
+The signing secret is only returned once at creation time. Every delivery carries an \`X-Ocrbase-Signature: t=<unix seconds>,v1=<hex>\` header, where \`v1\` is the HMAC-SHA256 of \`<t>.<raw body>\` keyed with the secret.`,
+        responses: {
+          201: {
+            description: "Webhook created (includes secret, only shown once)",
+          },
+          400: { description: "Bad Request - Invalid URL" },
+          ...commonResponses,
+        },
+        tags: ["Webhooks"],
+      },
+    }
+  )
+  .get(
+    "/",
+    async ({ organization, user }) => {
+      if (!user || !organization) {
+        throw new Error("Unauthorized");
+      }
+
+      const endpoints = await WebhookService.list(organization.id);
+      return endpoints.map(formatWebhookResponse);
+    },
+    {
+      detail: {
+        description: "List the webhook endpoints of the current organization.",
+        responses: {
+          200: { description: "List of webhook endpoints" },
+          ...commonResponses,
+        },
+        tags: ["Webhooks"],
+      },
+    }
+  )
+  .get(
+    "/:id",
+    async ({ organization, params, user }) => {
+      if (!user || !organization) {
+        throw new Error("Unauthorized");
+      }
+
+      const endpoint = await WebhookService.getById(params.id, organization.id);
+
+      if (!endpoint) {
+        throw new NotFoundError("Webhook not found");
+      }
+
+      return formatWebhookResponse(endpoint);
+    },
+    {
+      detail: {
+        description: "Get a webhook endpoint by ID.",
+        responses: {
+          200: { description: "Webhook endpoint" },
+          404: { description: "Not Found - Webhook does not exist" },
+          ...commonResponses,
+        },
+        tags: ["Webhooks"],
+      },
+      params: webhookIdParams,
+    }
+  )
+  .patch(
+    "/:id",
+    async ({ body, organization, params, user }) => {
+      if (!user || !organization) {
+        throw new Error("Unauthorized");
+      }
+
+      const endpoint = await WebhookService.update(
+        params.id,
+        organization.id,
+        body
+      );
+
+      if (!endpoint) {
+        throw new NotFoundError("Webhook not found");
+      }
+
+      return formatWebhookResponse(endpoint);
+    },
+    {
+      body: WebhookModel.updateBody,
+      detail: {
+        description: `Update a webhook endpoint.
+
+Set \`isActive\` to false to pause deliveries without losing the delivery log.`,
+        responses: {
+          200: { description: "Webhook updated successfully" },
+          400: { description: "Bad Request - Invalid URL" },
+          404: { description: "Not Found - Webhook does not exist" },
+          ...commonResponses,
+        },
+        tags: ["Webhooks"],
+      },
+      params: webhookIdParams,
+    }
+  )
+  .delete(
+    "/:id",
+    async ({ organization, params, user }) => {
+      if (!user || !organization) {
+        throw new Error("Unauthorized");
+      }
+
+      const deleted = await WebhookService.delete(params.id, organization.id);
+
+      if (!deleted) {
+        throw new NotFoundError("Webhook not found");
+      }
+
+      return { success: true };
+    },
+    {
+      detail: {
+        description: `Delete a webhook endpoint and its delivery log.
+
+Queued deliveries to the endpoint are dropped.`,
+        responses: {
+          200: { description: "Webhook deleted successfully" },
+          404: { description: "Not Found - Webhook does not exist" },
+          ...commonResponses,
+        },
+        tags: ["Webhooks"],
+      },
+      params: webhookIdParams,
+    }
+  )
+  .get(
+    "/:id/deliveries",
+    async ({ organization, params, query, user }) => {
+      if (!user || !organization) {
+        throw new Error("Unauthorized");
+      }
+
+      const endpoint = await WebhookService.getById(params.id, organization.id);
+
+      if (!endpoint) {
+        throw new NotFoundError("Webhook not found");
+      }
+
+      const deliveries = await WebhookService.listDeliveries(
+        endpoint.id,
+        query.limit ?? 20
+      );
+      return deliveries.map(formatDeliveryResponse);
+    },
+    {
+      detail: {
+        description: `List recent deliveries to a webhook endpoint, newest first.
+
+Each delivery records its payload, attempt count and the last response from the endpoint.`,
+        responses: {
+          200: { description: "List of webhook deliveries" },
+          404: { description: "Not Found - Webhook does not exist" },
+          ...commonResponses,
+        },
+        tags: ["Webhooks"],
+      },
+      params: webhookIdParams,
+      query: WebhookModel.deliveryListQuery,
+    }
+  )
+  .post(
+    "/:id/deliveries/:deliveryId/redeliver",
+    async ({ organization, params, user }) => {
+      if (!user || !organization) {
+        throw new Error("Unauthorized");
+      }
+
+      const endpoint = await WebhookService.getById(params.id, organization.id);
+
+      if (!endpoint) {
+        throw new NotFoundError("Webhook not found");
+      }
+
+      if (!endpoint.isActive) {
+        throw new BadRequestError("Webhook endpoint is disabled");
+      }
+
+      const delivery = await WebhookService.redeliver(
+        endpoint.id,
+        params.deliveryId
+      );
+
+      if (!delivery) {
+        throw new NotFoundError("Webhook delivery not found");
+      }
+
+      return formatDeliveryResponse(delivery);
+    },
+    {
+      detail: {
+        description: `Send a stored delivery again with its original payload.
+
+The delivery goes back to \`pending\` and is retried with backoff like a new one.`,
+        responses: {
+          200: { description: "Delivery queued" },
+          400: { description: "Bad Request - Webhook is disabled" },
+          404: {
+            description: "Not Found - Webhook or delivery does not exist",
+          },
+          ...commonResponses,
+        },
+        tags: ["Webhooks"],
+      },
+      params: t.Object({
+        deliveryId: t.String({
+          description: "Webhook delivery ID",
+          examples: ["whd_abc123xyz"],
+          pattern: IdPatterns.webhookDelivery,
+        }),
+        id: t.String({
+          description: "Webhook endpoint ID",
+          examples: ["wh_abc123xyz"],
+          pattern: IdPatterns.webhook,
+        }),
+      }),
+    }
+  );
@@ -0,0 +1,87 @@
+import { t, type Static } from "elysia";
+
+const WebhookEvent = t.Union([
+  t.Literal("job.completed"),
+  t.Literal("job.failed"),
+]);
+
+const WebhookDeliveryStatus = t.Union([
+  t.Literal("pending"),
+  t.Literal("succeeded"),
+  t.Literal("failed"),
+]);
+
+const endpointFields = {
+  createdAt: t.String(),
+  description: t.Union([t.String(), t.Null()]),
+  events: t.Array(WebhookEvent),
+  id: t.String(),
+  isActive: t.Boolean(),
+  updatedAt: t.String(),
+  url: t.String(),
+};
+
+export const WebhookModel = {
+  createBody: t.Object({
+    description: t.Optional(t.String({ maxLength: 200 })),
+    events: t.Optional(
+      t.Array(WebhookEvent, {
+        description:
+          "Events delivered to this endpoint. Defaults to every event.",
+        examples: [["job.completed", "job.failed"]],
+        minItems: 1,
+        uniqueItems: true,
+      })
+    ),
+    url: t.String({
+      description: "HTTPS or HTTP URL that receives POST requests",
+      examples: ["https://example.com/webhooks/ocrbase"],
+      format: "uri",
+      maxLength: 2048,
+    }),
+  }),
+
+  createResponse: t.Object({
+    ...endpointFields,
+    secret: t.String(),
+  }),
+
+  deliveryListQuery: t.Object({
+    limit: t.Optional(t.Number({ default: 20, maximum: 100, minimum: 1 })),
+  }),
+
+  deliveryResponse: t.Object({
+    attempts: t.Number(),
+    createdAt: t.String(),
+    deliveredAt: t.Union([t.String(), t.Null()]),
+    endpointId: t.String(),
+    errorMessage: t.Union([t.String(), t.Null()]),
+    event: WebhookEvent,
+    id: t.String(),
+    jobId: t.Union([t.String(), t.Null()]),
+    lastAttemptAt: t.Union([t.String(), t.Null()]),
+    payload: t.Unknown(),
+    responseBody: t.Union([t.String(), t.Null()]),
+    responseStatus: t.Union([t.Number(), t.Null()]),
+    status: WebhookDeliveryStatus,
+  }),
+
+  response: t.Object(endpointFields),
+
+  updateBody: t.Object({
+    description: t.Optional(t.Union([t.String({ maxLength: 200 }), t.Null()])),
+    events: t.Optional(
+      t.Array(WebhookEvent, { minItems: 1, uniqueItems: true })
+    ),
+    isActive: t.Optional(t.Boolean()),
+    url: t.Optional(t.String({ format: "uri", maxLength: 2048 })),
+  }),
+};
+
+export type CreateWebhookBody = Static<typeof WebhookModel.createBody>;
+export type UpdateWebhookBody = Static<typeof WebhookModel.updateBody>;
+export type WebhookResponse = Static<typeof WebhookModel.response>;
+export type CreateWebhookResponse = Static<typeof WebhookModel.createResponse>;
+export type WebhookDeliveryResponse = Static<
+  typeof WebhookModel.deliveryResponse
+>;
@@ -0,0 +1,149 @@
+import { db } from "@ocrbase/db";
+import { webhookEventEnum } from "@ocrbase/db/lib/enums";
+import {
+  webhookDeliveries,
+  webhookEndpoints,
+  type WebhookDelivery,
+  type WebhookEndpoint,
+} from "@ocrbase/db/schema/webhooks";
+import { and, desc, eq } from "drizzle-orm";
+
+import type { CreateWebhookBody, UpdateWebhookBody } from "./model";
+
+import { assertDeliverableUrl } from "../../lib/delivery-url";
+import { addWebhookDelivery } from "../../services/queue";
+import { generateWebhookSecret } from "../../services/webhooks";
+
+const create = async (
+  organizationId: string,
+  data: CreateWebhookBody
+): Promise<WebhookEndpoint> => {
+  await assertDeliverableUrl(data.url);
+
+  const [endpoint] = await db
+    .insert(webhookEndpoints)
+    .values({
+      description: data.description ?? null,
+      events: data.events ?? [...webhookEventEnum.enumValues],
+      organizationId,
+      secret: generateWebhookSecret(),
+      url: data.url,
+    })
+    .returning();
+
+  if (!endpoint) {
+    throw new Error("Failed to create webhook endpoint");
+  }
+
+  return endpoint;
+};
+
+const list = (organizationId: string): Promise<WebhookEndpoint[]> =>
+  db
+    .select()
+    .from(webhookEndpoints)
+    .where(eq(webhookEndpoints.organizationId, organizationId))
+    .orderBy(desc(webhookEndpoints.createdAt));
+
+const getById = async (
+  id: string,
+  organizationId: string
+): Promise<WebhookEndpoint | null> => {
+  const [endpoint] = await db
+    .select()
+    .from(webhookEndpoints)
+    .where(
+      and(
+        eq(webhookEndpoints.id, id),
+        eq(webhookEndpoints.organizationId, organizationId)
+      )
+    )
+    .limit(1);
+
+  return endpoint ?? null;
+};
+
+const update = async (
+  id: string,
+  organizationId: string,
+  data: UpdateWebhookBody
+): Promise<WebhookEndpoint | null> => {
+  if (data.url) {
+    await assertDeliverableUrl(data.url);
+  }
+
+  const [endpoint] = await db
+    .update(webhookEndpoints)
+    .set(data)
+    .where(
+      and(
+        eq(webhookEndpoints.id, id),
+        eq(webhookEndpoints.organizationId, organizationId)
+      )
+    )
+    .returning();
+
+  return endpoint ?? null;
+};
+
+const remove = async (id: string, organizationId: string): Promise<boolean> => {
+  const result = await db
+    .delete(webhookEndpoints)
+    .where(
+      and(
+        eq(webhookEndpoints.id, id),
+        eq(webhookEndpoints.organizationId, organizationId)
+      )
+    )
+    .returning({ id: webhookEndpoints.id });
+
+  return result.length > 0;
+};
+
+const listDeliveries = (
+  endpointId: string,
+  limit: number
+): Promise<WebhookDelivery[]> =>
+  db
+    .select()
+    .from(webhookDeliveries)
+    .where(eq(webhookDeliveries.endpointId, endpointId))
+    .orderBy(desc(webhookDeliveries.createdAt))
+    .limit(limit);
+
+/**
+ * Queues a stored delivery again with its original payload, whatever the
+ * outcome of earlier attempts.
+ */
+const redeliver = async (
+  endpointId: string,
+  deliveryId: string
+): Promise<WebhookDelivery | null> => {
+  const [delivery] = await db
+    .update(webhookDeliveries)
+    .set({ deliveredAt: null, status: "pending" })
+    .where(
+      and(
+        eq(webhookDeliveries.id, deliveryId),
+        eq(webhookDeliveries.endpointId, endpointId)
+      )
+    )
+    .returning();
+
+  if (!delivery) {
+    return null;
+  }
+
+  await addWebhookDelivery({ deliveryId }, { redelivery: true });
+  return delivery;
+};
+
+export const WebhookService = {
+  create,
+  delete: remove,
+  getById,
+  list,
+  listDeliveries,
+  redeliver,
+  update,
+};
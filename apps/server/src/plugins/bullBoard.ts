@@ -4,7 +4,7 @@ import { ElysiaAdapter } from "@bull-board/elysia";
 import { auth } from "@ocrbase/auth";
 import { Elysia } from "elysia";
 
-import { getQueue } from "../services/queue";
+import { getQueue, getWebhookDeliveryQueue } from "../services/queue";
 
 const BOARD_BASE_PATH = "/admin/queues";
 
@@ -29,6 +29,7 @@ export const bullBoardPlugin = new Elysia({ name: "bull-board" })
     if (!queue) {
       return new Elysia();
     }
+    const webhookQueue = getWebhookDeliveryQueue();
 
     const serverAdapter = new ElysiaAdapter(BOARD_BASE_PATH);
 
@@ -36,7 +37,10 @@ export const bullBoardPlugin = new Elysia({ name: "bull-board" })
       options: {
         uiBasePath: BULL_BOARD_UI_PATH,
       },
-      queues: [new BullMQAdapter(queue)],
+      queues: [
+        new BullMQAdapter(queue),
+        ...(webhookQueue ? [new BullMQAdapter(webhookQueue)] : []),
+      ],
       serverAdapter,
     });
 
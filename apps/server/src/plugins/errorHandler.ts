@@ -9,6 +9,7 @@ interface ErrorResponse {
 
 const ERROR_CODE_MAP: Record<string, number> = {
   BAD_REQUEST: 400,
+  CONFLICT: 409,
   FORBIDDEN: 403,
   INTERNAL_SERVER_ERROR: 500,
   NOT_FOUND: 404,
@@ -0,0 +1,117 @@
+import type {
+  ExtractionChunkUsage,
+  ExtractionFieldMeta,
+  ExtractionUsage,
+  ExtractionValidationError,
+} from "@ocrbase/db/schema/jobs";
+
+import { env } from "@ocrbase/env/server";
+
+import type { CitablePage } from "./extraction-meta";
+
+import { validateJsonSchema } from "../lib/json-schema";
+import {
+  type ChunkResult,
+  mergeChunkResults,
+  toChunks,
+} from "./extraction-chunks";
+import {
+  type LlmProvider,
+  type LlmProviderName,
+  type LlmUsage,
+  llmService,
+} from "./llm";
+import { PAGE_SEPARATOR } from "./ocr";
+
+/** What an extraction produced, however many LLM calls it took. */
+export interface ExtractionOutcome {
+  data: Record<string, unknown>;
+  /** Null when the values could not be cited. */
+  fields: ExtractionFieldMeta[] | null;
+  model: string;
+  provider: LlmProviderName;
+  usage: ExtractionUsage;
+  validationErrors: ExtractionValidationError[] | null;
+}
+
+export type CiteExtraction = (
+  data: Record<string, unknown>,
+  pages: CitablePage[],
+  model: string
+) => Promise<{ fields: ExtractionFieldMeta[] | null; usage: LlmUsage }>;
+
+interface ExtractInChunksOptions {
+  /** Scores and cites one chunk's result; its confidences settle conflicts. */
+  cite: CiteExtraction;
+  /** Runs before each chunk, e.g. to stop a cancelled job. */
+  beforeChunk?: () => Promise<void>;
+  hints?: string;
+  model?: string;
+  pages: CitablePage[];
+  provider: LlmProvider;
+  schema: Record<string, unknown>;
+}
+
+const sumUsage = (chunks: ExtractionChunkUsage[]): ExtractionUsage => ({
+  chunks,
+  completionTokens: chunks.reduce(
+    (sum, chunk) => sum + chunk.completionTokens,
+    0
+  ),
+  promptTokens: chunks.reduce((sum, chunk) => sum + chunk.promptTokens, 0),
+});
+
+/**
+ * Extracts a long document a chunk of pages at a time and merges the
+ * results, so no single prompt outgrows the model's context window.
+ */
+export const extractInChunks = async ({
+  beforeChunk,
+  cite,
+  hints,
+  model,
+  pages,
+  provider,
+  schema,
+}: ExtractInChunksOptions): Promise<ExtractionOutcome> => {
+  const chunkUsage: ExtractionChunkUsage[] = [];
+  const results: ChunkResult[] = [];
+  let modelId = model ?? provider.defaultModel;
+
+  // Chunks run one after another to keep load on the provider bounded.
+  for (const chunk of toChunks(pages, env.EXTRACTION_CHUNK_CHARS)) {
+    await beforeChunk?.();
+
+    const result = await llmService.processExtraction({
+      chunk: { firstPage: chunk.firstPage, lastPage: chunk.lastPage },
+      hints,
+      markdown: chunk.pages.map((page) => page.markdown).join(PAGE_SEPARATOR),
+      model,
+      provider,
+      schema,
+    });
+    const meta = await cite(result.data, chunk.pages, result.model);
+
+    results.push({ data: result.data, fields: meta.fields });
+    modelId = result.model;
+
+    chunkUsage.push({
+      completionTokens:
+        result.usage.completionTokens + meta.usage.completionTokens,
+      firstPage: chunk.firstPage,
+      lastPage: chunk.lastPage,
+      promptTokens: result.usage.promptTokens + meta.usage.promptTokens,
+    });
+  }
+
+  const { data, fields } = mergeChunkResults(results);
+
+  return {
+    data,
+    fields,
+    model: modelId,
+    provider: provider.name,
+    usage: sumUsage(chunkUsage),
+    validationErrors: validateJsonSchema(schema, data),
+  };
+};
@@ -0,0 +1,124 @@
+import type { JobPage } from "@ocrbase/db/schema/job-pages";
+
+import { db } from "@ocrbase/db";
+import { documentChunks } from "@ocrbase/db/schema/document-chunks";
+import { jobPages } from "@ocrbase/db/schema/job-pages";
+import { asc, eq } from "drizzle-orm";
+
+import { embeddingService } from "./embeddings";
+
+const MAX_CHUNK_CHARS = 2000;
+// Texts per embedding request, well below provider input and token limits.
+const EMBED_BATCH_SIZE = 100;
+const PARAGRAPH_SEPARATOR = /\n{2,}/;
+
+export interface DocumentChunkInput {
+  pageNumber: number;
+  content: string;
+}
+
+/** Cuts text longer than a chunk into chunk-sized slices. */
+const splitOversized = (text: string): string[] => {
+  if (text.length <= MAX_CHUNK_CHARS) {
+    return [text];
+  }
+
+  const slices: string[] = [];
+  for (let start = 0; start < text.length; start += MAX_CHUNK_CHARS) {
+    slices.push(text.slice(start, start + MAX_CHUNK_CHARS));
+  }
+  return slices;
+};
+
+/** Packs consecutive passages into chunks of at most `MAX_CHUNK_CHARS`. */
+const packPassages = (passages: string[]): string[] => {
+  const chunks: string[] = [];
+  let current = "";
+
+  for (const passage of passages.flatMap(splitOversized)) {
+    if (current && current.length + passage.length + 2 > MAX_CHUNK_CHARS) {
+      chunks.push(current);
+      current = "";
+    }
+    current = current ? `${current}\n\n${passage}` : passage;
+  }
+
+  if (current) {
+    chunks.push(current);
+  }
+  return chunks;
+};
+
+/**
+ * Splits pages into chunks that never cross a page boundary. Pages with
+ * layout data are cut along their blocks, other pages along paragraphs.
+ */
+export const chunkPages = (
+  pages: Pick<JobPage, "layout" | "markdown" | "pageNumber">[]
+): DocumentChunkInput[] =>
+  pages.flatMap((page) => {
+    const passages = page.layout?.length
+      ? page.layout.map((block) => block.content)
+      : page.markdown.split(PARAGRAPH_SEPARATOR);
+
+    return packPassages(
+      passages.map((passage) => passage.trim()).filter(Boolean)
+    ).map((content) => ({ content, pageNumber: page.pageNumber }));
+  });
+
+/** Embeds texts one bounded request at a time, in input order. */
+const embedInBatches = async (texts: string[]): Promise<number[][]> => {
+  const embeddings: number[][] = [];
+
+  for (let start = 0; start < texts.length; start += EMBED_BATCH_SIZE) {
+    const batch = await embeddingService.embed(
+      texts.slice(start, start + EMBED_BATCH_SIZE)
+    );
+    embeddings.push(...batch);
+  }
+  return embeddings;
+};
+
+/**
+ * Replaces the semantic search chunks of a job with fresh embeddings of its
+ * pages. Returns the number of chunks stored; 0 when embeddings are off.
+ */
+export const indexJobDocument = async (
+  jobId: string,
+  organizationId: string
+): Promise<number> => {
+  const model = embeddingService.model();
+  if (!model) {
+    return 0;
+  }
+
+  const pages = await db.query.jobPages.findMany({
+    columns: { layout: true, markdown: true, pageNumber: true },
+    orderBy: asc(jobPages.pageNumber),
+    where: eq(jobPages.jobId, jobId),
+  });
+  const chunks = chunkPages(pages);
+  const embeddings = await embedInBatches(chunks.map((chunk) => chunk.content));
+
+  await db.transaction(async (tx) => {
+    await tx.delete(documentChunks).where(eq(documentChunks.jobId, jobId));
+
+    if (chunks.length === 0) {
+      return;
+    }
+
+    await tx.insert(documentChunks).values(
+      chunks.map((chunk, index) => ({
+        chunkIndex: index,
+        content: chunk.content,
+        embedding: embeddings[index] ?? [],
+        embeddingModel: model,
+        jobId,
+        organizationId,
+        pageNumber: chunk.pageNumber,
+      }))
+    );
+  });
+
+  return chunks.length;
+};
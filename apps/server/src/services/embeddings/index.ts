@@ -0,0 +1,39 @@
+import { env } from "@ocrbase/env/server";
+
+import type { EmbeddingProvider, EmbeddingProviderName } from "./types";
+
+import { openaiEmbeddingProvider } from "./openai";
+import { stubEmbeddingProvider } from "./stub";
+
+export {
+  EMBEDDING_PROVIDER_NAMES,
+  type EmbeddingProvider,
+  type EmbeddingProviderName,
+} from "./types";
+
+const providers: Record<EmbeddingProviderName, EmbeddingProvider> = {
+  openai: openaiEmbeddingProvider,
+  stub: stubEmbeddingProvider,
+};
+
+const getProvider = (): EmbeddingProvider | null =>
+  env.EMBEDDING_PROVIDER ? providers[env.EMBEDDING_PROVIDER] : null;
+
+const requireProvider = (): EmbeddingProvider => {
+  const provider = getProvider();
+  if (!provider) {
+    throw new Error("EMBEDDING_PROVIDER is not configured");
+  }
+  return provider;
+};
+
+export const embeddingService = {
+  /** Embeds texts with the configured provider, in input order. */
+  embed: async (texts: string[]): Promise<number[][]> =>
+    texts.length === 0 ? [] : await requireProvider().embed(texts),
+
+  isConfigured: (): boolean => getProvider() !== null,
+
+  /** Model of the configured provider, or `null` when embeddings are off. */
+  model: (): string | null => getProvider()?.model ?? null,
+};
@@ -0,0 +1,26 @@
+import { createOpenAI } from "@ai-sdk/openai";
+import { EMBEDDING_DIMENSIONS } from "@ocrbase/db/schema/document-chunks";
+import { env } from "@ocrbase/env/server";
+import { embedMany } from "ai";
+
+import type { EmbeddingProvider } from "./types";
+
+const client = createOpenAI({
+  apiKey: env.EMBEDDING_API_KEY ?? "",
+  baseURL: env.EMBEDDING_BASE_URL,
+});
+
+const embed = async (texts: string[]): Promise<number[][]> => {
+  const { embeddings } = await embedMany({
+    model: client.embedding(env.EMBEDDING_MODEL),
+    providerOptions: { openai: { dimensions: EMBEDDING_DIMENSIONS } },
+    values: texts,
+  });
+  return embeddings;
+};
+
+export const openaiEmbeddingProvider: EmbeddingProvider = {
+  embed,
+  model: env.EMBEDDING_MODEL,
+  name: "openai",
+};
@@ -0,0 +1,30 @@
+import { EMBEDDING_DIMENSIONS } from "@ocrbase/db/schema/document-chunks";
+import { createHash } from "node:crypto";
+
+import type { EmbeddingProvider } from "./types";
+
+const WORD_PATTERN = /[\p{L}\p{N}]+/gu;
+
+/**
+ * Hashes each word into one of the dimensions, so texts sharing words get
+ * similar vectors. Deterministic and offline; only meant for tests.
+ */
+const embedText = (text: string): number[] => {
+  const vector = Array.from<number>({ length: EMBEDDING_DIMENSIONS }).fill(0);
+
+  for (const [word] of text.toLowerCase().matchAll(WORD_PATTERN)) {
+    const digest = createHash("sha256").update(word).digest();
+    const index = digest.readUInt32BE(0) % EMBEDDING_DIMENSIONS;
+    const sign = digest.readUInt8(4) % 2 === 0 ? 1 : -1;
+    vector[index] = (vector[index] ?? 0) + sign;
+  }
+
+  const norm = Math.hypot(...vector);
+  return norm === 0 ? vector : vector.map((value) => value / norm);
+};
+
+export const stubEmbeddingProvider: EmbeddingProvider = {
+  embed: (texts) => texts.map(embedText),
+  model: "stub",
+  name: "stub",
+};
@@ -0,0 +1,14 @@
+export const EMBEDDING_PROVIDER_NAMES = ["openai", "stub"] as const;
+
+export type EmbeddingProviderName = (typeof EMBEDDING_PROVIDER_NAMES)[number];
+
+export interface EmbeddingProvider {
+  name: EmbeddingProviderName;
+  /** Model identifier stored next to each vector. */
+  model: string;
+  /**
+   * Returns one vector of `EMBEDDING_DIMENSIONS` numbers per input text.
+   * Local providers may answer synchronously.
+   */
+  embed: (texts: string[]) => Promise<number[][]> | number[][];
+}
@@ -0,0 +1,147 @@
+import type { ExtractionFieldMeta } from "@ocrbase/db/schema/jobs";
+
+import { describe, expect, test } from "bun:test";
+
+import type { CitablePage } from "./extraction-meta";
+
+import { mergeChunkResults, toChunks } from "./extraction-chunks";
+
+const page = (pageNumber: number, markdown: string): CitablePage => ({
+  height: null,
+  layout: null,
+  markdown,
+  pageNumber,
+  width: null,
+});
+
+const field = (
+  path: string,
+  confidence: number,
+  pageNumber: number
+): ExtractionFieldMeta => ({
+  citation: {
+    bbox: null,
+    pageHeight: null,
+    pageNumber,
+    pageWidth: null,
+    quote: path,
+  },
+  confidence,
+  path,
+});
+
+describe("toChunks", () => {
+  test("packs consecutive pages up to the size limit", () => {
+    const pages = [
+      page(1, "a".repeat(40)),
+      page(2, "b".repeat(40)),
+      page(3, "c".repeat(30)),
+    ];
+    const chunks = toChunks(pages, 100);
+
+    expect(
+      chunks.map(({ firstPage, lastPage }) => [firstPage, lastPage])
+    ).toEqual([
+      [1, 2],
+      [3, 3],
+    ]);
+    expect(chunks.flatMap((chunk) => chunk.pages)).toEqual(pages);
+  });
+
+  test("splits a long page at its headings", () => {
+    const markdown = `# One\n${"x".repeat(30)}\n# Two\n${"y".repeat(30)}\n`;
+    const chunks = toChunks([page(4, markdown)], 45);
+
+    expect(chunks).toHaveLength(2);
+    expect(chunks.every((chunk) => chunk.firstPage === 4)).toBe(true);
+    expect(chunks.map((chunk) => chunk.pages[0]?.markdown.slice(0, 5))).toEqual(
+      ["# One", "# Two"]
+    );
+  });
+
+  test("cuts text without breaks at the limit", () => {
+    const chunks = toChunks([page(1, "z".repeat(25))], 10);
+
+    expect(chunks.map((chunk) => chunk.pages[0]?.markdown.length)).toEqual([
+      10, 10, 5,
+    ]);
+  });
+});
+
+describe("mergeChunkResults", () => {
+  test("concatenates arrays and drops duplicate items", () => {
+    const { data } = mergeChunkResults([
+      { data: { items: [{ sku: "A" }, { sku: "B" }] }, fields: null },
+      { data: { items: [{ sku: "B" }, { sku: "C" }] }, fields: null },
+    ]);
+
+    expect(data).toEqual({ items: [{ sku: "A" }, { sku: "B" }, { sku: "C" }] });
+  });
+
+  test("keeps the more confident of two conflicting values", () => {
+    const { data, fields } = mergeChunkResults([
+      { data: { total: 90 }, fields: [field("/total", 0.4, 1)] },
+      { data: { total: 100 }, fields: [field("/total", 0.9, 3)] },
+    ]);
+
+    expect(data).toEqual({ total: 100 });
+    expect(fields).toEqual([field("/total", 0.9, 3)]);
+  });
+
+  test("keeps the earlier value on a tie or without citations", () => {
+    expect(
+      mergeChunkResults([
+        { data: { total: 90 }, fields: [field("/total", 0.5, 1)] },
+        { data: { total: 100 }, fields: [field("/total", 0.5, 2)] },
+      ]).data
+    ).toEqual({ total: 90 });
+    expect(
+      mergeChunkResults([
+        { data: { total: 90 }, fields: null },
+        { data: { total: 100 }, fields: null },
+      ]).data
+    ).toEqual({ total: 90 });
+  });
+
+  test("fills empty values from later chunks and merges objects by key", () => {
+    const { data } = mergeChunkResults([
+      { data: { buyer: { name: "Acme" }, number: "" }, fields: null },
+      {
+        data: { buyer: { vat: "DE123" }, number: "INV-1" },
+        fields: null,
+      },
+    ]);
+
+    expect(data).toEqual({
+      buyer: { name: "Acme", vat: "DE123" },
+      number: "INV-1",
+    });
+  });
+
+  test("re-addresses citations to their place in the merged result", () => {
+    const { fields } = mergeChunkResults([
+      {
+        data: { items: [{ sku: "A" }] },
+        fields: [field("/items/0/sku", 1, 1)],
+      },
+      {
+        data: { items: [{ sku: "B" }] },
+        fields: [field("/items/0/sku", 1, 5)],
+      },
+    ]);
+
+    expect(
+      fields?.map(({ citation, path }) => [path, citation?.pageNumber])
+    ).toEqual([
+      ["/items/0/sku", 1],
+      ["/items/1/sku", 5],
+    ]);
+  });
+
+  test("returns null fields when no chunk was cited", () => {
+    expect(
+      mergeChunkResults([{ data: { total: 1 }, fields: null }]).fields
+    ).toBeNull();
+    expect(mergeChunkResults([])).toEqual({ data: {}, fields: null });
+  });
+});
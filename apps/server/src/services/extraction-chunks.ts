@@ -0,0 +1,260 @@
+import type { ExtractionFieldMeta } from "@ocrbase/db/schema/jobs";
+
+import type { CitablePage } from "./extraction-meta";
+
+import { toJsonPointer } from "../lib/json-schema";
+import { PAGE_SEPARATOR } from "./ocr/types";
+
+/** What one chunk produced: its values and, when cited, their metadata. */
+export interface ChunkResult {
+  data: Record<string, unknown>;
+  fields: ExtractionFieldMeta[] | null;
+}
+
+export interface DocumentChunk {
+  firstPage: number;
+  lastPage: number;
+  pages: CitablePage[];
+}
+
+// Headings first, then paragraphs; whatever is left is cut at the limit.
+const SECTION_BREAKS = [/(?=^#{1,6} )/m, /(?<=\n\n)/];
+
+const LEAF = Symbol("leaf");
+
+/** A scalar of a chunk result with the confidence and citation it came with. */
+interface AnnotatedLeaf {
+  [LEAF]: true;
+  meta?: ExtractionFieldMeta;
+  value: unknown;
+}
+
+type AnnotatedNode = AnnotatedLeaf | AnnotatedNode[] | AnnotatedObject;
+
+interface AnnotatedObject {
+  [key: string]: AnnotatedNode;
+}
+
+const splitText = (
+  text: string,
+  maxChars: number,
+  separators: RegExp[]
+): string[] => {
+  if (text.length <= maxChars) {
+    return [text];
+  }
+
+  const [separator, ...rest] = separators;
+  if (!separator) {
+    const slices: string[] = [];
+    for (let start = 0; start < text.length; start += maxChars) {
+      slices.push(text.slice(start, start + maxChars));
+    }
+    return slices;
+  }
+
+  return text
+    .split(separator)
+    .flatMap((part) => splitText(part, maxChars, rest));
+};
+
+/** Cuts a page longer than a chunk into sections that each fit one. */
+const splitPage = (page: CitablePage, maxChars: number): CitablePage[] => {
+  if (page.markdown.length <= maxChars) {
+    return [page];
+  }
+
+  const sections: string[] = [];
+  let current = "";
+
+  for (const part of splitText(page.markdown, maxChars, SECTION_BREAKS)) {
+    if (current && current.length + part.length > maxChars) {
+      sections.push(current);
+      current = "";
+    }
+    current += part;
+  }
+
+  if (current) {
+    sections.push(current);
+  }
+  return sections.map((markdown) => ({ ...page, markdown }));
+};
+
+/** Packs consecutive pages, or sections of long pages, into chunks. */
+export const toChunks = (
+  pages: CitablePage[],
+  maxChars: number
+): DocumentChunk[] => {
+  const groups: CitablePage[][] = [];
+  let current: CitablePage[] = [];
+  let size = 0;
+
+  for (const page of pages.flatMap((item) => splitPage(item, maxChars))) {
+    if (current.length > 0 && size + page.markdown.length > maxChars) {
+      groups.push(current);
+      current = [];
+      size = 0;
+    }
+    current.push(page);
+    size += page.markdown.length + PAGE_SEPARATOR.length;
+  }
+
+  if (current.length > 0) {
+    groups.push(current);
+  }
+
+  return groups.map((group) => ({
+    firstPage: group[0]?.pageNumber ?? 0,
+    lastPage: group.at(-1)?.pageNumber ?? 0,
+    pages: group,
+  }));
+};
+
+const isLeaf = (node: unknown): node is AnnotatedLeaf =>
+  typeof node === "object" && node !== null && LEAF in node;
+
+const isObjectNode = (node: AnnotatedNode): node is AnnotatedObject =>
+  !isLeaf(node) && !Array.isArray(node);
+
+const isEmptyLeaf = (node: AnnotatedNode): boolean =>
+  isLeaf(node) &&
+  (node.value === null || node.value === undefined || node.value === "");
+
+const annotate = (
+  value: unknown,
+  meta: Map<string, ExtractionFieldMeta>,
+  path: string[] = []
+): AnnotatedNode => {
+  if (Array.isArray(value)) {
+    return value.map((item, index) =>
+      annotate(item, meta, [...path, String(index)])
+    );
+  }
+
+  if (typeof value === "object" && value !== null) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [
+        key,
+        annotate(item, meta, [...path, key]),
+      ])
+    );
+  }
+
+  return { [LEAF]: true, meta: meta.get(toJsonPointer(path)), value };
+};
+
+const toPlain = (node: AnnotatedNode): unknown => {
+  if (isLeaf(node)) {
+    return node.value;
+  }
+  if (Array.isArray(node)) {
+    return node.map(toPlain);
+  }
+  return Object.fromEntries(
+    Object.entries(node).map(([key, item]) => [key, toPlain(item)])
+  );
+};
+
+/** Lists the leaves' metadata under their paths in the merged result. */
+const collectMeta = (
+  node: AnnotatedNode,
+  path: string[] = [],
+  fields: ExtractionFieldMeta[] = []
+): ExtractionFieldMeta[] => {
+  if (isLeaf(node)) {
+    if (node.meta) {
+      fields.push({ ...node.meta, path: toJsonPointer(path) });
+    }
+  } else if (Array.isArray(node)) {
+    for (const [index, item] of node.entries()) {
+      collectMeta(item, [...path, String(index)], fields);
+    }
+  } else {
+    for (const [key, item] of Object.entries(node)) {
+      collectMeta(item, [...path, key], fields);
+    }
+  }
+
+  return fields;
+};
+
+/** Keeps the first of items with equal values, such as a repeated header. */
+const dedupe = (items: AnnotatedNode[]): AnnotatedNode[] => {
+  const seen = new Set<string>();
+
+  return items.filter((item) => {
+    const key = JSON.stringify(toPlain(item));
+    if (seen.has(key)) {
+      return false;
+    }
+    seen.add(key);
+    return true;
+  });
+};
+
+const confidenceOf = (leaf: AnnotatedLeaf): number =>
+  leaf.meta?.confidence ?? 0;
+
+/**
+ * Folds a later chunk's result into the merged one. Arrays are concatenated
+ * and deduplicated, objects merged key by key, and between two values the
+ * more confident wins, the earlier chunk on a tie.
+ */
+const mergeNodes = (
+  merged: AnnotatedNode | undefined,
+  next: AnnotatedNode | undefined
+): AnnotatedNode | undefined => {
+  if (merged === undefined || isEmptyLeaf(merged)) {
+    return next ?? merged;
+  }
+  if (next === undefined || isEmptyLeaf(next)) {
+    return merged;
+  }
+
+  if (Array.isArray(merged) && Array.isArray(next)) {
+    return dedupe([...merged, ...next]);
+  }
+
+  if (isLeaf(merged) && isLeaf(next)) {
+    return confidenceOf(next) > confidenceOf(merged) ? next : merged;
+  }
+
+  if (isObjectNode(merged) && isObjectNode(next)) {
+    const result: AnnotatedObject = { ...merged };
+    for (const [key, node] of Object.entries(next)) {
+      const value = mergeNodes(merged[key], node);
+      if (value !== undefined) {
+        result[key] = value;
+      }
+    }
+    return result;
+  }
+
+  // Shapes that disagree keep the earlier chunk's value.
+  return merged;
+};
+
+/**
+ * Merges chunk results in page order. Fields are null unless at least one
+ * chunk was cited.
+ */
+export const mergeChunkResults = (
+  results: ChunkResult[]
+): { data: Record<string, unknown>; fields: ExtractionFieldMeta[] | null } => {
+  let merged: AnnotatedNode | undefined;
+
+  for (const result of results) {
+    const metaByPath = new Map(
+      (result.fields ?? []).map((field) => [field.path, field])
+    );
+    merged = mergeNodes(merged, annotate(result.data, metaByPath));
+  }
+
+  const cited = results.some((result) => result.fields !== null);
+
+  return {
+    data: (merged ? toPlain(merged) : {}) as Record<string, unknown>,
+    fields: cited && merged ? collectMeta(merged) : null,
+  };
+};
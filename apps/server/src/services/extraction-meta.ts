@@ -0,0 +1,158 @@
+import type { JobPage } from "@ocrbase/db/schema/job-pages";
+import type {
+  ExtractionCitation,
+  ExtractionFieldMeta,
+} from "@ocrbase/db/schema/jobs";
+
+import { toJsonPointer } from "../lib/json-schema";
+import {
+  type CitationRequestField,
+  type CitedField,
+  type LlmProvider,
+  type LlmUsage,
+  llmService,
+} from "./llm";
+
+// Bounds the citation prompt for results with long arrays.
+const MAX_CITED_FIELDS = 200;
+const MARKDOWN_SYNTAX = /[*_`#|>]/g;
+
+export type CitablePage = Pick<
+  JobPage,
+  "height" | "layout" | "markdown" | "pageNumber" | "width"
+>;
+
+interface BuildJsonResultMetaOptions {
+  data: Record<string, unknown>;
+  pages: CitablePage[];
+  provider: LlmProvider;
+  model?: string;
+}
+
+interface JsonResultMeta {
+  fields: ExtractionFieldMeta[];
+  usage: LlmUsage;
+}
+
+/** Lists the non-null scalar values of a result with their JSON Pointers. */
+const collectLeaves = (
+  value: unknown,
+  path: string[] = [],
+  leaves: CitationRequestField[] = []
+): CitationRequestField[] => {
+  if (
+    typeof value === "string" ||
+    typeof value === "number" ||
+    typeof value === "boolean"
+  ) {
+    if (value !== "") {
+      leaves.push({ path: toJsonPointer(path), value });
+    }
+  } else if (Array.isArray(value)) {
+    for (const [index, item] of value.entries()) {
+      collectLeaves(item, [...path, String(index)], leaves);
+    }
+  } else if (typeof value === "object" && value !== null) {
+    for (const [key, item] of Object.entries(value)) {
+      collectLeaves(item, [...path, key], leaves);
+    }
+  }
+
+  return leaves;
+};
+
+/** Makes OCR markdown and model quotes comparable. */
+const normalizeText = (text: string): string =>
+  text
+    .replaceAll(MARKDOWN_SYNTAX, " ")
+    .replaceAll(/\s+/g, " ")
+    .trim()
+    .toLowerCase();
+
+const findBlockBbox = (
+  page: CitablePage,
+  normalizedQuote: string
+): ExtractionCitation["bbox"] =>
+  page.layout?.find((block) =>
+    normalizeText(block.content).includes(normalizedQuote)
+  )?.bbox ?? null;
+
+/**
+ * Checks a quote against the pages, starting with the one the model cited.
+ * Quotes that appear nowhere in the document are dropped.
+ */
+const locateQuote = (
+  pages: CitablePage[],
+  field: CitedField
+): ExtractionCitation | null => {
+  const normalizedQuote = field.quote ? normalizeText(field.quote) : "";
+  if (!field.quote || !normalizedQuote) {
+    return null;
+  }
+
+  const candidates = [
+    ...pages.filter((page) => page.pageNumber === field.pageNumber),
+    ...pages.filter((page) => page.pageNumber !== field.pageNumber),
+  ];
+  const page = candidates.find((candidate) =>
+    normalizeText(candidate.markdown).includes(normalizedQuote)
+  );
+
+  if (!page) {
+    return null;
+  }
+
+  return {
+    bbox: findBlockBbox(page, normalizedQuote),
+    pageHeight: page.height,
+    pageNumber: page.pageNumber,
+    pageWidth: page.width,
+    quote: field.quote,
+  };
+};
+
+const clampConfidence = (confidence: number): number =>
+  Math.min(1, Math.max(0, confidence));
+
+/**
+ * Scores every leaf value of an extraction result and links it to the page,
+ * quote and, where the OCR engine reported layout, the region it came from.
+ */
+export const buildJsonResultMeta = async ({
+  data,
+  model,
+  pages,
+  provider,
+}: BuildJsonResultMetaOptions): Promise<JsonResultMeta> => {
+  const leaves = collectLeaves(data).slice(0, MAX_CITED_FIELDS);
+
+  if (leaves.length === 0) {
+    return { fields: [], usage: { completionTokens: 0, promptTokens: 0 } };
+  }
+
+  const result = await llmService.citeExtraction({
+    fields: leaves,
+    model,
+    pages,
+    provider,
+  });
+  const cited = new Map(result.fields.map((field) => [field.path, field]));
+
+  // Leaves the model skipped get no entry rather than a made-up score.
+  const fields = leaves.flatMap((leaf): ExtractionFieldMeta[] => {
+    const field = cited.get(leaf.path);
+    if (!field) {
+      return [];
+    }
+
+    return [
+      {
+        citation: locateQuote(pages, field),
+        confidence: clampConfidence(field.confidence),
+        path: leaf.path,
+      },
+    ];
+  });
+
+  return { fields, usage: result.usage };
+};
@@ -0,0 +1,43 @@
+import { createOpenAI } from "@ai-sdk/openai";
+import { env } from "@ocrbase/env/server";
+
+import type { LlmProvider } from "./types";
+
+const BASE_URL = "https://api.anthropic.com/v1";
+const API_VERSION = "2023-06-01";
+
+// Claude is reached through Anthropic's OpenAI-compatible Chat Completions
+// endpoint, so every provider shares one client implementation.
+const client = createOpenAI({
+  apiKey: env.ANTHROPIC_API_KEY ?? "",
+  baseURL: BASE_URL,
+});
+
+const checkHealth = async (): Promise<boolean> => {
+  if (!env.ANTHROPIC_API_KEY) {
+    return true;
+  }
+
+  try {
+    const response = await fetch(`${BASE_URL}/models`, {
+      headers: {
+        "anthropic-version": API_VERSION,
+        "x-api-key": env.ANTHROPIC_API_KEY,
+      },
+    });
+    return response.ok;
+  } catch {
+    return false;
+  }
+};
+
+export const anthropicProvider: LlmProvider = {
+  checkHealth,
+  defaultModel: env.ANTHROPIC_MODEL,
+  isConfigured: () => Boolean(env.ANTHROPIC_API_KEY),
+  label: "Anthropic",
+  languageModel: (modelId) => client.chat(modelId),
+  name: "anthropic",
+  // The compatibility endpoint ignores `response_format` but honours tools.
+  structuredOutput: "tool",
+};
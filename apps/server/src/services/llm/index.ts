@@ -0,0 +1,748 @@
+import type { ExtractionValidationError } from "@ocrbase/db/schema/jobs";
+
+import { db } from "@ocrbase/db";
+import { organizationSettings } from "@ocrbase/db/schema/organization-settings";
+import { env } from "@ocrbase/env/server";
+import {
+  generateText,
+  jsonSchema,
+  type LanguageModel,
+  NoObjectGeneratedError,
+  Output,
+  streamText,
+  tool,
+} from "ai";
+import { eq } from "drizzle-orm";
+
+import type { LlmProvider, LlmProviderName } from "./types";
+
+import { validateJsonSchema } from "../../lib/json-schema";
+import { anthropicProvider } from "./anthropic";
+import { openaiCompatibleProvider } from "./openai-compatible";
+import { openrouterProvider } from "./openrouter";
+import { isLlmProviderName } from "./types";
+
+export {
+  LLM_PROVIDER_NAMES,
+  isLlmProviderName,
+  type LlmProvider,
+  type LlmProviderName,
+} from "./types";
+
+const providers: Record<LlmProviderName, LlmProvider> = {
+  anthropic: anthropicProvider,
+  "openai-compatible": openaiCompatibleProvider,
+  openrouter: openrouterProvider,
+};
+
+export const DEFAULT_LLM_PROVIDER: LlmProviderName = env.LLM_PROVIDER;
+
+export const getLlmProvider = (name: LlmProviderName): LlmProvider =>
+  providers[name];
+
+export const listLlmProviders = (): LlmProvider[] => Object.values(providers);
+
+/**
+ * Picks the LLM provider for an organization: its default from settings,
+ * then the server-wide `LLM_PROVIDER`.
+ */
+export const resolveLlmProvider = async (
+  organizationId: string
+): Promise<LlmProvider> => {
+  const settings = await db.query.organizationSettings.findFirst({
+    columns: { defaultLlmProvider: true },
+    where: eq(organizationSettings.organizationId, organizationId),
+  });
+
+  const name = isLlmProviderName(settings?.defaultLlmProvider)
+    ? settings.defaultLlmProvider
+    : DEFAULT_LLM_PROVIDER;
+
+  return getLlmProvider(name);
+};
+
+const JSON_REPAIR_INPUT_LIMIT = 40_000;
+const RESPONSE_PREVIEW_LIMIT = 240;
+const EXTRACTION_TOOL_NAME = "record_extraction";
+
+interface ProcessExtractionOptions {
+  provider: LlmProvider;
+  /** Overrides the provider's default model. */
+  model?: string;
+  markdown: string;
+  schema?: Record<string, unknown>;
+  hints?: string;
+  /** Set when `markdown` is one part of a longer document. */
+  chunk?: { firstPage: number; lastPage: number };
+}
+
+export interface LlmUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+interface ExtractionResult {
+  data: Record<string, unknown>;
+  /** Null when there was no schema to validate against. */
+  validationErrors: ExtractionValidationError[] | null;
+  usage: LlmUsage;
+  model: string;
+  provider: LlmProviderName;
+}
+
+interface GenerateSchemaOptions {
+  provider: LlmProvider;
+  markdown: string;
+  hints?: string;
+}
+
+interface GeneratedSchema {
+  name: string;
+  description: string;
+  jsonSchema: Record<string, unknown>;
+}
+
+export interface QuestionContextPage {
+  pageNumber: number;
+  markdown: string;
+}
+
+interface AnswerQuestionOptions {
+  provider: LlmProvider;
+  question: string;
+  pages: QuestionContextPage[];
+  abortSignal?: AbortSignal;
+}
+
+interface AnswerStream {
+  textStream: AsyncIterable<string>;
+  /** Resolves once the stream has finished. */
+  usage: () => Promise<LlmUsage>;
+  model: string;
+  provider: LlmProviderName;
+}
+
+export interface CitationRequestField {
+  /** JSON Pointer to the value in the extraction result. */
+  path: string;
+  value: boolean | number | string;
+}
+
+export interface CitedField {
+  path: string;
+  confidence: number;
+  pageNumber: number | null;
+  quote: string | null;
+}
+
+interface CiteExtractionOptions {
+  provider: LlmProvider;
+  model?: string;
+  pages: QuestionContextPage[];
+  fields: CitationRequestField[];
+}
+
+interface CitationResult {
+  fields: CitedField[];
+  usage: LlmUsage;
+}
+
+type JsonValidator<T> = (value: unknown) => value is T;
+
+interface StructuredResponse {
+  /** The object the provider returned, when it parsed. */
+  data?: Record<string, unknown>;
+  /** Raw model output for the JSON repair fallback. */
+  text: string;
+  usage: LlmUsage;
+}
+
+export class LlmJsonParseError extends Error {
+  readonly preview: string;
+
+  constructor(message: string, rawResponse: string) {
+    const preview = rawResponse
+      .replaceAll(/\s+/g, " ")
+      .trim()
+      .slice(0, RESPONSE_PREVIEW_LIMIT);
+    super(`${message}${preview ? ` (preview: ${preview})` : ""}`);
+    this.name = "LlmJsonParseError";
+    this.preview = preview;
+  }
+}
+
+const assertConfigured = (provider: LlmProvider): void => {
+  if (!provider.isConfigured()) {
+    throw new Error(`LLM provider "${provider.name}" is not configured`);
+  }
+};
+
+const emptyUsage = (): LlmUsage => ({
+  completionTokens: 0,
+  promptTokens: 0,
+});
+
+const toUsage = (result: {
+  usage?: { inputTokens?: number; outputTokens?: number };
+}): LlmUsage => ({
+  completionTokens: result.usage?.outputTokens ?? 0,
+  promptTokens: result.usage?.inputTokens ?? 0,
+});
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isGeneratedSchema = (value: unknown): value is GeneratedSchema =>
+  isRecord(value) &&
+  typeof value.name === "string" &&
+  typeof value.description === "string" &&
+  isRecord(value.jsonSchema);
+
+const isCitationResponse = (value: unknown): value is { fields: unknown[] } =>
+  isRecord(value) && Array.isArray(value.fields);
+
+const isCitedField = (value: unknown): value is CitedField =>
+  isRecord(value) &&
+  typeof value.path === "string" &&
+  typeof value.confidence === "number" &&
+  (typeof value.pageNumber === "number" || value.pageNumber === null) &&
+  (typeof value.quote === "string" || value.quote === null);
+
+const findBalancedJsonSegments = (input: string): string[] => {
+  const segments: string[] = [];
+  const stack: string[] = [];
+  let startIndex = -1;
+  let inString = false;
+  let escaping = false;
+
+  for (let index = 0; index < input.length; index += 1) {
+    const char = input[index];
+
+    if (inString) {
+      if (escaping) {
+        escaping = false;
+        continue;
+      }
+
+      if (char === "\\") {
+        escaping = true;
+        continue;
+      }
+
+      if (char === '"') {
+        inString = false;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inString = true;
+      continue;
+    }
+
+    if (char === "{" || char === "[") {
+      if (stack.length === 0) {
+        startIndex = index;
+      }
+      stack.push(char);
+      continue;
+    }
+
+    if (char === "}" || char === "]") {
+      const lastOpen = stack.at(-1);
+      if (!lastOpen) {
+        continue;
+      }
+
+      const isValidClose =
+        (char === "}" && lastOpen === "{") ||
+        (char === "]" && lastOpen === "[");
+      if (!isValidClose) {
+        stack.length = 0;
+        startIndex = -1;
+        continue;
+      }
+
+      stack.pop();
+      if (stack.length === 0 && startIndex !== -1) {
+        segments.push(input.slice(startIndex, index + 1));
+        startIndex = -1;
+      }
+    }
+  }
+
+  return segments;
+};
+
+const collectJsonCandidates = (text: string): string[] => {
+  const codeBlockRegex = /```(?:json)?\s*([\s\S]*?)\s*```/gi;
+  const candidates: string[] = [];
+  const seen = new Set<string>();
+
+  const pushCandidate = (candidate: string) => {
+    const trimmed = candidate.trim();
+    if (!trimmed || seen.has(trimmed)) {
+      return;
+    }
+    seen.add(trimmed);
+    candidates.push(trimmed);
+  };
+
+  for (const match of text.matchAll(codeBlockRegex)) {
+    if (match[1]) {
+      pushCandidate(match[1]);
+    }
+  }
+
+  const trimmed = text.trim();
+  if (trimmed) {
+    pushCandidate(trimmed);
+    for (const segment of findBalancedJsonSegments(trimmed)) {
+      pushCandidate(segment);
+    }
+  }
+
+  return candidates;
+};
+
+const parseJsonFromText = <T>(text: string, validate?: JsonValidator<T>): T => {
+  const validMatches: T[] = [];
+  let parsedButInvalidShape = 0;
+
+  for (const candidate of collectJsonCandidates(text)) {
+    try {
+      const parsed = JSON.parse(candidate) as unknown;
+      if (!validate) {
+        validMatches.push(parsed as T);
+        continue;
+      }
+
+      if (validate(parsed)) {
+        validMatches.push(parsed);
+      } else {
+        parsedButInvalidShape += 1;
+      }
+    } catch {
+      // Continue scanning other candidates.
+    }
+  }
+
+  if (validMatches.length === 1) {
+    const [onlyMatch] = validMatches;
+    if (onlyMatch !== undefined) {
+      return onlyMatch;
+    }
+  }
+
+  if (validMatches.length > 1) {
+    throw new LlmJsonParseError(
+      "Ambiguous JSON response: multiple parseable JSON candidates found",
+      text
+    );
+  }
+
+  if (parsedButInvalidShape > 0) {
+    throw new LlmJsonParseError(
+      "Parsed JSON does not match expected shape",
+      text
+    );
+  }
+
+  throw new LlmJsonParseError(
+    "JSON Parse error: Unable to parse JSON string",
+    text
+  );
+};
+
+const buildJsonRepairPrompt = (
+  invalidResponse: string,
+  expectedShape: string,
+  schema?: Record<string, unknown>
+): string => {
+  const sections = [
+    `The following response should be ${expectedShape}, but the JSON is invalid.`,
+    "Rewrite it into valid JSON.",
+    "Rules:",
+    "- Return ONLY valid JSON.",
+    "- Do not include markdown or explanation.",
+    "- Preserve fields and values from the original response whenever possible.",
+    "",
+    "Invalid response:",
+    "```",
+    invalidResponse.slice(0, JSON_REPAIR_INPUT_LIMIT),
+    "```",
+  ];
+
+  if (schema) {
+    sections.push(
+      "",
+      "Target JSON schema (best effort):",
+      "```json",
+      JSON.stringify(schema, null, 2).slice(0, JSON_REPAIR_INPUT_LIMIT),
+      "```"
+    );
+  }
+
+  return sections.join("\n");
+};
+
+const parseJsonWithRepair = async <T>({
+  expectedShape,
+  model,
+  responseText,
+  schema,
+  validate,
+}: {
+  expectedShape: string;
+  model: LanguageModel;
+  responseText: string;
+  schema?: Record<string, unknown>;
+  validate?: JsonValidator<T>;
+}): Promise<{ data: T; repairUsage: LlmUsage }> => {
+  try {
+    return {
+      data: parseJsonFromText<T>(responseText, validate),
+      repairUsage: emptyUsage(),
+    };
+  } catch {
+    const repairResult = await generateText({
+      model,
+      prompt: buildJsonRepairPrompt(responseText, expectedShape, schema),
+      system:
+        "You are a JSON repair tool. Output valid JSON only, with no markdown fences.",
+    });
+
+    try {
+      return {
+        data: parseJsonFromText<T>(repairResult.text, validate),
+        repairUsage: toUsage(repairResult),
+      };
+    } catch {
+      throw new LlmJsonParseError(
+        "JSON Parse error: Unable to parse JSON string",
+        repairResult.text
+      );
+    }
+  }
+};
+
+// Strict mode rejects common schemas, such as ones with optional properties;
+// results are checked against the full schema afterwards instead.
+const NON_STRICT_SCHEMA = { openai: { strictJsonSchema: false } };
+
+/**
+ * Asks for an extraction through the provider's native structured output:
+ * a JSON Schema response format or a forced tool call. Output that still
+ * does not parse comes back as text for the JSON repair path.
+ */
+const generateStructured = async ({
+  model,
+  prompt,
+  provider,
+  schema,
+  system,
+}: {
+  model: LanguageModel;
+  prompt: string;
+  provider: LlmProvider;
+  schema: Record<string, unknown>;
+  system: string;
+}): Promise<StructuredResponse> => {
+  if (provider.structuredOutput === "tool") {
+    const result = await generateText({
+      model,
+      prompt,
+      system,
+      toolChoice: { toolName: EXTRACTION_TOOL_NAME, type: "tool" },
+      tools: {
+        [EXTRACTION_TOOL_NAME]: tool({
+          description: "Record the data extracted from the document.",
+          inputSchema: jsonSchema(schema),
+        }),
+      },
+    });
+    const [call] = result.toolCalls;
+
+    return {
+      data: isRecord(call?.input) ? call.input : undefined,
+      text: typeof call?.input === "string" ? call.input : result.text,
+      usage: toUsage(result),
+    };
+  }
+
+  try {
+    const result = await generateText({
+      model,
+      output: Output.object({
+        name: "extraction",
+        schema: jsonSchema<Record<string, unknown>>(schema),
+      }),
+      prompt,
+      providerOptions: NON_STRICT_SCHEMA,
+      system,
+    });
+    // Output is only parsed when the model finished normally.
+    const output = result.finishReason === "stop" ? result.output : undefined;
+
+    return {
+      data: isRecord(output) ? output : undefined,
+      text: result.text,
+      usage: toUsage(result),
+    };
+  } catch (error) {
+    if (NoObjectGeneratedError.isInstance(error)) {
+      return { text: error.text ?? "", usage: toUsage(error) };
+    }
+    throw error;
+  }
+};
+
+export const checkLlmHealth = (): Promise<boolean> =>
+  getLlmProvider(DEFAULT_LLM_PROVIDER).checkHealth();
+
+const ANSWER_SYSTEM_PROMPT = `You answer questions about a document using only the pages provided below.
+
+Rules:
+- Base every statement on the pages. If they do not contain the answer, say so.
+- Cite the page each statement comes from as [p. N], e.g. "The total is $120 [p. 2]."
+- Answer in the language of the question, concisely, in markdown.`;
+
+const formatContextPages = (pages: QuestionContextPage[]): string =>
+  pages
+    .map(
+      (page) => `<page number="${page.pageNumber}">\n${page.markdown}\n</page>`
+    )
+    .join("\n\n");
+
+/**
+ * Unlike `textStream`, rethrows provider errors instead of ending silently.
+ * @yields Text deltas of the stream.
+ */
+const readTextDeltas = async function* readTextDeltas(
+  fullStream: AsyncIterable<{ type: string; text?: string; error?: unknown }>
+): AsyncGenerator<string> {
+  for await (const part of fullStream) {
+    if (part.type === "text-delta" && part.text) {
+      yield part.text;
+    }
+    if (part.type === "error") {
+      throw part.error instanceof Error
+        ? part.error
+        : new Error(String(part.error));
+    }
+  }
+};
+
+const CITATION_SYSTEM_PROMPT = `You check values extracted from a document against the pages provided below.
+
+For every field, return:
+- confidence: how sure you are that the value is correct, from 0 to 1.
+- pageNumber: the page the value was read from.
+- quote: the shortest exact text from that page that supports the value, copied verbatim.
+
+Use null for pageNumber and quote when the document does not state the value.`;
+
+const CITATION_SCHEMA: Record<string, unknown> = {
+  properties: {
+    fields: {
+      items: {
+        properties: {
+          confidence: { maximum: 1, minimum: 0, type: "number" },
+          pageNumber: { type: ["integer", "null"] },
+          path: { type: "string" },
+          quote: { type: ["string", "null"] },
+        },
+        required: ["path", "confidence", "pageNumber", "quote"],
+        type: "object",
+      },
+      type: "array",
+    },
+  },
+  required: ["fields"],
+  type: "object",
+};
+
+export const llmService = {
+  answerQuestion({
+    abortSignal,
+    pages,
+    provider,
+    question,
+  }: AnswerQuestionOptions): AnswerStream {
+    assertConfigured(provider);
+    const model = provider.defaultModel;
+
+    const result = streamText({
+      abortSignal,
+      model: provider.languageModel(model),
+      prompt: `${formatContextPages(pages)}\n\nQuestion: ${question}`,
+      system: ANSWER_SYSTEM_PROMPT,
+    });
+
+    return {
+      model,
+      provider: provider.name,
+      textStream: readTextDeltas(result.fullStream),
+      usage: async () => toUsage({ usage: await result.usage }),
+    };
+  },
+
+  async citeExtraction({
+    fields,
+    model: requestedModel,
+    pages,
+    provider,
+  }: CiteExtractionOptions): Promise<CitationResult> {
+    assertConfigured(provider);
+    const model = provider.languageModel(
+      requestedModel ?? provider.defaultModel
+    );
+
+    const fieldLines = fields
+      .map((field) => JSON.stringify({ path: field.path, value: field.value }))
+      .join("\n");
+
+    const response = await generateStructured({
+      model,
+      prompt: `${formatContextPages(pages)}\n\nFields:\n${fieldLines}`,
+      provider,
+      schema: CITATION_SCHEMA,
+      system: CITATION_SYSTEM_PROMPT,
+    });
+
+    const parsedResult = response.data
+      ? { data: response.data, repairUsage: emptyUsage() }
+      : await parseJsonWithRepair<{ fields: unknown[] }>({
+          expectedShape:
+            'a JSON object with a "fields" array of { path, confidence, pageNumber, quote }',
+          model,
+          responseText: response.text,
+          schema: CITATION_SCHEMA,
+          validate: isCitationResponse,
+        });
+    const cited = isCitationResponse(parsedResult.data)
+      ? parsedResult.data.fields.filter(isCitedField)
+      : [];
+
+    return {
+      fields: cited,
+      usage: {
+        completionTokens:
+          response.usage.completionTokens +
+          parsedResult.repairUsage.completionTokens,
+        promptTokens:
+          response.usage.promptTokens + parsedResult.repairUsage.promptTokens,
+      },
+    };
+  },
+
+  async generateSchema({
+    markdown,
+    hints,
+    provider,
+  }: GenerateSchemaOptions): Promise<GeneratedSchema> {
+    assertConfigured(provider);
+    const model = provider.languageModel(provider.defaultModel);
+
+    let systemPrompt = `You are a JSON schema generator. Analyze the provided document and generate a JSON schema that can be used to extract structured data from similar documents.
+
+Return ONLY a valid JSON object with this exact structure:
+{
+  "name": "A descriptive name for this schema",
+  "description": "Description of what this schema extracts",
+  "jsonSchema": { ... the JSON Schema definition ... }
+}
+
+Do not include any markdown formatting or explanation. Just the JSON object.`;
+
+    if (hints) {
+      systemPrompt += `\n\nFocus on extracting: ${hints}`;
+    }
+
+    const result = await generateText({
+      model,
+      prompt: markdown,
+      system: systemPrompt,
+    });
+
+    const parsedResult = await parseJsonWithRepair<GeneratedSchema>({
+      expectedShape:
+        'a JSON object with keys "name" (string), "description" (string), and "jsonSchema" (object)',
+      model,
+      responseText: result.text,
+      validate: isGeneratedSchema,
+    });
+
+    return parsedResult.data;
+  },
+
+  async processExtraction({
+    chunk,
+    markdown,
+    schema,
+    hints,
+    model: requestedModel,
+    provider,
+  }: ProcessExtractionOptions): Promise<ExtractionResult> {
+    assertConfigured(provider);
+    const modelId = requestedModel ?? provider.defaultModel;
+    const model = provider.languageModel(modelId);
+
+    let systemPrompt =
+      "You are a data extraction assistant. Extract structured data from the provided markdown content.";
+
+    if (hints) {
+      systemPrompt += `\n\nFocus on extracting: ${hints}`;
+    }
+
+    if (chunk) {
+      systemPrompt += `\n\nThe content is pages ${chunk.firstPage} to ${chunk.lastPage} of a longer document. Extract only what these pages state and leave out fields they do not contain.`;
+    }
+
+    let response: StructuredResponse;
+
+    if (schema) {
+      response = await generateStructured({
+        model,
+        prompt: markdown,
+        provider,
+        schema,
+        system: systemPrompt,
+      });
+    } else {
+      const result = await generateText({
+        model,
+        prompt: markdown,
+        system: `${systemPrompt} Return ONLY valid JSON, no markdown formatting or explanation.`,
+      });
+      response = { text: result.text, usage: toUsage(result) };
+    }
+
+    const parsedResult = response.data
+      ? { data: response.data, repairUsage: emptyUsage() }
+      : await parseJsonWithRepair<Record<string, unknown>>({
+          expectedShape:
+            "a JSON object with extracted fields from the provided markdown",
+          model,
+          responseText: response.text,
+          schema,
+          validate: isRecord,
+        });
+
+    return {
+      data: parsedResult.data,
+      model: modelId,
+      provider: provider.name,
+      usage: {
+        completionTokens:
+          response.usage.completionTokens +
+          parsedResult.repairUsage.completionTokens,
+        promptTokens:
+          response.usage.promptTokens + parsedResult.repairUsage.promptTokens,
+      },
+      validationErrors: schema
+        ? validateJsonSchema(schema, parsedResult.data)
+        : null,
+    };
+  },
+};
@@ -0,0 +1,42 @@
+import { createOpenAI } from "@ai-sdk/openai";
+import { env } from "@ocrbase/env/server";
+
+import type { LlmProvider } from "./types";
+
+// Local servers (vLLM, Ollama, llama.cpp) usually accept any key.
+const client = createOpenAI({
+  apiKey: env.OPENAI_COMPATIBLE_API_KEY ?? "local",
+  baseURL: env.OPENAI_COMPATIBLE_BASE_URL,
+});
+
+const isConfigured = (): boolean =>
+  Boolean(env.OPENAI_COMPATIBLE_BASE_URL && env.OPENAI_COMPATIBLE_MODEL);
+
+const checkHealth = async (): Promise<boolean> => {
+  if (!isConfigured()) {
+    return true;
+  }
+
+  try {
+    const response = await fetch(`${env.OPENAI_COMPATIBLE_BASE_URL}/models`, {
+      headers: env.OPENAI_COMPATIBLE_API_KEY
+        ? { Authorization: `Bearer ${env.OPENAI_COMPATIBLE_API_KEY}` }
+        : {},
+    });
+    return response.ok;
+  } catch {
+    return false;
+  }
+};
+
+export const openaiCompatibleProvider: LlmProvider = {
+  checkHealth,
+  defaultModel: env.OPENAI_COMPATIBLE_MODEL ?? "",
+  isConfigured,
+  label: "OpenAI-compatible",
+  // vLLM, Ollama and llama.cpp only serve the Chat Completions API.
+  languageModel: (modelId) => client.chat(modelId),
+  name: "openai-compatible",
+  // vLLM, Ollama and llama.cpp constrain decoding to the schema.
+  structuredOutput: "json-schema",
+};
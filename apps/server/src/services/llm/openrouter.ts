@@ -0,0 +1,36 @@
+import { createOpenAI } from "@ai-sdk/openai";
+import { env } from "@ocrbase/env/server";
+
+import type { LlmProvider } from "./types";
+
+const BASE_URL = "https://openrouter.ai/api/v1";
+
+const client = createOpenAI({
+  apiKey: env.OPENROUTER_API_KEY ?? "",
+  baseURL: BASE_URL,
+});
+
+const checkHealth = async (): Promise<boolean> => {
+  if (!env.OPENROUTER_API_KEY) {
+    return true;
+  }
+
+  try {
+    const response = await fetch(`${BASE_URL}/models`, {
+      headers: { Authorization: `Bearer ${env.OPENROUTER_API_KEY}` },
+    });
+    return response.ok;
+  } catch {
+    return false;
+  }
+};
+
+export const openrouterProvider: LlmProvider = {
+  checkHealth,
+  defaultModel: env.OPENROUTER_MODEL,
+  isConfigured: () => Boolean(env.OPENROUTER_API_KEY),
+  label: "OpenRouter",
+  languageModel: (modelId) => client.chat(modelId),
+  name: "openrouter",
+  structuredOutput: "json-schema",
+};
@@ -0,0 +1,31 @@
+import type { LanguageModel } from "ai";
+
+export const LLM_PROVIDER_NAMES = [
+  "openrouter",
+  "openai-compatible",
+  "anthropic",
+] as const;
+
+export type LlmProviderName = (typeof LLM_PROVIDER_NAMES)[number];
+
+/**
+ * How a provider returns schema-shaped JSON natively: through a JSON Schema
+ * response format, or as the arguments of a forced tool call.
+ */
+export type StructuredOutputMode = "json-schema" | "tool";
+
+export interface LlmProvider {
+  name: LlmProviderName;
+  label: string;
+  /** Model used when a job does not ask for one. */
+  defaultModel: string;
+  /** Whether the provider has the configuration it needs to accept jobs. */
+  isConfigured: () => boolean;
+  languageModel: (modelId: string) => LanguageModel;
+  structuredOutput: StructuredOutputMode;
+  checkHealth: () => Promise<boolean>;
+}
+
+export const isLlmProviderName = (value: unknown): value is LlmProviderName =>
+  typeof value === "string" &&
+  (LLM_PROVIDER_NAMES as readonly string[]).includes(value);
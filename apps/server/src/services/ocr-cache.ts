@@ -0,0 +1,107 @@
+import type { JobPage } from "@ocrbase/db/schema/job-pages";
+
+import { db } from "@ocrbase/db";
+import {
+  ocrCache,
+  type CachedOcrPage,
+  type OcrCacheEntry,
+} from "@ocrbase/db/schema/ocr-cache";
+import { and, eq, inArray } from "drizzle-orm";
+import { createHash } from "node:crypto";
+
+export interface OcrCacheKey {
+  organizationId: string;
+  fileHash: string;
+  ocrEngine: string;
+  pageRange: string | null;
+}
+
+export interface CachedOcrResult {
+  markdown: string;
+  pageCount: number;
+  pages: JobPage[];
+}
+
+export const hashDocument = (buffer: Buffer): string =>
+  createHash("sha256").update(buffer).digest("hex");
+
+const toCachedPage = (page: JobPage): CachedOcrPage => ({
+  height: page.height,
+  layout: page.layout,
+  markdown: page.markdown,
+  pageNumber: page.pageNumber,
+  processingTimeMs: page.processingTimeMs,
+  width: page.width,
+});
+
+export const findCachedOcr = async (
+  key: OcrCacheKey
+): Promise<OcrCacheEntry | null> => {
+  const entry = await db.query.ocrCache.findFirst({
+    where: and(
+      eq(ocrCache.organizationId, key.organizationId),
+      eq(ocrCache.fileHash, key.fileHash),
+      eq(ocrCache.ocrEngine, key.ocrEngine),
+      eq(ocrCache.pageRange, key.pageRange ?? "")
+    ),
+  });
+
+  return entry ?? null;
+};
+
+/**
+ * Stores the OCR output of a job, replacing any earlier entry for the same
+ * document and options.
+ */
+export const saveCachedOcr = async (
+  key: OcrCacheKey,
+  result: CachedOcrResult
+): Promise<void> => {
+  const values = {
+    markdown: result.markdown,
+    pageCount: result.pageCount,
+    pages: result.pages.map(toCachedPage),
+  };
+
+  await db
+    .insert(ocrCache)
+    .values({
+      fileHash: key.fileHash,
+      ocrEngine: key.ocrEngine,
+      organizationId: key.organizationId,
+      pageRange: key.pageRange ?? "",
+      ...values,
+    })
+    .onConflictDoUpdate({
+      set: values,
+      target: [
+        ocrCache.organizationId,
+        ocrCache.fileHash,
+        ocrCache.ocrEngine,
+        ocrCache.pageRange,
+      ],
+    });
+};
+
+/**
+ * Deletes the cached OCR output of documents whose job or file was deleted,
+ * so the text does not outlive them.
+ */
+export const deleteCachedOcr = async (
+  organizationId: string,
+  fileHashes: (string | null)[]
+): Promise<void> => {
+  const hashes = fileHashes.filter((hash): hash is string => hash !== null);
+  if (hashes.length === 0) {
+    return;
+  }
+
+  await db
+    .delete(ocrCache)
+    .where(
+      and(
+        eq(ocrCache.organizationId, organizationId),
+        inArray(ocrCache.fileHash, hashes)
+      )
+    );
+};
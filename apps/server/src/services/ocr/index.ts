@@ -0,0 +1,40 @@
+import { env } from "@ocrbase/env/server";
+
+import type { OcrEngine, OcrEngineName, ParseResult } from "./types";
+
+import { openaiVisionEngine } from "./openai-vision";
+import { paddleocrVlEngine } from "./paddleocr-vl";
+import { tesseractEngine } from "./tesseract";
+
+export {
+  OCR_ENGINE_NAMES,
+  PAGE_SEPARATOR,
+  isOcrEngineName,
+  joinPages,
+  type OcrEngine,
+  type OcrEngineName,
+  type LayoutBlock,
+  type OcrPage,
+  type ParseResult,
+} from "./types";
+
+const engines: Record<OcrEngineName, OcrEngine> = {
+  "openai-vision": openaiVisionEngine,
+  "paddleocr-vl": paddleocrVlEngine,
+  tesseract: tesseractEngine,
+};
+
+export const DEFAULT_OCR_ENGINE: OcrEngineName = env.OCR_DEFAULT_ENGINE;
+
+export const getOcrEngine = (name: OcrEngineName): OcrEngine => engines[name];
+
+export const listOcrEngines = (): OcrEngine[] => Object.values(engines);
+
+export const parseDocument = (
+  buffer: Buffer,
+  mimeType: string,
+  engineName: OcrEngineName = DEFAULT_OCR_ENGINE
+): Promise<ParseResult> => getOcrEngine(engineName).parse(buffer, mimeType);
+
+export const checkOcrHealth = (): Promise<boolean> =>
+  getOcrEngine(DEFAULT_OCR_ENGINE).checkHealth();
@@ -0,0 +1,92 @@
+import { createOpenAI } from "@ai-sdk/openai";
+import { env } from "@ocrbase/env/server";
+import { generateText } from "ai";
+
+import type { OcrEngine, OcrPage, ParseResult } from "./types";
+
+import { joinPages } from "./types";
+
+const PAGE_BREAK_MARKER = "<!-- pagebreak -->";
+
+const SYSTEM_PROMPT = `You are an OCR engine. Transcribe the provided document into clean GitHub-flavored markdown.
+
+Rules:
+- Preserve headings, lists, tables and reading order.
+- Do not summarize, translate or add commentary.
+- Output ONLY the markdown.
+- For multi-page documents, put a line containing only ${PAGE_BREAK_MARKER} between pages.`;
+
+const visionProvider = createOpenAI({
+  apiKey: env.OCR_VISION_API_KEY ?? "",
+  baseURL: env.OCR_VISION_BASE_URL,
+});
+
+const parse = async (
+  buffer: Buffer,
+  mimeType: string
+): Promise<ParseResult> => {
+  if (!env.OCR_VISION_API_KEY) {
+    throw new Error("OCR_VISION_API_KEY is not configured");
+  }
+
+  const result = await generateText({
+    messages: [
+      {
+        content: [
+          { text: "Transcribe this document.", type: "text" },
+          { data: buffer, mediaType: mimeType, type: "file" },
+        ],
+        role: "user",
+      },
+    ],
+    // Chat completions is the lowest common denominator for
+    // OpenAI-compatible servers (vLLM, Ollama, llama.cpp).
+    model: visionProvider.chat(env.OCR_VISION_MODEL),
+    system: SYSTEM_PROMPT,
+  });
+
+  const pages: OcrPage[] = result.text
+    .split(PAGE_BREAK_MARKER)
+    .map((page) => page.trim())
+    .filter((page) => page.length > 0)
+    .map((markdown, index) => ({
+      height: null,
+      layout: null,
+      markdown,
+      pageNumber: index + 1,
+      width: null,
+    }));
+
+  return {
+    markdown: joinPages(pages),
+    pageCount: Math.max(pages.length, 1),
+    pages,
+  };
+};
+
+const checkHealth = async (): Promise<boolean> => {
+  if (!env.OCR_VISION_API_KEY) {
+    return false;
+  }
+
+  try {
+    const response = await fetch(
+      `${env.OCR_VISION_BASE_URL.replace(/\/+$/, "")}/models`,
+      {
+        headers: { Authorization: `Bearer ${env.OCR_VISION_API_KEY}` },
+      }
+    );
+    return response.ok;
+  } catch {
+    return false;
+  }
+};
+
+export const openaiVisionEngine: OcrEngine = {
+  checkHealth,
+  isConfigured: () => Boolean(env.OCR_VISION_API_KEY),
+  label: `Vision LLM (${env.OCR_VISION_MODEL})`,
+  model: env.OCR_VISION_MODEL,
+  name: "openai-vision",
+  parse,
+};
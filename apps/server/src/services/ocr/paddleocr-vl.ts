@@ -0,0 +1,169 @@
+import { env } from "@ocrbase/env/server";
+import PaddleocrVlClient from "paddleocr-vl";
+
+import type { LayoutBlock, OcrEngine, OcrPage, ParseResult } from "./types";
+
+import { joinPages } from "./types";
+
+const ocrClient = new PaddleocrVlClient({
+  apiKey: env.PADDLEOCR_VL_API_KEY,
+  baseURL: env.PADDLE_OCR_URL,
+  maxRetries: env.PADDLE_OCR_MAX_RETRIES,
+  timeout: env.PADDLE_OCR_TIMEOUT_MS,
+});
+
+const getFileType = (mimeType: string): 0 | 1 => {
+  if (mimeType === "application/pdf") {
+    return 0 as const;
+  }
+  return 1 as const;
+};
+
+const readDimension = (source: unknown, key: "height" | "width") => {
+  if (typeof source !== "object" || source === null) {
+    return null;
+  }
+  const value = (source as Record<string, unknown>)[key];
+  return typeof value === "number" && Number.isFinite(value)
+    ? Math.round(value)
+    : null;
+};
+
+const toLayoutBlockType = (label: string): LayoutBlock["type"] => {
+  if (label.includes("title")) {
+    return "title";
+  }
+  if (label.includes("table")) {
+    return "table";
+  }
+  if (label.includes("formula")) {
+    return "formula";
+  }
+  if (
+    ["chart", "figure", "image", "seal"].some((kind) => label.includes(kind))
+  ) {
+    return "figure";
+  }
+  return "text";
+};
+
+const readBbox = (value: unknown): LayoutBlock["bbox"] | null => {
+  if (
+    !Array.isArray(value) ||
+    value.length !== 4 ||
+    !value.every((n) => typeof n === "number" && Number.isFinite(n))
+  ) {
+    return null;
+  }
+  return value as LayoutBlock["bbox"];
+};
+
+/**
+ * Reads layout regions from the pruned PaddleOCR-VL result. The server
+ * returns them as `parsing_res_list` entries with `block_*` keys.
+ */
+const readLayout = (prunedResult: unknown): LayoutBlock[] | null => {
+  if (typeof prunedResult !== "object" || prunedResult === null) {
+    return null;
+  }
+  const { parsing_res_list: regions } = prunedResult as {
+    parsing_res_list?: unknown;
+  };
+  if (!Array.isArray(regions)) {
+    return null;
+  }
+
+  const ranked: { block: LayoutBlock; rank: number }[] = [];
+  for (const region of regions) {
+    if (typeof region !== "object" || region === null) {
+      continue;
+    }
+    const record = region as Record<string, unknown>;
+    const bbox = readBbox(record.block_bbox);
+    if (!bbox) {
+      continue;
+    }
+    const label =
+      typeof record.block_label === "string" ? record.block_label : "text";
+    // Headers, footers and page numbers carry no block_order; they go after
+    // the body. Equal ranks keep the order the server listed them in.
+    const rank =
+      typeof record.block_order === "number"
+        ? record.block_order
+        : Number.MAX_SAFE_INTEGER;
+    const position = ranked.findIndex((entry) => entry.rank > rank);
+    ranked.splice(position === -1 ? ranked.length : position, 0, {
+      block: {
+        bbox,
+        content:
+          typeof record.block_content === "string" ? record.block_content : "",
+        label,
+        order: 0,
+        type: toLayoutBlockType(label),
+      },
+      rank,
+    });
+  }
+
+  return ranked.map(({ block }, index) => ({ ...block, order: index }));
+};
+
+const parse = async (
+  buffer: Buffer,
+  mimeType: string
+): Promise<ParseResult> => {
+  const base64 = buffer.toString("base64");
+  const fileType = getFileType(mimeType);
+
+  const response = await ocrClient.layoutParsing.infer({
+    file: base64,
+    fileType,
+    // Preserve previous in-house defaults (excluding maxNewTokens, which should
+    // remain server-side configurable).
+    prettifyMarkdown: true,
+    useLayoutDetection: true,
+  });
+
+  const pages: OcrPage[] = response.result.layoutParsingResults.map(
+    (r, index) => {
+      // Page dimensions are only reported inside the pruned layout result.
+      const { prunedResult } = r as { prunedResult?: unknown };
+      return {
+        height: readDimension(prunedResult, "height"),
+        layout: readLayout(prunedResult),
+        markdown: r.markdown.text,
+        pageNumber: index + 1,
+        width: readDimension(prunedResult, "width"),
+      };
+    }
+  );
+  const pageCount =
+    typeof response.result.dataInfo === "object" &&
+    response.result.dataInfo !== null &&
+    "numPages" in response.result.dataInfo &&
+    typeof (response.result.dataInfo as { numPages: unknown }).numPages ===
+      "number"
+      ? (response.result.dataInfo as { numPages: number }).numPages
+      : pages.length || 1;
+
+  return { markdown: joinPages(pages), pageCount, pages };
+};
+
+const checkHealth = async (): Promise<boolean> => {
+  try {
+    const response = await ocrClient.health.check();
+    return response.errorCode === 0;
+  } catch {
+    return false;
+  }
+};
+
+export const paddleocrVlEngine: OcrEngine = {
+  checkHealth,
+  // PADDLE_OCR_URL always has a default, so the engine is always selectable.
+  isConfigured: () => true,
+  label: "PaddleOCR-VL-1.5 0.9B",
+  model: "paddleocr-vl-1.5",
+  name: "paddleocr-vl",
+  parse,
+};
@@ -0,0 +1,97 @@
+import { env } from "@ocrbase/env/server";
+
+import type { OcrEngine, ParseResult } from "./types";
+
+import { joinPages } from "./types";
+
+const TESSERACT_LANGUAGES = ["eng"];
+
+interface TesseractResponse {
+  data?: {
+    exit?: { code?: number };
+    stderr?: string;
+    stdout?: string;
+  };
+}
+
+const getBaseUrl = (): string => {
+  if (!env.TESSERACT_URL) {
+    throw new Error("TESSERACT_URL is not configured");
+  }
+  return env.TESSERACT_URL.replace(/\/+$/, "");
+};
+
+const parse = async (
+  buffer: Buffer,
+  mimeType: string
+): Promise<ParseResult> => {
+  if (mimeType === "application/pdf") {
+    throw new Error("Tesseract engine does not support PDF input");
+  }
+
+  const start = Date.now();
+  const formData = new FormData();
+  formData.append(
+    "options",
+    JSON.stringify({ languages: TESSERACT_LANGUAGES })
+  );
+  formData.append(
+    "file",
+    new Blob([new Uint8Array(buffer)], { type: mimeType }),
+    "document"
+  );
+
+  const response = await fetch(`${getBaseUrl()}/tesseract`, {
+    body: formData,
+    method: "POST",
+  });
+
+  if (!response.ok) {
+    throw new Error(`Tesseract request failed: ${response.status}`);
+  }
+
+  const payload = (await response.json()) as TesseractResponse;
+  const exitCode = payload.data?.exit?.code ?? 0;
+
+  if (exitCode !== 0) {
+    throw new Error(
+      `Tesseract exited with code ${exitCode}: ${payload.data?.stderr ?? ""}`
+    );
+  }
+
+  // Tesseract only understands single images, so every result is one page.
+  const pages = [
+    {
+      height: null,
+      layout: null,
+      markdown: (payload.data?.stdout ?? "").trim(),
+      pageNumber: 1,
+      processingTimeMs: Date.now() - start,
+      width: null,
+    },
+  ];
+
+  return { markdown: joinPages(pages), pageCount: 1, pages };
+};
+
+const checkHealth = async (): Promise<boolean> => {
+  if (!env.TESSERACT_URL) {
+    return false;
+  }
+
+  try {
+    const response = await fetch(`${getBaseUrl()}/.well-known/health/live`);
+    return response.ok;
+  } catch {
+    return false;
+  }
+};
+
+export const tesseractEngine: OcrEngine = {
+  checkHealth,
+  isConfigured: () => Boolean(env.TESSERACT_URL),
+  label: "Tesseract",
+  model: "tesseract",
+  name: "tesseract",
+  parse,
+};
@@ -0,0 +1,53 @@
+import type { LayoutBlock } from "@ocrbase/db/schema/job-pages";
+
+export const OCR_ENGINE_NAMES = [
+  "paddleocr-vl",
+  "tesseract",
+  "openai-vision",
+] as const;
+
+export type OcrEngineName = (typeof OCR_ENGINE_NAMES)[number];
+
+/**
+ * Separator used when pages are joined into a job's `markdownResult`.
+ * Page boundaries are stored separately in `job_pages`, so the joined
+ * markdown is for display only and should never be split again.
+ */
+export const PAGE_SEPARATOR = "\n\n---\n\n";
+
+export type { LayoutBlock };
+
+export interface OcrPage {
+  pageNumber: number;
+  markdown: string;
+  width: number | null;
+  height: number | null;
+  /** Layout regions in reading order; `null` when the engine has no layout analysis. */
+  layout: LayoutBlock[] | null;
+  /** Set by engines that process pages individually. */
+  processingTimeMs?: number;
+}
+
+export interface ParseResult {
+  markdown: string;
+  pageCount: number;
+  pages: OcrPage[];
+}
+
+export interface OcrEngine {
+  name: OcrEngineName;
+  label: string;
+  /** Model identifier reported to clients (e.g. in SDK metadata). */
+  model: string;
+  /** Whether the engine has the configuration it needs to accept jobs. */
+  isConfigured: () => boolean;
+  parse: (buffer: Buffer, mimeType: string) => Promise<ParseResult>;
+  checkHealth: () => Promise<boolean>;
+}
+
+export const isOcrEngineName = (value: unknown): value is OcrEngineName =>
+  typeof value === "string" &&
+  (OCR_ENGINE_NAMES as readonly string[]).includes(value);
+
+export const joinPages = (pages: OcrPage[]): string =>
+  pages.map((page) => page.markdown).join(PAGE_SEPARATOR);
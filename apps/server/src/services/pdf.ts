@@ -0,0 +1,30 @@
+import { PDFDocument } from "pdf-lib";
+
+const loadPdf = (buffer: Buffer): Promise<PDFDocument> =>
+  PDFDocument.load(buffer, { ignoreEncryption: true });
+
+export const getPdfPageCount = async (buffer: Buffer): Promise<number> => {
+  const pdf = await loadPdf(buffer);
+  return pdf.getPageCount();
+};
+
+/**
+ * Builds a new PDF holding only the given 1-based pages, in the given order.
+ */
+export const extractPdfPages = async (
+  buffer: Buffer,
+  pageNumbers: number[]
+): Promise<Buffer> => {
+  const source = await loadPdf(buffer);
+  const target = await PDFDocument.create();
+
+  const copied = await target.copyPages(
+    source,
+    pageNumbers.map((pageNumber) => pageNumber - 1)
+  );
+  for (const page of copied) {
+    target.addPage(page);
+  }
+
+  return Buffer.from(await target.save());
+};
@@ -15,6 +15,24 @@ export interface JobData {
   userId: string;
 }
 
+export interface WebhookDeliveryData {
+  deliveryId: string;
+}
+
+export interface JobCallbackData {
+  jobId: string;
+}
+
+export type WebhookQueueData = WebhookDeliveryData | JobCallbackData;
+
+export const MAINTENANCE_QUEUE = "maintenance";
+export const RETENTION_PURGE_JOB = "purge-expired-jobs";
+export const IDEMPOTENCY_PURGE_JOB = "purge-expired-idempotency-keys";
+export const UNDELIVERED_PURGE_JOB = "purge-undelivered-results";
+const RETENTION_PURGE_PATTERN = "0 * * * *";
+const IDEMPOTENCY_PURGE_PATTERN = "30 * * * *";
+const UNDELIVERED_PURGE_PATTERN = "*/10 * * * *";
+
 export const getRedisConnection = (): ConnectionOptions | null => {
   if (!env.REDIS_URL) {
     return null;
@@ -59,6 +77,61 @@ const getJobQueue = (): Queue<JobData> | null => {
   return _jobQueue;
 };
 
+let _webhookQueue: Queue<WebhookQueueData> | null = null;
+
+const getWebhookQueue = (): Queue<WebhookQueueData> | null => {
+  if (_webhookQueue) {
+    return _webhookQueue;
+  }
+  const connection = getRedisConnection();
+  if (!connection) {
+    return null;
+  }
+  _webhookQueue = new Queue<WebhookQueueData>("webhook-deliveries", {
+    connection,
+    defaultJobOptions: {
+      attempts: env.WEBHOOK_ATTEMPTS,
+      backoff: {
+        delay: env.WEBHOOK_BACKOFF_DELAY_MS,
+        type: "exponential",
+      },
+      removeOnComplete: {
+        age: DEFAULT_JOB_RETENTION_COMPLETE,
+        count: MAX_COMPLETED_JOBS,
+      },
+      removeOnFail: {
+        age: DEFAULT_JOB_RETENTION_FAIL,
+      },
+    },
+  });
+  return _webhookQueue;
+};
+
+let _maintenanceQueue: Queue | null = null;
+
+const getMaintenanceQueue = (): Queue | null => {
+  if (_maintenanceQueue) {
+    return _maintenanceQueue;
+  }
+  const connection = getRedisConnection();
+  if (!connection) {
+    return null;
+  }
+  _maintenanceQueue = new Queue(MAINTENANCE_QUEUE, {
+    connection,
+    defaultJobOptions: {
+      removeOnComplete: {
+        age: DEFAULT_JOB_RETENTION_COMPLETE,
+        count: MAX_COMPLETED_JOBS,
+      },
+      removeOnFail: {
+        age: DEFAULT_JOB_RETENTION_FAIL,
+      },
+    },
+  });
+  return _maintenanceQueue;
+};
+
 export const addJob = async (data: JobData): Promise<string> => {
   const queue = getJobQueue();
   if (!queue) {
@@ -70,6 +143,136 @@ export const addJob = async (data: JobData): Promise<string> => {
   return job.id ?? data.jobId;
 };
 
+/**
+ * Drops a job that no worker has picked up yet. Returns false when it is
+ * already running (or gone); running jobs stop at the worker's next check.
+ */
+export const removeQueuedJob = async (jobId: string): Promise<boolean> => {
+  const queue = getJobQueue();
+  if (!queue) {
+    return false;
+  }
+  const job = await queue.getJob(jobId);
+  if (!job) {
+    return false;
+  }
+  const state = await job.getState();
+  if (state !== "waiting" && state !== "delayed" && state !== "prioritized") {
+    return false;
+  }
+  await job.remove();
+  return true;
+};
+
+/**
+ * Whether a worker still holds the job, e.g. a cancelled run that has not
+ * reached its next cancellation check yet.
+ */
+export const isJobActive = async (jobId: string): Promise<boolean> => {
+  const job = await getJobQueue()?.getJob(jobId);
+  return (await job?.getState()) === "active";
+};
+
+/**
+ * Queues a job that has run before. The previous run's BullMQ job and
+ * callback are kept for a while after they finish and would otherwise block
+ * the same ids from being queued again.
+ */
+export const requeueJob = async (data: JobData): Promise<void> => {
+  const queue = getJobQueue();
+  if (!queue) {
+    throw new Error("Redis not configured");
+  }
+
+  const previous = await queue.getJob(data.jobId);
+  await previous?.remove();
+
+  const previousCallback = await getWebhookQueue()?.getJob(
+    `callback-${data.jobId}`
+  );
+  await previousCallback?.remove();
+
+  await queue.add("process-document", data, { jobId: data.jobId });
+};
+
+/**
+ * Queues many jobs in one round trip, e.g. when a batch fans out.
+ */
+export const addJobs = async (data: JobData[]): Promise<void> => {
+  const queue = getJobQueue();
+  if (!queue) {
+    throw new Error("Redis not configured");
+  }
+  await queue.addBulk(
+    data.map((item) => ({
+      data: item,
+      name: "process-document",
+      opts: { jobId: item.jobId },
+    }))
+  );
+};
+
+/**
+ * Queues a webhook delivery. Redeliveries reuse the delivery id, so their
+ * BullMQ job id gets a timestamp suffix to avoid colliding with earlier runs.
+ */
+export const addWebhookDelivery = async (
+  data: WebhookDeliveryData,
+  options: { redelivery?: boolean } = {}
+): Promise<void> => {
+  const queue = getWebhookQueue();
+  if (!queue) {
+    throw new Error("Redis not configured");
+  }
+  await queue.add("deliver-webhook", data, {
+    jobId: options.redelivery
+      ? `${data.deliveryId}-${Date.now()}`
+      : data.deliveryId,
+  });
+};
+
+/**
+ * Queues the one-off callback of a finished job. Callbacks share the webhook
+ * queue and its retry policy.
+ */
+export const addJobCallback = async (data: JobCallbackData): Promise<void> => {
+  const queue = getWebhookQueue();
+  if (!queue) {
+    throw new Error("Redis not configured");
+  }
+  await queue.add("deliver-callback", data, {
+    jobId: `callback-${data.jobId}`,
+  });
+};
+
+/**
+ * Registers the hourly retention and idempotency key purges, and the
+ * ten-minute purge of uncollected zero-retention results. Upserting is
+ * idempotent, so every worker can call this on startup without creating
+ * duplicate schedules.
+ */
+export const scheduleMaintenance = async (): Promise<void> => {
+  const queue = getMaintenanceQueue();
+  if (!queue) {
+    throw new Error("Redis not configured");
+  }
+  await queue.upsertJobScheduler(
+    RETENTION_PURGE_JOB,
+    { pattern: RETENTION_PURGE_PATTERN },
+    { name: RETENTION_PURGE_JOB }
+  );
+  await queue.upsertJobScheduler(
+    IDEMPOTENCY_PURGE_JOB,
+    { pattern: IDEMPOTENCY_PURGE_PATTERN },
+    { name: IDEMPOTENCY_PURGE_JOB }
+  );
+  await queue.upsertJobScheduler(
+    UNDELIVERED_PURGE_JOB,
+    { pattern: UNDELIVERED_PURGE_PATTERN },
+    { name: UNDELIVERED_PURGE_JOB }
+  );
+};
+
 export const checkQueueHealth = async (): Promise<boolean> => {
   try {
     const queue = getJobQueue();
@@ -86,6 +289,9 @@ export const checkQueueHealth = async (): Promise<boolean> => {
 // For bull-board dashboard - returns the queue instance (or null if Redis not configured)
 export const getQueue = (): Queue<JobData> | null => getJobQueue();
 
+export const getWebhookDeliveryQueue = (): Queue<WebhookQueueData> | null =>
+  getWebhookQueue();
+
 // For worker process - will throw if Redis not configured
 export const getWorkerConnection = (): ConnectionOptions => {
   const conn = getRedisConnection();
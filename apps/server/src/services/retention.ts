@@ -0,0 +1,315 @@
+import type { JobStatus, RetentionMode } from "@ocrbase/db/lib/enums";
+
+import { db } from "@ocrbase/db";
+import { apiKeys } from "@ocrbase/db/schema/api-keys";
+import { documentChunks } from "@ocrbase/db/schema/document-chunks";
+import { jobPages } from "@ocrbase/db/schema/job-pages";
+import { jobQuestions } from "@ocrbase/db/schema/job-questions";
+import { jobs, type Job } from "@ocrbase/db/schema/jobs";
+import { ocrCache } from "@ocrbase/db/schema/ocr-cache";
+import { organizationSettings } from "@ocrbase/db/schema/organization-settings";
+import { env } from "@ocrbase/env/server";
+import { and, eq, inArray, isNotNull, isNull, lt, or } from "drizzle-orm";
+
+import { deleteCachedOcr } from "./ocr-cache";
+import { StorageService } from "./storage";
+
+const DAY_MS = 86_400_000;
+const MINUTE_MS = 60_000;
+const PURGE_BATCH_SIZE = 500;
+// Files and results of running jobs are still needed.
+const FINISHED_STATUSES: JobStatus[] = ["completed", "failed", "cancelled"];
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+export interface RetentionPurgeSummary {
+  organizations: number;
+  filesPurged: number;
+  filesFailed: number;
+  resultsPurged: number;
+}
+
+const retentionCutoff = (now: Date, days: number): Date =>
+  new Date(now.getTime() - days * DAY_MS);
+
+/** Deletes the results of jobs and everything derived from them. */
+const clearJobResults = async (
+  tx: Transaction,
+  jobIds: string[],
+  purgedAt: Date
+): Promise<void> => {
+  await tx.delete(jobPages).where(inArray(jobPages.jobId, jobIds));
+  await tx.delete(documentChunks).where(inArray(documentChunks.jobId, jobIds));
+  await tx.delete(jobQuestions).where(inArray(jobQuestions.jobId, jobIds));
+  await tx
+    .update(jobs)
+    .set({
+      jsonResult: null,
+      jsonResultMeta: null,
+      markdownResult: null,
+      resultsPurgedAt: purgedAt,
+      validationErrors: null,
+    })
+    .where(inArray(jobs.id, jobIds));
+};
+
+/**
+ * Picks the retention of a new job. A zero-retention API key applies to
+ * every job it creates, whatever the request asks for.
+ */
+export const resolveRetention = async (
+  apiKeyId: string | undefined,
+  requested?: RetentionMode
+): Promise<RetentionMode> => {
+  if (requested === "none" || !apiKeyId) {
+    return requested ?? "standard";
+  }
+
+  const key = await db.query.apiKeys.findFirst({
+    columns: { retention: true },
+    where: eq(apiKeys.id, apiKeyId),
+  });
+
+  return key?.retention === "none" ? "none" : (requested ?? "standard");
+};
+
+/**
+ * Hides the results of a zero-retention job from responses that must not
+ * count as their one delivery, such as listings and callbacks.
+ */
+export const withholdResults = <
+  T extends Pick<
+    Job,
+    "jsonResult" | "jsonResultMeta" | "markdownResult" | "retention"
+  >,
+>(
+  job: T
+): T =>
+  job.retention === "none"
+    ? { ...job, jsonResult: null, jsonResultMeta: null, markdownResult: null }
+    : job;
+
+/**
+ * Hands out the results of a completed zero-retention job exactly once: the
+ * first caller gets the job with its results, which are wiped in the same
+ * transaction. Later callers, and jobs without results, get null.
+ */
+export const takeJobResults = (jobId: string): Promise<Job | null> =>
+  db.transaction(async (tx) => {
+    const [job] = await tx
+      .select()
+      .from(jobs)
+      .where(
+        and(
+          eq(jobs.id, jobId),
+          eq(jobs.status, "completed"),
+          isNull(jobs.resultsPurgedAt)
+        )
+      )
+      .for("update");
+
+    if (!job) {
+      return null;
+    }
+
+    const purgedAt = new Date();
+    await clearJobResults(tx, [jobId], purgedAt);
+    return { ...job, resultsPurgedAt: purgedAt };
+  });
+
+/** Deletes a job's stored source file once it is no longer needed. */
+export const discardJobFile = async (
+  job: Pick<Job, "fileKey" | "id">
+): Promise<void> => {
+  if (!job.fileKey) {
+    return;
+  }
+
+  await StorageService.deleteFile(job.fileKey);
+  await db
+    .update(jobs)
+    .set({ fileKey: null, filePurgedAt: new Date() })
+    .where(eq(jobs.id, job.id));
+};
+
+/**
+ * Deletes the stored source files of jobs older than the cutoff, along with
+ * their cached OCR output. A file that fails to delete keeps its key so the
+ * next run tries again.
+ */
+const purgeFiles = async (
+  organizationId: string,
+  cutoff: Date
+): Promise<{ purged: number; failed: number }> => {
+  const expired = await db
+    .select({ fileHash: jobs.fileHash, fileKey: jobs.fileKey, id: jobs.id })
+    .from(jobs)
+    .where(
+      and(
+        eq(jobs.organizationId, organizationId),
+        isNotNull(jobs.fileKey),
+        inArray(jobs.status, FINISHED_STATUSES),
+        lt(jobs.createdAt, cutoff)
+      )
+    )
+    .limit(PURGE_BATCH_SIZE);
+
+  const purgedIds: string[] = [];
+  const purgedHashes: (string | null)[] = [];
+
+  for (const job of expired) {
+    try {
+      await StorageService.deleteFile(job.fileKey ?? "");
+      purgedIds.push(job.id);
+      purgedHashes.push(job.fileHash);
+    } catch {
+      // Retried on the next run
+    }
+  }
+
+  if (purgedIds.length > 0) {
+    await db
+      .update(jobs)
+      .set({ fileKey: null, filePurgedAt: new Date() })
+      .where(inArray(jobs.id, purgedIds));
+    await deleteCachedOcr(organizationId, purgedHashes);
+  }
+
+  return {
+    failed: expired.length - purgedIds.length,
+    purged: purgedIds.length,
+  };
+};
+
+/**
+ * Clears the results of jobs older than the cutoff, along with everything
+ * derived from them: pages, search chunks, Q&A history and cached OCR output,
+ * both of the expired documents and any other entry older than the cutoff.
+ * Job rows and usage events stay for billing.
+ */
+const purgeResults = async (
+  organizationId: string,
+  cutoff: Date
+): Promise<number> => {
+  const expired = await db
+    .select({ fileHash: jobs.fileHash, id: jobs.id })
+    .from(jobs)
+    .where(
+      and(
+        eq(jobs.organizationId, organizationId),
+        isNull(jobs.resultsPurgedAt),
+        inArray(jobs.status, FINISHED_STATUSES),
+        lt(jobs.createdAt, cutoff)
+      )
+    )
+    .limit(PURGE_BATCH_SIZE);
+
+  const jobIds = expired.map((job) => job.id);
+  const fileHashes = expired.flatMap((job) =>
+    job.fileHash ? [job.fileHash] : []
+  );
+
+  await db.transaction(async (tx) => {
+    if (jobIds.length > 0) {
+      await clearJobResults(tx, jobIds, new Date());
+    }
+
+    await tx
+      .delete(ocrCache)
+      .where(
+        and(
+          eq(ocrCache.organizationId, organizationId),
+          fileHashes.length > 0
+            ? or(
+                lt(ocrCache.updatedAt, cutoff),
+                inArray(ocrCache.fileHash, fileHashes)
+              )
+            : lt(ocrCache.updatedAt, cutoff)
+        )
+      );
+  });
+
+  return jobIds.length;
+};
+
+/**
+ * Applies every organization's retention settings once. Each organization is
+ * purged in batches, so a large backlog is worked off over several runs.
+ */
+export const purgeExpiredJobs = async (
+  now = new Date()
+): Promise<RetentionPurgeSummary> => {
+  const policies = await db
+    .select({
+      fileRetentionDays: organizationSettings.fileRetentionDays,
+      organizationId: organizationSettings.organizationId,
+      resultRetentionDays: organizationSettings.resultRetentionDays,
+    })
+    .from(organizationSettings)
+    .where(
+      or(
+        isNotNull(organizationSettings.fileRetentionDays),
+        isNotNull(organizationSettings.resultRetentionDays)
+      )
+    );
+
+  const summary: RetentionPurgeSummary = {
+    filesFailed: 0,
+    filesPurged: 0,
+    organizations: policies.length,
+    resultsPurged: 0,
+  };
+
+  for (const policy of policies) {
+    if (policy.fileRetentionDays) {
+      const files = await purgeFiles(
+        policy.organizationId,
+        retentionCutoff(now, policy.fileRetentionDays)
+      );
+      summary.filesPurged += files.purged;
+      summary.filesFailed += files.failed;
+    }
+
+    if (policy.resultRetentionDays) {
+      summary.resultsPurged += await purgeResults(
+        policy.organizationId,
+        retentionCutoff(now, policy.resultRetentionDays)
+      );
+    }
+  }
+
+  return summary;
+};
+
+/**
+ * Clears the results of finished zero-retention jobs that nobody collected
+ * within `ZERO_RETENTION_TTL_MINUTES`, so they are not kept indefinitely.
+ */
+export const purgeUndeliveredResults = async (
+  now = new Date()
+): Promise<number> => {
+  const cutoff = new Date(
+    now.getTime() - env.ZERO_RETENTION_TTL_MINUTES * MINUTE_MS
+  );
+
+  const undelivered = await db
+    .select({ id: jobs.id })
+    .from(jobs)
+    .where(
+      and(
+        eq(jobs.retention, "none"),
+        isNull(jobs.resultsPurgedAt),
+        inArray(jobs.status, FINISHED_STATUSES),
+        lt(jobs.updatedAt, cutoff)
+      )
+    )
+    .limit(PURGE_BATCH_SIZE);
+
+  const jobIds = undelivered.map((job) => job.id);
+
+  if (jobIds.length > 0) {
+    await db.transaction((tx) => clearJobResults(tx, jobIds, new Date()));
+  }
+
+  return jobIds.length;
+};
@@ -1,4 +1,5 @@
 import {
+  CopyObjectCommand,
   DeleteObjectCommand,
   GetObjectCommand,
   HeadBucketCommand,
@@ -34,6 +35,15 @@ const s3Client = new S3Client({
 });
 
 export const StorageService = {
+  async copyFile(sourceKey: string, targetKey: string): Promise<void> {
+    const command = new CopyObjectCommand({
+      Bucket: env.S3_BUCKET,
+      CopySource: encodeURI(`${env.S3_BUCKET}/${sourceKey}`),
+      Key: targetKey,
+    });
+    await s3Client.send(command);
+  },
+
   async deleteFile(key: string): Promise<void> {
     const command = new DeleteObjectCommand({
       Bucket: env.S3_BUCKET,
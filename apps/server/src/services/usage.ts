@@ -0,0 +1,67 @@
+import { db } from "@ocrbase/db";
+import { apiKeyUsageDaily, usageEvents } from "@ocrbase/db/schema/api-keys";
+import { sql } from "drizzle-orm";
+
+interface UsageRecord {
+  apiKeyId: string;
+  at: Date;
+  completionTokens: number;
+  jobId: string;
+  model: string | null;
+  pages: number;
+  promptTokens: number;
+  /** Set when the usage is a question answered about the job. */
+  questionId?: string;
+}
+
+/**
+ * Records billable usage of an API key and adds it to the key's daily
+ * totals. A job's own usage is recorded once, however often it completes.
+ */
+export const recordUsage = async (record: UsageRecord): Promise<void> => {
+  const day = record.at.toISOString().split("T")[0] as string;
+  const { apiKeyId, completionTokens, pages, promptTokens } = record;
+  // Questions are billed by token but do not count as jobs.
+  const jobsCount = record.questionId ? 0 : 1;
+
+  await db.transaction(async (tx) => {
+    const [inserted] = await tx
+      .insert(usageEvents)
+      .values({
+        apiKeyId,
+        completionTokens,
+        jobId: record.jobId,
+        model: record.model,
+        pages,
+        promptTokens,
+        questionId: record.questionId ?? null,
+      })
+      .onConflictDoNothing({
+        target: [usageEvents.jobId, usageEvents.questionId],
+      })
+      .returning({ id: usageEvents.id });
+
+    // Only update daily aggregate if event was inserted (not a retry)
+    if (inserted) {
+      await tx
+        .insert(apiKeyUsageDaily)
+        .values({
+          apiKeyId,
+          completionTokens,
+          day,
+          jobsCount,
+          pages,
+          promptTokens,
+        })
+        .onConflictDoUpdate({
+          set: {
+            completionTokens: sql`${apiKeyUsageDaily.completionTokens} + ${completionTokens}`,
+            jobsCount: sql`${apiKeyUsageDaily.jobsCount} + ${jobsCount}`,
+            pages: sql`${apiKeyUsageDaily.pages} + ${pages}`,
+            promptTokens: sql`${apiKeyUsageDaily.promptTokens} + ${promptTokens}`,
+          },
+          target: [apiKeyUsageDaily.apiKeyId, apiKeyUsageDaily.day],
+        });
+    }
+  });
+};
@@ -0,0 +1,342 @@
+import type {
+  WebhookDeliveryStatus,
+  WebhookEvent,
+} from "@ocrbase/db/lib/enums";
+
+import { db } from "@ocrbase/db";
+import { createId } from "@ocrbase/db/lib/ids";
+import { jobs, type Job } from "@ocrbase/db/schema/jobs";
+import {
+  webhookDeliveries,
+  webhookEndpoints,
+} from "@ocrbase/db/schema/webhooks";
+import { env } from "@ocrbase/env/server";
+import { and, arrayContains, eq } from "drizzle-orm";
+import { customAlphabet } from "nanoid";
+
+import { assertDeliverableUrl } from "../lib/delivery-url";
+import {
+  formatSignatureHeader,
+  SIGNATURE_HEADER,
+} from "../lib/webhook-signature";
+import { formatJobResponse } from "../modules/jobs/shared";
+import { addJobCallback, addWebhookDelivery } from "./queue";
+import { withholdResults } from "./retention";
+
+const ALPHABET =
+  "0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz";
+const nanoid = customAlphabet(ALPHABET, 32);
+
+// Keep enough of the receiver's response to debug it without bloating the log.
+const MAX_RESPONSE_BODY_LENGTH = 1024;
+
+export interface WebhookPayload {
+  id: string;
+  type: WebhookEvent;
+  createdAt: string;
+  data: {
+    job: {
+      id: string;
+      type: Job["type"];
+      status: Job["status"];
+      fileName: string;
+      pageCount: number | null;
+      pageRange: string | null;
+      ocrEngine: string | null;
+      processingTimeMs: number | null;
+      errorCode: string | null;
+      errorMessage: string | null;
+      createdAt: string;
+      completedAt: string | null;
+    };
+  };
+}
+
+export class WebhookDeliveryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "WebhookDeliveryError";
+  }
+}
+
+export const generateWebhookSecret = (): string => `whsec_${nanoid()}`;
+
+const buildPayload = (
+  deliveryId: string,
+  event: WebhookEvent,
+  job: Job
+): WebhookPayload => ({
+  createdAt: new Date().toISOString(),
+  data: {
+    job: {
+      completedAt: job.completedAt?.toISOString() ?? null,
+      createdAt: job.createdAt.toISOString(),
+      errorCode: job.errorCode,
+      errorMessage: job.errorMessage,
+      fileName: job.fileName,
+      id: job.id,
+      ocrEngine: job.ocrEngine,
+      pageCount: job.pageCount,
+      pageRange: job.pageRange,
+      processingTimeMs: job.processingTimeMs,
+      status: job.status,
+      type: job.type,
+    },
+  },
+  id: deliveryId,
+  type: event,
+});
+
+/**
+ * Records a delivery for every active endpoint of the job's organization that
+ * subscribes to the event, then queues them. Returns the number queued.
+ */
+export const dispatchJobWebhook = async (
+  jobId: string,
+  event: WebhookEvent
+): Promise<number> => {
+  const job = await db.query.jobs.findFirst({
+    where: eq(jobs.id, jobId),
+  });
+
+  if (!job) {
+    return 0;
+  }
+
+  const endpoints = await db
+    .select({ id: webhookEndpoints.id })
+    .from(webhookEndpoints)
+    .where(
+      and(
+        eq(webhookEndpoints.organizationId, job.organizationId),
+        eq(webhookEndpoints.isActive, true),
+        arrayContains(webhookEndpoints.events, [event])
+      )
+    );
+
+  if (endpoints.length === 0) {
+    return 0;
+  }
+
+  const deliveries = await db
+    .insert(webhookDeliveries)
+    .values(
+      endpoints.map((endpoint) => {
+        const id = createId("webhookDelivery");
+        return {
+          endpointId: endpoint.id,
+          event,
+          id,
+          jobId,
+          payload: buildPayload(id, event, job),
+        };
+      })
+    )
+    .returning({ id: webhookDeliveries.id });
+
+  await Promise.all(
+    deliveries.map((delivery) =>
+      addWebhookDelivery({ deliveryId: delivery.id })
+    )
+  );
+
+  return deliveries.length;
+};
+
+interface SignedPostResult {
+  errorMessage: string | null;
+  responseBody: string | null;
+  responseStatus: number | null;
+}
+
+/**
+ * POSTs a signed JSON body. Never throws: a non-2xx status or a network error
+ * is reported through `errorMessage`.
+ */
+const postSigned = async (
+  url: string,
+  secret: string,
+  body: string,
+  headers: Record<string, string>
+): Promise<SignedPostResult> => {
+  const timestamp = Math.floor(Date.now() / 1000);
+
+  try {
+    // The host may resolve differently than when the URL was saved.
+    await assertDeliverableUrl(url);
+
+    const response = await fetch(url, {
+      body,
+      headers: {
+        ...headers,
+        "Content-Type": "application/json",
+        [SIGNATURE_HEADER]: formatSignatureHeader(secret, timestamp, body),
+        "User-Agent": "ocrbase-webhooks",
+      },
+      method: "POST",
+      redirect: "manual",
+      signal: AbortSignal.timeout(env.WEBHOOK_TIMEOUT_MS),
+    });
+
+    const text = await response.text();
+
+    return {
+      errorMessage: response.ok
+        ? null
+        : `Endpoint responded with ${response.status}`,
+      responseBody: text.slice(0, MAX_RESPONSE_BODY_LENGTH),
+      responseStatus: response.status,
+    };
+  } catch (error) {
+    return {
+      errorMessage: error instanceof Error ? error.message : String(error),
+      responseBody: null,
+      responseStatus: null,
+    };
+  }
+};
+
+const toDeliveryStatus = (
+  succeeded: boolean,
+  isFinalAttempt: boolean
+): WebhookDeliveryStatus => {
+  if (succeeded) {
+    return "succeeded";
+  }
+  return isFinalAttempt ? "failed" : "pending";
+};
+
+const toEvent = (job: Job): WebhookEvent =>
+  job.status === "failed" ? "job.failed" : "job.completed";
+
+/**
+ * Sends one delivery attempt and records the outcome. Throws
+ * `WebhookDeliveryError` on a failed attempt so the queue retries it; the
+ * delivery is only marked `failed` once `isFinalAttempt` is set.
+ */
+export const deliverWebhook = async (
+  deliveryId: string,
+  isFinalAttempt: boolean
+): Promise<void> => {
+  const delivery = await db.query.webhookDeliveries.findFirst({
+    where: eq(webhookDeliveries.id, deliveryId),
+    with: { endpoint: true },
+  });
+
+  if (!delivery) {
+    return;
+  }
+
+  const { endpoint } = delivery;
+  const attemptedAt = new Date();
+
+  if (!endpoint.isActive) {
+    await db
+      .update(webhookDeliveries)
+      .set({
+        errorMessage: "Webhook endpoint is disabled",
+        lastAttemptAt: attemptedAt,
+        status: "failed",
+      })
+      .where(eq(webhookDeliveries.id, deliveryId));
+    return;
+  }
+
+  const result = await postSigned(
+    endpoint.url,
+    endpoint.secret,
+    JSON.stringify(delivery.payload),
+    {
+      "X-Ocrbase-Delivery": delivery.id,
+      "X-Ocrbase-Event": delivery.event,
+    }
+  );
+  const succeeded = result.errorMessage === null;
+
+  await db
+    .update(webhookDeliveries)
+    .set({
+      ...result,
+      attempts: delivery.attempts + 1,
+      deliveredAt: succeeded ? attemptedAt : null,
+      lastAttemptAt: attemptedAt,
+      status: toDeliveryStatus(succeeded, isFinalAttempt),
+    })
+    .where(eq(webhookDeliveries.id, deliveryId));
+
+  if (!succeeded) {
+    throw new WebhookDeliveryError(
+      result.errorMessage ?? "Webhook delivery failed"
+    );
+  }
+};
+
+/**
+ * Queues the job's callback if it was created with a `callbackUrl`.
+ */
+export const dispatchJobCallback = async (jobId: string): Promise<boolean> => {
+  const job = await db.query.jobs.findFirst({
+    columns: { callbackUrl: true },
+    where: eq(jobs.id, jobId),
+  });
+
+  if (!job?.callbackUrl) {
+    return false;
+  }
+
+  await addJobCallback({ jobId });
+  return true;
+};
+
+/**
+ * POSTs the finished job to its `callbackUrl`, signed with the callback secret
+ * of the API key that created the job.
+ */
+export const deliverJobCallback = async (
+  jobId: string,
+  isFinalAttempt: boolean
+): Promise<void> => {
+  const job = await db.query.jobs.findFirst({
+    where: eq(jobs.id, jobId),
+    with: { apiKey: true },
+  });
+
+  if (!job?.callbackUrl) {
+    return;
+  }
+
+  const { apiKey, ...jobRow } = job;
+
+  if (!apiKey?.callbackSecret) {
+    // Without a secret there is nothing to sign with, so retrying cannot help.
+    await db
+      .update(jobs)
+      .set({ callbackStatus: "failed" })
+      .where(eq(jobs.id, jobId));
+    return;
+  }
+
+  const result = await postSigned(
+    job.callbackUrl,
+    apiKey.callbackSecret,
+    JSON.stringify(formatJobResponse(withholdResults(jobRow))),
+    {
+      "X-Ocrbase-Event": toEvent(jobRow),
+      "X-Ocrbase-Job": job.id,
+    }
+  );
+  const succeeded = result.errorMessage === null;
+
+  await db
+    .update(jobs)
+    .set({
+      callbackStatus: toDeliveryStatus(succeeded, isFinalAttempt),
+    })
+    .where(eq(jobs.id, jobId));
+
+  if (!succeeded) {
+    throw new WebhookDeliveryError(
+      result.errorMessage ?? "Callback delivery failed"
+    );
+  }
+};
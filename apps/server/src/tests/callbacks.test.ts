@@ -0,0 +1,16 @@
+import { describe, expect, test } from "bun:test";
+
+import { submitParse } from "./helpers";
+
+describe("callbacks", () => {
+  test.each([
+    "http://localhost:3000/callback",
+    "http://127.0.0.1/callback",
+    "http://169.254.169.254/latest/meta-data",
+    "http://10.0.0.5/callback",
+  ])("rejects a callbackUrl pointing to %s", async (callbackUrl) => {
+    const res = await submitParse({ callbackUrl });
+
+    expect(res.status).toBe(400);
+  });
+});
@@ -0,0 +1,134 @@
+import { describe, expect, test } from "bun:test";
+
+import {
+  BASE_URL,
+  createParseJob,
+  createUrlParseJob,
+  getJob,
+  headers,
+  type JobResponse,
+  waitForJob,
+  waitForJobState,
+} from "./helpers";
+
+// Matches the server's default QUEUE_BACKOFF_DELAY_MS.
+const BACKOFF_DELAY_MS = Number(process.env.QUEUE_BACKOFF_DELAY_MS ?? 5000);
+
+const postJobAction = (
+  jobId: string,
+  action: "cancel" | "retry"
+): Promise<Response> =>
+  fetch(`${BASE_URL}/v1/jobs/${jobId}/${action}`, { headers, method: "POST" });
+
+// A cancelled run answers 409 until its worker has stopped.
+const retryOnceStopped = async (
+  jobId: string,
+  attempts = 20
+): Promise<Response> => {
+  const res = await postJobAction(jobId, "retry");
+
+  if (res.status !== 409 || attempts <= 1) {
+    return res;
+  }
+
+  await Bun.sleep(500);
+  return retryOnceStopped(jobId, attempts - 1);
+};
+
+describe("cancel and retry", () => {
+  test(
+    "a cancelled job is retried under the same ID",
+    async () => {
+      const { promise: released, resolve: release } =
+        Promise.withResolvers<void>();
+      // Holds the first download so the job is cancelled while processing.
+      const origin = Bun.serve({
+        fetch: async () => {
+          await released;
+          return new Response(Bun.file("docs/ocrbase.png"), {
+            headers: { "Content-Type": "image/png" },
+          });
+        },
+        port: 0,
+      });
+
+      try {
+        const { id } = await createUrlParseJob(
+          `http://localhost:${origin.port}/ocrbase.png`
+        );
+        await waitForJobState(id, (job) => job.status === "processing");
+
+        const cancelled = await postJobAction(id, "cancel");
+        expect(cancelled.status).toBe(200);
+        expect(((await cancelled.json()) as JobResponse).status).toBe(
+          "cancelled"
+        );
+        release();
+
+        const retried = await retryOnceStopped(id);
+        expect(retried.status).toBe(200);
+        const job = (await retried.json()) as JobResponse;
+        expect(job.id).toBe(id);
+        expect(job.status).toBe("pending");
+        expect(job.markdownResult).toBeNull();
+
+        const result = await waitForJob(id);
+        expect(result.data.markdownResult?.toLowerCase()).toContain("ocrbase");
+      } finally {
+        release();
+        await origin.stop(true);
+      }
+    },
+    { timeout: 60_000 }
+  );
+
+  test("a completed job can be neither cancelled nor retried", async () => {
+    const { id } = await createParseJob();
+    await waitForJob(id);
+
+    const cancelled = await postJobAction(id, "cancel");
+    const retried = await postJobAction(id, "retry");
+
+    expect(cancelled.status).toBe(400);
+    expect(retried.status).toBe(400);
+  });
+
+  test(
+    "a job waiting to retry a failed attempt can be cancelled",
+    async () => {
+      let requests = 0;
+      // Answers 503 so every attempt fails and is retried after a backoff.
+      const origin = Bun.serve({
+        fetch: () => {
+          requests += 1;
+          return new Response("Unavailable", { status: 503 });
+        },
+        port: 0,
+      });
+
+      try {
+        const { id } = await createUrlParseJob(
+          `http://localhost:${origin.port}/invoice.pdf`
+        );
+        const waiting = await waitForJobState(
+          id,
+          (job) => job.errorMessage !== null
+        );
+        expect(waiting.status).toBe("pending");
+
+        const cancelled = await postJobAction(id, "cancel");
+        expect(cancelled.status).toBe(200);
+        const attempts = requests;
+
+        // The delayed attempt must not run once the backoff has passed.
+        await Bun.sleep(BACKOFF_DELAY_MS * 2);
+        const job = await getJob(id);
+        expect(job.status).toBe("cancelled");
+        expect(requests).toBe(attempts);
+      } finally {
+        await origin.stop(true);
+      }
+    },
+    { timeout: 60_000 }
+  );
+});
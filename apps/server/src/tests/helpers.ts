@@ -0,0 +1,132 @@
+export interface JobResponse {
+  errorMessage: string | null;
+  fileKey: string | null;
+  filePurgedAt: string | null;
+  id: string;
+  markdownResult: string | null;
+  organizationId: string;
+  resultsPurgedAt: string | null;
+  retention: "none" | "standard";
+  sourceJobId: string | null;
+  status: string;
+}
+
+export interface JobMessage {
+  type: "status" | "completed" | "error";
+  jobId: string;
+  data: {
+    status?: string;
+    markdownResult?: string;
+    error?: string;
+  };
+}
+
+export const BASE_URL = process.env.OCRBASE_URL ?? "http://localhost:3000";
+const WS_URL = BASE_URL.replace("http", "ws");
+const API_KEY = process.env.OCRBASE_API_KEY;
+
+if (!API_KEY) {
+  throw new Error("OCRBASE_API_KEY environment variable is required");
+}
+
+export const headers = { Authorization: `Bearer ${API_KEY}` };
+
+export const waitForJob = (
+  jobId: string,
+  timeoutMs = 30_000
+): Promise<JobMessage> => {
+  const { promise, resolve, reject } = Promise.withResolvers<JobMessage>();
+
+  const ws = new WebSocket(`${WS_URL}/v1/realtime?job_id=${jobId}`, {
+    headers: { Authorization: `Bearer ${API_KEY}` },
+  });
+
+  const timeout = setTimeout(() => {
+    ws.close();
+    reject(new Error("Job timed out"));
+  }, timeoutMs);
+
+  const cleanup = () => {
+    clearTimeout(timeout);
+    ws.close();
+  };
+
+  ws.addEventListener("message", (event) => {
+    const msg = JSON.parse(event.data as string) as JobMessage;
+    if (msg.type === "completed") {
+      cleanup();
+      resolve(msg);
+      return;
+    }
+    if (msg.type === "error") {
+      cleanup();
+      reject(new Error(msg.data.error));
+    }
+  });
+
+  ws.addEventListener("error", () => {
+    cleanup();
+    reject(new Error("WebSocket error"));
+  });
+
+  return promise;
+};
+
+/** Submits `docs/ocrbase.png` to `POST /v1/parse` with extra form fields. */
+export const submitParse = (
+  fields: Record<string, string> = {},
+  extraHeaders: Record<string, string> = {}
+): Promise<Response> => {
+  const formData = new FormData();
+  formData.append("file", Bun.file("docs/ocrbase.png"));
+  for (const [name, value] of Object.entries(fields)) {
+    formData.append(name, value);
+  }
+
+  return fetch(`${BASE_URL}/v1/parse`, {
+    body: formData,
+    headers: { ...headers, ...extraHeaders },
+    method: "POST",
+  });
+};
+
+export const createParseJob = async (
+  fields: Record<string, string> = {}
+): Promise<JobResponse> => {
+  const res = await submitParse(fields);
+  return (await res.json()) as JobResponse;
+};
+
+export const getJob = async (jobId: string): Promise<JobResponse> => {
+  const res = await fetch(`${BASE_URL}/v1/jobs/${jobId}`, { headers });
+  return (await res.json()) as JobResponse;
+};
+
+/** Polls the job until `predicate` holds, e.g. to catch a status in passing. */
+export const waitForJobState = async (
+  jobId: string,
+  predicate: (job: JobResponse) => boolean,
+  timeoutMs = 30_000
+): Promise<JobResponse> => {
+  const deadline = Date.now() + timeoutMs;
+
+  while (Date.now() < deadline) {
+    const job = await getJob(jobId);
+    if (predicate(job)) {
+      return job;
+    }
+    await Bun.sleep(250);
+  }
+
+  throw new Error(`Job ${jobId} did not reach the expected state`);
+};
+
+/** Submits a document URL to `POST /v1/parse`. */
+export const createUrlParseJob = async (url: string): Promise<JobResponse> => {
+  const res = await fetch(`${BASE_URL}/v1/parse`, {
+    body: JSON.stringify({ url }),
+    headers: { ...headers, "Content-Type": "application/json" },
+    method: "POST",
+  });
+  return (await res.json()) as JobResponse;
+};
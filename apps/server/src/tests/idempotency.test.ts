@@ -0,0 +1,81 @@
+import { describe, expect, test } from "bun:test";
+
+import { BASE_URL, headers, type JobResponse, submitParse } from "./helpers";
+
+interface PresignResponse {
+  jobId: string;
+  uploadUrl: string;
+}
+
+const newKey = (): string => `test-${crypto.randomUUID()}`;
+
+const presign = (key: string): Promise<Response> =>
+  fetch(`${BASE_URL}/v1/uploads/presign`, {
+    body: JSON.stringify({
+      fileName: "ocrbase.png",
+      fileSize: 1024,
+      mimeType: "image/png",
+      type: "parse",
+    }),
+    headers: {
+      ...headers,
+      "Content-Type": "application/json",
+      "Idempotency-Key": key,
+    },
+    method: "POST",
+  });
+
+describe("idempotency", () => {
+  test("replays the job of a repeated request", async () => {
+    const key = newKey();
+
+    const first = await submitParse({}, { "Idempotency-Key": key });
+    const second = await submitParse({}, { "Idempotency-Key": key });
+
+    expect(first.status).toBe(200);
+    expect(second.status).toBe(200);
+    expect(second.headers.get("Idempotent-Replayed")).toBe("true");
+
+    const [created, replayed] = (await Promise.all([
+      first.json(),
+      second.json(),
+    ])) as JobResponse[];
+    expect(replayed?.id).toBe(created?.id);
+  });
+
+  test("rejects a key reused for a different request", async () => {
+    const key = newKey();
+
+    const first = await submitParse({}, { "Idempotency-Key": key });
+    const second = await submitParse(
+      { pages: "1" },
+      { "Idempotency-Key": key }
+    );
+
+    expect(first.status).toBe(200);
+    expect(second.status).toBe(409);
+  });
+
+  test("rejects keys longer than 255 characters", async () => {
+    const res = await submitParse({}, { "Idempotency-Key": "k".repeat(256) });
+
+    expect(res.status).toBe(400);
+  });
+
+  test("re-signs the upload URL of a replayed presign", async () => {
+    const key = newKey();
+
+    const first = await presign(key);
+    // Presigned URLs are signed to the second.
+    await Bun.sleep(1100);
+    const second = await presign(key);
+
+    const [created, replayed] = (await Promise.all([
+      first.json(),
+      second.json(),
+    ])) as PresignResponse[];
+    expect(second.headers.get("Idempotent-Replayed")).toBe("true");
+    expect(replayed?.jobId).toBe(created?.jobId);
+    expect(replayed?.uploadUrl).not.toBe(created?.uploadUrl);
+  });
+});
@@ -0,0 +1,177 @@
+import { db } from "@ocrbase/db";
+import { jobPages } from "@ocrbase/db/schema/job-pages";
+import { jobs } from "@ocrbase/db/schema/jobs";
+import { organizationSettings } from "@ocrbase/db/schema/organization-settings";
+import { env } from "@ocrbase/env/server";
+import { describe, expect, test } from "bun:test";
+import { eq } from "drizzle-orm";
+
+import {
+  purgeExpiredJobs,
+  purgeUndeliveredResults,
+} from "@/services/retention";
+
+import {
+  BASE_URL,
+  createParseJob,
+  getJob,
+  headers,
+  type JobResponse,
+  waitForJob,
+} from "./helpers";
+
+describe("zero retention", () => {
+  test("returns results once and withholds them afterwards", async () => {
+    const { id, retention } = await createParseJob({ retention: "none" });
+    expect(retention).toBe("none");
+
+    const completed = await waitForJob(id);
+    // Zero-retention results stay out of realtime events.
+    expect(completed.data.markdownResult).toBeUndefined();
+
+    const delivered = await getJob(id);
+    expect(delivered.markdownResult?.toLowerCase()).toContain("ocrbase");
+
+    const again = await getJob(id);
+    expect(again.markdownResult).toBeNull();
+    expect(again.resultsPurgedAt).not.toBeNull();
+  });
+
+  test("is left out of full-text search", async () => {
+    const { id } = await createParseJob({ retention: "none" });
+    await waitForJob(id);
+
+    const res = await fetch(`${BASE_URL}/v1/jobs?q=ocrbase`, { headers });
+    const { data } = (await res.json()) as { data: JobResponse[] };
+
+    expect(data.map((job) => job.id)).not.toContain(id);
+  });
+
+  test("carries over to re-extractions of the job", async () => {
+    const source = await createParseJob({ retention: "none" });
+    await waitForJob(source.id);
+
+    const res = await fetch(`${BASE_URL}/v1/extract`, {
+      body: JSON.stringify({ sourceJobId: source.id }),
+      headers: { ...headers, "Content-Type": "application/json" },
+      method: "POST",
+    });
+    const job = (await res.json()) as JobResponse;
+
+    expect(job.sourceJobId).toBe(source.id);
+    expect(job.retention).toBe("none");
+  });
+
+  test("standard jobs keep their results", async () => {
+    const { id } = await createParseJob();
+    await waitForJob(id);
+
+    const first = await getJob(id);
+    const second = await getJob(id);
+
+    expect(second.markdownResult).toBe(first.markdownResult);
+    expect(second.resultsPurgedAt).toBeNull();
+  });
+});
+
+describe("undelivered zero-retention results", () => {
+  const afterTtl = (): Date =>
+    new Date(Date.now() + (env.ZERO_RETENTION_TTL_MINUTES + 1) * 60_000);
+
+  test("are kept until the TTL passes", async () => {
+    const { id } = await createParseJob({ retention: "none" });
+    await waitForJob(id);
+
+    await purgeUndeliveredResults();
+
+    const delivered = await getJob(id);
+    expect(delivered.markdownResult?.toLowerCase()).toContain("ocrbase");
+  });
+
+  test("are purged once the TTL passes", async () => {
+    const { id } = await createParseJob({ retention: "none" });
+    await waitForJob(id);
+
+    expect(await purgeUndeliveredResults(afterTtl())).toBeGreaterThan(0);
+
+    const job = await getJob(id);
+    expect(job.markdownResult).toBeNull();
+    expect(job.resultsPurgedAt).not.toBeNull();
+  });
+});
+
+describe("organization retention policy", () => {
+  const countPages = async (jobId: string): Promise<number> => {
+    const pages = await db
+      .select({ pageNumber: jobPages.pageNumber })
+      .from(jobPages)
+      .where(eq(jobPages.jobId, jobId));
+    return pages.length;
+  };
+
+  /** Runs `fn` with file and result retention set, then restores the policy. */
+  const withRetentionDays = async (
+    organizationId: string,
+    days: number,
+    fn: () => Promise<void>
+  ): Promise<void> => {
+    const previous = await db.query.organizationSettings.findFirst({
+      where: eq(organizationSettings.organizationId, organizationId),
+    });
+
+    await db
+      .insert(organizationSettings)
+      .values({
+        fileRetentionDays: days,
+        organizationId,
+        resultRetentionDays: days,
+      })
+      .onConflictDoUpdate({
+        set: { fileRetentionDays: days, resultRetentionDays: days },
+        target: organizationSettings.organizationId,
+      });
+
+    try {
+      await fn();
+    } finally {
+      await db
+        .update(organizationSettings)
+        .set({
+          fileRetentionDays: previous?.fileRetentionDays ?? null,
+          resultRetentionDays: previous?.resultRetentionDays ?? null,
+        })
+        .where(eq(organizationSettings.organizationId, organizationId));
+    }
+  };
+
+  test("purges files and results of expired jobs only", async () => {
+    const expired = await createParseJob();
+    const recent = await createParseJob();
+    await Promise.all([waitForJob(expired.id), waitForJob(recent.id)]);
+
+    await db
+      .update(jobs)
+      .set({ createdAt: new Date(Date.now() - 2 * 86_400_000) })
+      .where(eq(jobs.id, expired.id));
+
+    await withRetentionDays(expired.organizationId, 1, async () => {
+      const summary = await purgeExpiredJobs();
+      expect(summary.filesPurged).toBeGreaterThan(0);
+      expect(summary.resultsPurged).toBeGreaterThan(0);
+    });
+
+    const purged = await getJob(expired.id);
+    expect(purged.fileKey).toBeNull();
+    expect(purged.filePurgedAt).not.toBeNull();
+    expect(purged.markdownResult).toBeNull();
+    expect(purged.resultsPurgedAt).not.toBeNull();
+    expect(await countPages(expired.id)).toBe(0);
+
+    const kept = await getJob(recent.id);
+    expect(kept.fileKey).not.toBeNull();
+    expect(kept.filePurgedAt).toBeNull();
+    expect(kept.markdownResult?.toLowerCase()).toContain("ocrbase");
+    expect(kept.resultsPurgedAt).toBeNull();
+    expect(await countPages(recent.id)).toBeGreaterThan(0);
+  });
+});
@@ -1,22 +1,95 @@
+import type { ExtractionStrategy, WebhookEvent } from "@ocrbase/db/lib/enums";
+import type { ExtractionFieldMeta } from "@ocrbase/db/schema/jobs";
+
 import { env } from "@ocrbase/env/server";
 import { type Job as BullJob, UnrecoverableError, Worker } from "bullmq";
 
 import {
+  JobCancelledError,
+  assertJobNotCancelled,
   completeJob,
   failJob,
   getJobById,
+  getJobPages,
+  publishJobProgress,
+  saveJobPages,
   updateJobFileInfo,
+  upsertJobPages,
   updateJobStatus,
 } from "@/lib/job-status";
+import { parsePageRange, selectPageNumbers } from "@/lib/page-range";
 import { type WorkerJobContext, workerLogger } from "@/lib/worker-logger";
-import { LlmJsonParseError, llmService } from "@/services/llm";
-import { parseDocument } from "@/services/ocr";
-import { type JobData, getWorkerConnection } from "@/services/queue";
+import { SettingsService } from "@/modules/settings/service";
+import {
+  type CiteExtraction,
+  type ExtractionOutcome,
+  extractInChunks,
+} from "@/services/chunked-extraction";
+import { indexJobDocument } from "@/services/document-index";
+import {
+  buildJsonResultMeta,
+  type CitablePage,
+} from "@/services/extraction-meta";
+import {
+  LlmJsonParseError,
+  type LlmProvider,
+  type LlmUsage,
+  llmService,
+  resolveLlmProvider,
+} from "@/services/llm";
+import {
+  DEFAULT_OCR_ENGINE,
+  PAGE_SEPARATOR,
+  isOcrEngineName,
+  parseDocument,
+  type OcrEngineName,
+  type OcrPage,
+} from "@/services/ocr";
+import {
+  findCachedOcr,
+  hashDocument,
+  saveCachedOcr,
+} from "@/services/ocr-cache";
+import { extractPdfPages, getPdfPageCount } from "@/services/pdf";
+import {
+  type JobData,
+  getWorkerConnection,
+  scheduleMaintenance,
+} from "@/services/queue";
+import { discardJobFile } from "@/services/retention";
 import { StorageService } from "@/services/storage";
+import { dispatchJobCallback, dispatchJobWebhook } from "@/services/webhooks";
+
+import { createMaintenanceWorker } from "./maintenance.worker";
+import { createWebhookWorker } from "./webhook.worker";
+
+interface PageSelection {
+  isPdf: boolean;
+  /** Pages to OCR in document order; `null` sends the file as-is. */
+  pageNumbers: number[] | null;
+  totalPages: number | null;
+}
+
+interface OcrRunResult {
+  chunkCount: number;
+  markdown: string;
+  pageCount: number;
+}
+
+interface OcrDocumentResult {
+  /** True when the markdown came from the OCR cache instead of the engine. */
+  cacheHit: boolean;
+  fileHash: string;
+  markdown: string;
+  pageCount: number;
+}
 
 interface ExtractionMetrics {
+  /** Set for chunked extractions. */
+  extractionChunks?: number;
   llmDurationMs: number;
   llmModel: string;
+  llmProvider: string;
   processingTimeMs: number;
   tokenCount: number;
 }
@@ -25,7 +98,7 @@ const UNRECOVERABLE_CODE_PREFIX = "[cause=";
 const RETRYABLE_MESSAGE_PATTERN =
   /(timed out|timeout|connection error|econnreset|econnrefused|enotfound|eai_again|429|502|503|504)/i;
 const NON_RETRYABLE_MESSAGE_PATTERN =
-  /(openrouter_api_key is not configured|job not found|no file or url provided|generated schema response is missing required fields|extraction response must be a json object)/i;
+  /(llm provider "[^"]+" is not configured|job not found|no file or url provided|generated schema response is missing required fields|extraction response must be a json object|selects no pages|is not allowed for this organization)/i;
 
 const toErrorContext = (
   error: unknown
@@ -135,42 +208,341 @@ const decodeUnrecoverableMessage = (
   };
 };
 
+/**
+ * Works out which pages of the document to OCR. Without a page range every
+ * PDF page is selected so large files can still be chunked.
+ */
+const selectPages = async (
+  buffer: Buffer,
+  mimeType: string,
+  pageRange: string | null
+): Promise<PageSelection> => {
+  const isPdf = mimeType === "application/pdf";
+
+  if (!pageRange) {
+    if (!isPdf) {
+      return { isPdf, pageNumbers: null, totalPages: null };
+    }
+
+    try {
+      const totalPages = await getPdfPageCount(buffer);
+      return {
+        isPdf,
+        pageNumbers: Array.from({ length: totalPages }, (_, i) => i + 1),
+        totalPages,
+      };
+    } catch {
+      // pdf-lib cannot read every PDF the OCR engine accepts; send those whole.
+      return { isPdf, pageNumbers: null, totalPages: null };
+    }
+  }
+
+  const totalPages = isPdf ? await getPdfPageCount(buffer) : 1;
+  const pageNumbers = selectPageNumbers(parsePageRange(pageRange), totalPages);
+
+  if (pageNumbers.length === 0) {
+    throw new Error(
+      `Page range "${pageRange}" selects no pages of a ${totalPages}-page document`
+    );
+  }
+
+  return { isPdf, pageNumbers, totalPages };
+};
+
+/**
+ * Maps engine pages back to their original page numbers. Engines that OCR a
+ * whole file in one call cannot time pages individually, so the call
+ * duration is spread evenly across them.
+ */
+const toStoredPages = (
+  pages: OcrPage[],
+  pageNumbers: number[] | null,
+  durationMs: number
+): OcrPage[] => {
+  const sharedPageDurationMs = Math.round(
+    durationMs / Math.max(pages.length, 1)
+  );
+
+  return pages.map((page, index) => ({
+    ...page,
+    pageNumber: pageNumbers?.[index] ?? page.pageNumber,
+    processingTimeMs: page.processingTimeMs ?? sharedPageDurationMs,
+  }));
+};
+
+const ocrInOneCall = async (
+  jobId: string,
+  buffer: Buffer,
+  mimeType: string,
+  engine: OcrEngineName,
+  { isPdf, pageNumbers, totalPages }: PageSelection
+): Promise<OcrRunResult> => {
+  const input =
+    isPdf && pageNumbers && pageNumbers.length !== totalPages
+      ? await extractPdfPages(buffer, pageNumbers)
+      : buffer;
+
+  await publishJobProgress(jobId, {
+    pagesDone: 0,
+    pagesTotal: pageNumbers?.length,
+    stage: "ocr",
+  });
+
+  const start = Date.now();
+  const result = await parseDocument(input, mimeType, engine);
+  await saveJobPages(
+    jobId,
+    toStoredPages(result.pages, pageNumbers, Date.now() - start)
+  );
+
+  return {
+    chunkCount: 1,
+    markdown: result.markdown,
+    pageCount: result.pageCount,
+  };
+};
+
+/**
+ * OCRs a large PDF a few pages at a time. Each chunk is stored as soon as it
+ * finishes, and chunks whose pages are already stored (from an earlier
+ * attempt) are skipped, so a timeout only costs the chunk in flight.
+ */
+const ocrInChunks = async (
+  jobId: string,
+  buffer: Buffer,
+  mimeType: string,
+  engine: OcrEngineName,
+  pageNumbers: number[]
+): Promise<OcrRunResult> => {
+  const chunks: number[][] = [];
+  for (let i = 0; i < pageNumbers.length; i += env.OCR_CHUNK_PAGES) {
+    chunks.push(pageNumbers.slice(i, i + env.OCR_CHUNK_PAGES));
+  }
+
+  const storedPages = await getJobPages(jobId, pageNumbers);
+  const stored = new Set(storedPages.map((page) => page.pageNumber));
+  const pagesTotal = pageNumbers.length;
+  let pagesDone = stored.size;
+
+  // The ETA only uses chunks OCR'd by this attempt; resumed pages were free.
+  const runStart = Date.now();
+  let pagesThisRun = 0;
+
+  await publishJobProgress(jobId, { pagesDone, pagesTotal, stage: "ocr" });
+
+  for (const chunk of chunks) {
+    if (chunk.every((pageNumber) => stored.has(pageNumber))) {
+      continue;
+    }
+
+    // Chunks run one after another to keep load on the OCR service bounded,
+    // which also gives a cancellation a chance to stop between them.
+    await assertJobNotCancelled(jobId);
+    const chunkBuffer = await extractPdfPages(buffer, chunk);
+    const start = Date.now();
+    const result = await parseDocument(chunkBuffer, mimeType, engine);
+    await upsertJobPages(
+      jobId,
+      toStoredPages(result.pages, chunk, Date.now() - start)
+    );
+
+    const newPages = chunk.filter((pageNumber) => !stored.has(pageNumber));
+    pagesDone += newPages.length;
+    pagesThisRun += newPages.length;
+
+    const msPerPage = (Date.now() - runStart) / pagesThisRun;
+    await publishJobProgress(jobId, {
+      etaMs: Math.round(msPerPage * (pagesTotal - pagesDone)),
+      pagesDone,
+      pagesTotal,
+      stage: "ocr",
+    });
+  }
+
+  const pages = await getJobPages(jobId, pageNumbers);
+
+  return {
+    chunkCount: chunks.length,
+    markdown: pages.map((page) => page.markdown).join(PAGE_SEPARATOR),
+    pageCount: pagesTotal,
+  };
+};
+
+const NO_CITATIONS = {
+  fields: null,
+  usage: { completionTokens: 0, promptTokens: 0 },
+};
+
+/**
+ * Scores and cites the fields of an extraction result. They only add to a
+ * result that is already complete, so errors are logged and the result kept.
+ */
+const citeExtractionResult = async (
+  jobId: string,
+  pages: CitablePage[],
+  data: Record<string, unknown>,
+  provider: LlmProvider,
+  model: string
+): Promise<{ fields: ExtractionFieldMeta[] | null; usage: LlmUsage }> => {
+  try {
+    return await buildJsonResultMeta({ data, model, pages, provider });
+  } catch (error) {
+    workerLogger.error(
+      { error: toErrorContext(error), jobId },
+      "extraction_citation_error"
+    );
+    return NO_CITATIONS;
+  }
+};
+
+interface ExtractDocumentOptions {
+  /** Whether the extracted values are scored and cited. */
+  citations: boolean;
+  jobId: string;
+  /** Job whose stored pages are cited; the source job for re-extractions. */
+  pagesJobId: string;
+  markdown: string;
+  schema?: Record<string, unknown>;
+  strategy: ExtractionStrategy;
+  hints?: string;
+  model?: string;
+  provider: LlmProvider;
+}
+
+/**
+ * Extracts with the schema's strategy and, when the job asked for it, cites
+ * the extracted values.
+ */
+const extractDocument = async ({
+  citations,
+  hints,
+  jobId,
+  markdown,
+  model,
+  pagesJobId,
+  provider,
+  schema,
+  strategy,
+}: ExtractDocumentOptions): Promise<ExtractionOutcome> => {
+  const storedPages = await getJobPages(pagesJobId);
+  // Pages purged with their source job leave nothing to cite against.
+  const cite: CiteExtraction = async (data, pages, modelId) =>
+    citations && storedPages.length > 0
+      ? await citeExtractionResult(jobId, pages, data, provider, modelId)
+      : NO_CITATIONS;
+
+  if (schema && strategy === "chunked") {
+    // Without stored pages, the markdown is chunked by section as one page.
+    const wholeDocument = {
+      height: null,
+      layout: null,
+      markdown,
+      pageNumber: 1,
+      width: null,
+    };
+
+    return extractInChunks({
+      beforeChunk: () => assertJobNotCancelled(jobId),
+      cite,
+      hints,
+      model,
+      pages: storedPages.length > 0 ? storedPages : [wholeDocument],
+      provider,
+      schema,
+    });
+  }
+
+  const result = await llmService.processExtraction({
+    hints,
+    markdown,
+    model,
+    provider,
+    schema,
+  });
+  // The citation prompt holds the whole document. Past one chunk it could
+  // outgrow the context window, so long documents are only cited chunked.
+  const meta =
+    markdown.length <= env.EXTRACTION_CHUNK_CHARS
+      ? await cite(result.data, storedPages, result.model)
+      : NO_CITATIONS;
+
+  return {
+    data: result.data,
+    fields: meta.fields,
+    model: result.model,
+    provider: result.provider,
+    usage: {
+      chunks: null,
+      completionTokens:
+        result.usage.completionTokens + meta.usage.completionTokens,
+      promptTokens: result.usage.promptTokens + meta.usage.promptTokens,
+    },
+    validationErrors: result.validationErrors,
+  };
+};
+
 const runExtraction = async (
   jobId: string,
+  organizationId: string,
+  pagesJobId: string,
   markdown: string,
   schema: Record<string, unknown> | undefined,
+  strategy: ExtractionStrategy,
   hints: string | null,
+  model: string | null,
+  citations: boolean,
   pageCount: number,
-  startTime: number
+  startTime: number,
+  billablePages = pageCount
 ): Promise<ExtractionMetrics> => {
   await updateJobStatus(jobId, "extracting");
+  await publishJobProgress(jobId, { stage: "extracting" });
 
+  // The allowlist may have changed since the job was created, e.g. before a
+  // rerun or a retry.
+  await SettingsService.resolveLlmModel(organizationId, model);
+  const provider = await resolveLlmProvider(organizationId);
   const llmStart = Date.now();
-  const extractionResult = await llmService.processExtraction({
+  const extraction = await extractDocument({
+    citations,
     hints: hints ?? undefined,
+    jobId,
     markdown,
+    model: model ?? undefined,
+    pagesJobId,
+    provider,
     schema,
+    strategy,
   });
   const llmDurationMs = Date.now() - llmStart;
 
   const processingTimeMs = Date.now() - startTime;
   const tokenCount =
-    extractionResult.usage.promptTokens +
-    extractionResult.usage.completionTokens;
-
-  await completeJob(jobId, {
-    jsonResult: extractionResult.data,
-    llmModel: extractionResult.model,
-    llmUsage: extractionResult.usage,
+    extraction.usage.promptTokens + extraction.usage.completionTokens;
+
+  const completed = await completeJob(jobId, {
+    billablePages,
+    jsonResult: extraction.data,
+    jsonResultMeta: extraction.fields,
+    llmModel: extraction.model,
+    llmProvider: extraction.provider,
+    llmUsage: extraction.usage,
     markdownResult: markdown,
     pageCount,
     processingTimeMs,
     tokenCount,
+    validationErrors: extraction.validationErrors,
   });
 
+  if (!completed) {
+    throw new JobCancelledError(jobId);
+  }
+
   return {
+    extractionChunks: extraction.usage.chunks?.length,
     llmDurationMs,
-    llmModel: extractionResult.model,
+    llmModel: extraction.model,
+    llmProvider: extraction.provider,
     processingTimeMs,
     tokenCount,
   };
@@ -180,19 +552,205 @@ const finishParseJob = async (
   jobId: string,
   markdown: string,
   pageCount: number,
-  startTime: number
+  startTime: number,
+  billablePages = pageCount
 ): Promise<number> => {
   const processingTimeMs = Date.now() - startTime;
 
-  await completeJob(jobId, {
+  const completed = await completeJob(jobId, {
+    billablePages,
     markdownResult: markdown,
     pageCount,
     processingTimeMs,
   });
 
+  if (!completed) {
+    throw new JobCancelledError(jobId);
+  }
+
   return processingTimeMs;
 };
 
+type WorkerJob = NonNullable<Awaited<ReturnType<typeof getJobById>>>;
+
+/**
+ * Loads the job's document from storage or its source URL and OCRs the
+ * selected pages.
+ */
+const ocrJobDocument = async (
+  jobId: string,
+  job: WorkerJob,
+  eventContext: WorkerJobContext
+): Promise<OcrDocumentResult> => {
+  await publishJobProgress(jobId, { stage: "fetching" });
+
+  let fileBuffer: Buffer;
+  let { mimeType } = job;
+
+  if (!job.fileKey && !job.sourceUrl) {
+    throw new Error("No file or URL provided for job");
+  }
+
+  if (job.sourceUrl && !job.fileKey) {
+    // URL job: fetch from source, process in memory, no S3
+    const response = await fetch(job.sourceUrl);
+
+    if (!response.ok) {
+      throw new Error(`Failed to fetch file from URL: ${response.statusText}`);
+    }
+
+    const contentType =
+      response.headers.get("content-type") ?? "application/octet-stream";
+    fileBuffer = Buffer.from(await response.arrayBuffer());
+    mimeType = contentType;
+
+    eventContext.source = "url";
+
+    await updateJobFileInfo(jobId, {
+      fileKey: null,
+      fileName: job.fileName,
+      fileSize: fileBuffer.length,
+      mimeType: contentType,
+    });
+  } else {
+    // File upload: read from S3
+    eventContext.source = "storage";
+    const storageStart = Date.now();
+    fileBuffer = await StorageService.getFile(job.fileKey ?? "");
+    const storageDurationMs = Date.now() - storageStart;
+    eventContext.storageDurationMs = storageDurationMs;
+  }
+
+  const ocrEngine = isOcrEngineName(job.ocrEngine)
+    ? job.ocrEngine
+    : DEFAULT_OCR_ENGINE;
+  eventContext.ocrEngine = ocrEngine;
+
+  const fileHash = job.fileHash ?? hashDocument(fileBuffer);
+  const cacheKey = {
+    fileHash,
+    ocrEngine,
+    organizationId: job.organizationId,
+    pageRange: job.pageRange,
+  };
+
+  if (job.cacheMode === "use") {
+    const cached = await findCachedOcr(cacheKey);
+
+    if (cached) {
+      await saveJobPages(
+        jobId,
+        cached.pages.map((page) => ({
+          ...page,
+          processingTimeMs: page.processingTimeMs ?? undefined,
+        }))
+      );
+
+      eventContext.cacheHit = true;
+      eventContext.pageCount = cached.pageCount;
+
+      return {
+        cacheHit: true,
+        fileHash,
+        markdown: cached.markdown,
+        pageCount: cached.pageCount,
+      };
+    }
+  }
+
+  const selection = await selectPages(fileBuffer, mimeType, job.pageRange);
+  if (job.pageRange) {
+    eventContext.pageRange = job.pageRange;
+  }
+
+  const ocrStart = Date.now();
+  const { chunkCount, markdown, pageCount } =
+    selection.pageNumbers && selection.pageNumbers.length > env.OCR_CHUNK_PAGES
+      ? await ocrInChunks(
+          jobId,
+          fileBuffer,
+          mimeType,
+          ocrEngine,
+          selection.pageNumbers
+        )
+      : await ocrInOneCall(jobId, fileBuffer, mimeType, ocrEngine, selection);
+  const ocrDurationMs = Date.now() - ocrStart;
+
+  eventContext.pageCount = pageCount;
+  eventContext.ocrChunks = chunkCount;
+  eventContext.ocrDurationMs = ocrDurationMs;
+
+  if (job.cacheMode !== "bypass") {
+    await saveCachedOcr(cacheKey, {
+      markdown,
+      pageCount,
+      pages: await getJobPages(jobId),
+    });
+  }
+
+  return { cacheHit: false, fileHash, markdown, pageCount };
+};
+
+/**
+ * Queues org webhooks and the job's own callback. Dispatch must never fail the
+ * OCR job, so errors are only logged.
+ */
+const notifyWebhooks = async (
+  jobId: string,
+  event: WebhookEvent
+): Promise<void> => {
+  const results = await Promise.allSettled([
+    dispatchJobWebhook(jobId, event),
+    dispatchJobCallback(jobId),
+  ]);
+
+  for (const result of results) {
+    if (result.status === "rejected") {
+      workerLogger.error(
+        { error: toErrorContext(result.reason), event, jobId },
+        "webhook_dispatch_error"
+      );
+    }
+  }
+};
+
+/**
+ * Embeds the job's pages for semantic search. The job has already completed,
+ * so errors are only logged.
+ */
+const indexForSemanticSearch = async (
+  jobId: string,
+  organizationId: string
+): Promise<number | undefined> => {
+  try {
+    return await indexJobDocument(jobId, organizationId);
+  } catch (error) {
+    workerLogger.error(
+      { error: toErrorContext(error), jobId },
+      "semantic_index_error"
+    );
+    return undefined;
+  }
+};
+
+/**
+ * Deletes the source file of a zero-retention job once no attempt will read
+ * it again. Errors are only logged, the job itself is already settled.
+ */
+const discardZeroRetentionFile = async (jobId: string): Promise<void> => {
+  try {
+    const job = await getJobById(jobId);
+    if (job?.retention === "none") {
+      await discardJobFile(job);
+    }
+  } catch (error) {
+    workerLogger.error(
+      { error: toErrorContext(error), jobId },
+      "discard_file_error"
+    );
+  }
+};
+
 // eslint-disable-next-line complexity
 const processJob = async (bullJob: BullJob<JobData>): Promise<void> => {
   const { jobId } = bullJob.data;
@@ -230,58 +788,37 @@ const processJob = async (bullJob: BullJob<JobData>): Promise<void> => {
     eventContext.userId = job.userId;
     eventContext.organizationId = job.organizationId;
 
-    await updateJobStatus(jobId, "processing", { startedAt: new Date() });
-
-    let fileBuffer: Buffer;
-    let { mimeType } = job;
-
-    if (!job.fileKey && !job.sourceUrl) {
-      throw new Error("No file or URL provided for job");
+    // Cancelled while waiting for a retry, or just before a worker picked it up.
+    if (job.status === "cancelled") {
+      throw new JobCancelledError(jobId);
     }
 
-    if (job.sourceUrl && !job.fileKey) {
-      // URL job: fetch from source, process in memory, no S3
-      const response = await fetch(job.sourceUrl);
-
-      if (!response.ok) {
-        throw new Error(
-          `Failed to fetch file from URL: ${response.statusText}`
-        );
-      }
-
-      const contentType =
-        response.headers.get("content-type") ?? "application/octet-stream";
-      fileBuffer = Buffer.from(await response.arrayBuffer());
-      mimeType = contentType;
-
-      eventContext.source = "url";
+    await updateJobStatus(jobId, "processing", { startedAt: new Date() });
+    let markdown: string;
+    let pageCount: number;
+
+    if (job.sourceJobId) {
+      // Re-extraction: the source job's markdown was copied in at creation.
+      eventContext.source = "job";
+      markdown = job.markdownResult ?? "";
+      pageCount = job.pageCount ?? 0;
+      eventContext.pageCount = pageCount;
+    } else {
+      const document = await ocrJobDocument(jobId, job, eventContext);
+      ({ markdown, pageCount } = document);
 
-      await updateJobFileInfo(jobId, {
-        fileKey: null,
-        fileName: job.fileName,
-        fileSize: fileBuffer.length,
-        mimeType: contentType,
+      await updateJobStatus(jobId, "processing", {
+        cacheHit: document.cacheHit,
+        fileHash: document.fileHash,
+        markdownResult: markdown,
+        pageCount,
       });
-    } else {
-      // File upload: read from S3
-      eventContext.source = "storage";
-      const storageStart = Date.now();
-      fileBuffer = await StorageService.getFile(job.fileKey ?? "");
-      const storageDurationMs = Date.now() - storageStart;
-      eventContext.storageDurationMs = storageDurationMs;
     }
+    await assertJobNotCancelled(jobId);
 
-    const ocrStart = Date.now();
-    const { markdown, pageCount } = await parseDocument(fileBuffer, mimeType);
-    const ocrDurationMs = Date.now() - ocrStart;
-
-    eventContext.pageCount = pageCount;
-    eventContext.ocrDurationMs = ocrDurationMs;
-
-    await updateJobStatus(jobId, "processing", {
-      markdownResult: markdown,
-      pageCount,
-    });
+    // Re-extractions bill only their LLM usage; the source job paid for the
+    // pages. Cache hits are billed like any other job.
+    const billablePages = job.sourceJobId ? 0 : pageCount;
 
     if (job.type === "extract") {
       const schema = job.schema?.jsonSchema as
@@ -289,14 +826,24 @@ const processJob = async (bullJob: BullJob<JobData>): Promise<void> => {
         | undefined;
       const extractionMetrics = await runExtraction(
         jobId,
+        job.organizationId,
+        // Re-extractions cite the pages of their source job.
+        job.sourceJobId ?? jobId,
         markdown,
         schema,
+        job.schema?.extractionStrategy ?? "single",
         job.hints,
+        // A model chosen for the job wins over the schema's default.
+        job.requestedLlmModel ?? job.schema?.defaultModel ?? null,
+        job.citations,
         pageCount,
-        startTime
+        startTime,
+        billablePages
       );
+      eventContext.extractionChunks = extractionMetrics.extractionChunks;
       eventContext.llmDurationMs = extractionMetrics.llmDurationMs;
       eventContext.llmModel = extractionMetrics.llmModel;
+      eventContext.llmProvider = extractionMetrics.llmProvider;
       eventContext.processingTimeMs = extractionMetrics.processingTimeMs;
       eventContext.tokenCount = extractionMetrics.tokenCount;
     } else {
@@ -304,13 +851,34 @@ const processJob = async (bullJob: BullJob<JobData>): Promise<void> => {
         jobId,
         markdown,
         pageCount,
-        startTime
+        startTime,
+        billablePages
+      );
+    }
+
+    await notifyWebhooks(jobId, "job.completed");
+    await discardZeroRetentionFile(jobId);
+
+    // Re-extractions have no pages of their own; the source job is indexed.
+    // Zero-retention documents are never embedded.
+    if (!job.sourceJobId && job.retention !== "none") {
+      eventContext.embeddedChunks = await indexForSemanticSearch(
+        jobId,
+        job.organizationId
       );
     }
 
     eventContext.status = "completed";
     eventContext.outcome = "success";
   } catch (error) {
+    if (error instanceof JobCancelledError) {
+      // Finishing normally keeps BullMQ from retrying or marking it failed.
+      eventContext.status = "cancelled";
+      eventContext.outcome = "cancelled";
+      await discardZeroRetentionFile(jobId);
+      return;
+    }
+
     const retryable = isRetryableError(error);
 
     eventContext.status = "failed";
@@ -348,6 +916,9 @@ const worker = new Worker<JobData>("ocr-jobs", processJob, {
   connection: getWorkerConnection(),
 });
 
+const webhookWorker = createWebhookWorker();
+const maintenanceWorker = createMaintenanceWorker();
+
 worker.on("failed", (job, error) => {
   const jobId = job?.data.jobId;
   if (!jobId) {
@@ -370,7 +941,13 @@ worker.on("failed", (job, error) => {
       }
     }
 
-    await failJob(jobId, errorCode, errorMessage, shouldRetry);
+    const failed = await failJob(jobId, errorCode, errorMessage, shouldRetry);
+    if (failed && !shouldRetry) {
+      await notifyWebhooks(jobId, "job.failed");
+    }
+    if (!shouldRetry) {
+      await discardZeroRetentionFile(jobId);
+    }
     // eslint-disable-next-line promise/prefer-await-to-then -- intentional: EventEmitter handlers cannot be async
   })().catch((handlerError) => {
     workerLogger.error(
@@ -402,11 +979,30 @@ worker.on("error", (error) => {
 
 const shutdown = async (): Promise<void> => {
   workerLogger.info({ event: "shutdown" }, "worker_lifecycle");
-  await worker.close();
+  await Promise.all([
+    worker.close(),
+    webhookWorker.close(),
+    maintenanceWorker.close(),
+  ]);
   process.exit(0);
 };
 
 process.on("SIGTERM", shutdown);
 process.on("SIGINT", shutdown);
 
+try {
+  await scheduleMaintenance();
+} catch (error) {
+  workerLogger.error(
+    {
+      error: {
+        code: error instanceof Error ? error.name : "UNKNOWN_ERROR",
+        message: error instanceof Error ? error.message : String(error),
+      },
+      queue: "maintenance",
+    },
+    "schedule_error"
+  );
+}
+
 workerLogger.info({ event: "startup" }, "worker_lifecycle");
@@ -0,0 +1,102 @@
+import { type Job as BullJob, Worker } from "bullmq";
+
+import { purgeExpiredIdempotencyKeys } from "@/lib/idempotency";
+import { workerLogger } from "@/lib/worker-logger";
+import {
+  IDEMPOTENCY_PURGE_JOB,
+  MAINTENANCE_QUEUE,
+  RETENTION_PURGE_JOB,
+  UNDELIVERED_PURGE_JOB,
+  getWorkerConnection,
+} from "@/services/queue";
+import {
+  purgeExpiredJobs,
+  purgeUndeliveredResults,
+} from "@/services/retention";
+
+interface MaintenanceTask {
+  event: string;
+  /** Resolves to the counts that are logged when the task finishes. */
+  run: () => Promise<object>;
+}
+
+const TASKS: Record<string, MaintenanceTask> = {
+  [IDEMPOTENCY_PURGE_JOB]: {
+    event: "idempotency_purge",
+    run: async () => ({ keysPurged: await purgeExpiredIdempotencyKeys() }),
+  },
+  [RETENTION_PURGE_JOB]: {
+    event: "retention_purge",
+    run: () => purgeExpiredJobs(),
+  },
+  [UNDELIVERED_PURGE_JOB]: {
+    event: "undelivered_purge",
+    run: async () => ({ resultsPurged: await purgeUndeliveredResults() }),
+  },
+};
+
+const runMaintenance = async (bullJob: BullJob): Promise<void> => {
+  const task = TASKS[bullJob.name];
+  if (!task) {
+    return;
+  }
+
+  const startTime = Date.now();
+
+  try {
+    const summary = await task.run();
+    workerLogger.info(
+      {
+        ...summary,
+        durationMs: Date.now() - startTime,
+        event: task.event,
+        outcome: "success",
+        queue: MAINTENANCE_QUEUE,
+      },
+      task.event
+    );
+  } catch (error) {
+    workerLogger.error(
+      {
+        durationMs: Date.now() - startTime,
+        error: {
+          code: error instanceof Error ? error.name : "UNKNOWN_ERROR",
+          message: error instanceof Error ? error.message : String(error),
+        },
+        event: task.event,
+        outcome: "error",
+        queue: MAINTENANCE_QUEUE,
+      },
+      task.event
+    );
+    throw error;
+  }
+};
+
+/**
+ * Runs scheduled housekeeping, such as the retention and idempotency key
+ * purges, in the worker
+ * process. Only one maintenance job runs at a time.
+ */
+export const createMaintenanceWorker = (): Worker => {
+  const worker = new Worker(MAINTENANCE_QUEUE, runMaintenance, {
+    concurrency: 1,
+    connection: getWorkerConnection(),
+  });
+
+  worker.on("error", (error) => {
+    workerLogger.error(
+      {
+        error: {
+          code: error.name,
+          message: error.message,
+          stack: error.stack,
+        },
+        queue: MAINTENANCE_QUEUE,
+      },
+      "worker_error"
+    );
+  });
+
+  return worker;
+};
@@ -0,0 +1,86 @@
+import { type Job as BullJob, Worker } from "bullmq";
+
+import { workerLogger } from "@/lib/worker-logger";
+import { type WebhookQueueData, getWorkerConnection } from "@/services/queue";
+import { deliverJobCallback, deliverWebhook } from "@/services/webhooks";
+
+const WEBHOOK_CONCURRENCY = 10;
+
+const processDelivery = async (
+  bullJob: BullJob<WebhookQueueData>
+): Promise<void> => {
+  const { data } = bullJob;
+  const maxAttempts = bullJob.opts.attempts ?? 1;
+  const attempt = bullJob.attemptsMade + 1;
+  const isFinalAttempt = attempt >= maxAttempts;
+  const startTime = Date.now();
+  const target =
+    "deliveryId" in data
+      ? { deliveryId: data.deliveryId }
+      : { callbackJobId: data.jobId };
+
+  try {
+    await ("deliveryId" in data
+      ? deliverWebhook(data.deliveryId, isFinalAttempt)
+      : deliverJobCallback(data.jobId, isFinalAttempt));
+    workerLogger.info(
+      {
+        ...target,
+        attempt,
+        durationMs: Date.now() - startTime,
+        event: "webhook_delivery",
+        outcome: "success",
+        queue: "webhook-deliveries",
+      },
+      "webhook_delivery"
+    );
+  } catch (error) {
+    workerLogger.warn(
+      {
+        ...target,
+        attempt,
+        durationMs: Date.now() - startTime,
+        error: {
+          code: error instanceof Error ? error.name : "UNKNOWN_ERROR",
+          message: error instanceof Error ? error.message : String(error),
+        },
+        event: "webhook_delivery",
+        maxAttempts,
+        outcome: "error",
+        queue: "webhook-deliveries",
+      },
+      "webhook_delivery"
+    );
+    throw error;
+  }
+};
+
+/**
+ * Runs alongside the OCR worker so webhook deliveries need no extra process.
+ */
+export const createWebhookWorker = (): Worker<WebhookQueueData> => {
+  const worker = new Worker<WebhookQueueData>(
+    "webhook-deliveries",
+    processDelivery,
+    {
+      concurrency: WEBHOOK_CONCURRENCY,
+      connection: getWorkerConnection(),
+    }
+  );
+
+  worker.on("error", (error) => {
+    workerLogger.error(
+      {
+        error: {
+          code: error.name,
+          message: error.message,
+          stack: error.stack,
+        },
+        queue: "webhook-deliveries",
+      },
+      "worker_error"
+    );
+  });
+
+  return worker;
+};
@@ -225,6 +225,9 @@ export const ApiKeysSheet = ({ open, onOpenChange }: ApiKeysSheetProps) => {
   const [isCreating, setIsCreating] = useState(false);
   const [newKeyName, setNewKeyName] = useState("");
   const [newKey, setNewKey] = useState<string | null>(null);
+  const [newCallbackSecret, setNewCallbackSecret] = useState<string | null>(
+    null
+  );
   const [copiedId, setCopiedId] = useState<string | null>(null);
   const [showNewKey, setShowNewKey] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -260,6 +263,7 @@ export const ApiKeysSheet = ({ open, onOpenChange }: ApiKeysSheetProps) => {
       }
 
       setNewKey(response.data.key);
+      setNewCallbackSecret(response.data.callbackSecret);
       setNewKeyName("");
       queryClient.invalidateQueries({ queryKey: ["api-keys"] });
     } catch (error) {
@@ -296,6 +300,7 @@ export const ApiKeysSheet = ({ open, onOpenChange }: ApiKeysSheetProps) => {
 
   const handleCloseNewKey = useCallback(() => {
     setNewKey(null);
+    setNewCallbackSecret(null);
     setShowNewKey(true);
   }, []);
 
@@ -325,6 +330,12 @@ export const ApiKeysSheet = ({ open, onOpenChange }: ApiKeysSheetProps) => {
     }
   }, [newKey, handleCopyText]);
 
+  const handleCopyNewCallbackSecret = useCallback(() => {
+    if (newCallbackSecret) {
+      handleCopyText(newCallbackSecret, "new-callback");
+    }
+  }, [newCallbackSecret, handleCopyText]);
+
   const handleSetKeyToRevoke = useCallback((key: ApiKey | null) => {
     setKeyToRevoke(key);
   }, []);
@@ -449,6 +460,31 @@ export const ApiKeysSheet = ({ open, onOpenChange }: ApiKeysSheetProps) => {
                     )}
                   </Button>
                 </div>
+                {newCallbackSecret && (
+                  <>
+                    <p className="mt-3 text-xs text-muted-foreground">
+                      Callback signing secret
+                    </p>
+                    <div className="mt-1 flex items-center gap-1">
+                      <code className="min-w-0 flex-1 truncate rounded bg-background px-2 py-1 font-mono text-xs">
+                        {showNewKey ? newCallbackSecret : "•".repeat(32)}
+                      </code>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="size-7 shrink-0"
+                        onClick={handleCopyNewCallbackSecret}
+                        aria-label="Copy callback secret"
+                      >
+                        {copiedId === "new-callback" ? (
+                          <Check className="size-3.5 text-success" />
+                        ) : (
+                          <Copy className="size-3.5" />
+                        )}
+                      </Button>
+                    </div>
+                  </>
+                )}
               </div>
             )}
 
@@ -1,6 +1,6 @@
-import { useInfiniteQuery } from "@tanstack/react-query";
+import { useInfiniteQuery, useQuery } from "@tanstack/react-query";
 import { Link, useNavigate, useRouterState } from "@tanstack/react-router";
-import { ChevronDown, Key, LogOut } from "lucide-react";
+import { ChevronDown, Key, LogOut, Search } from "lucide-react";
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 
 import { Button } from "@/components/ui/button";
@@ -10,6 +10,7 @@ import {
   DropdownMenuItem,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
+import { Input } from "@/components/ui/input";
 import {
   Sidebar,
   SidebarContent,
@@ -25,7 +26,116 @@ import {
 import { Spinner } from "@/components/ui/spinner";
 import { useProcessingJobsRealtime } from "@/hooks/use-processing-jobs-realtime";
 import { authClient, signOut, useSession } from "@/lib/auth-client";
-import { isJobProcessing, jobsInfiniteQueryOptions } from "@/lib/queries";
+import {
+  isJobProcessing,
+  jobsInfiniteQueryOptions,
+  searchQueryOptions,
+  type SearchHit,
+} from "@/lib/queries";
+import { splitHighlights } from "@/lib/search";
+
+const SEARCH_DEBOUNCE_MS = 300;
+
+const SearchSnippet = ({ snippet }: { snippet: string }) => (
+  <span className="text-muted-foreground line-clamp-2 text-xs">
+    {splitHighlights(snippet).map((part) =>
+      part.highlighted ? (
+        <mark
+          key={part.offset}
+          className="bg-yellow-200/70 text-foreground dark:bg-yellow-500/40"
+        >
+          {part.text}
+        </mark>
+      ) : (
+        <span key={part.offset}>{part.text}</span>
+      )
+    )}
+  </span>
+);
+
+const SearchResultsGroup = ({
+  query,
+  organizationScope,
+  currentPath,
+}: {
+  query: string;
+  organizationScope: string;
+  currentPath: string;
+}) => {
+  const { data: hits, isFetching } = useQuery(
+    searchQueryOptions(query, organizationScope)
+  );
+
+  const renderSearchHit = (hit: SearchHit) => {
+    const [bestMatch] = hit.matches;
+
+    return (
+      <SidebarMenuItem key={hit.jobId}>
+        <Link
+          to="/parse/$jobId"
+          params={{ jobId: hit.jobId }}
+          search={{ q: query }}
+        >
+          <SidebarMenuButton
+            isActive={currentPath === `/parse/${hit.jobId}`}
+            className="h-auto flex-col items-start gap-0.5 py-1.5"
+          >
+            <span className="w-full truncate">
+              {hit.fileName}
+              {bestMatch && (
+                <span className="text-muted-foreground ml-1 text-xs">
+                  p. {bestMatch.pageNumber}
+                </span>
+              )}
+            </span>
+            {bestMatch && <SearchSnippet snippet={bestMatch.snippet} />}
+          </SidebarMenuButton>
+        </Link>
+      </SidebarMenuItem>
+    );
+  };
+
+  const renderSearchResults = () => {
+    if (!hits) {
+      return (
+        <SidebarMenuItem>
+          <SidebarMenuButton disabled>
+            <Spinner className="size-4" />
+            <span>Searching…</span>
+          </SidebarMenuButton>
+        </SidebarMenuItem>
+      );
+    }
+
+    if (hits.length === 0) {
+      return (
+        <SidebarMenuItem>
+          <SidebarMenuButton disabled>
+            <span className="text-muted-foreground">No matches</span>
+          </SidebarMenuButton>
+        </SidebarMenuItem>
+      );
+    }
+
+    return hits.map(renderSearchHit);
+  };
+
+  if (!query) {
+    return null;
+  }
+
+  return (
+    <SidebarGroup>
+      <SidebarGroupLabel>
+        <span>Results</span>
+        {isFetching && <Spinner className="ml-2 size-3" />}
+      </SidebarGroupLabel>
+      <SidebarGroupContent>
+        <SidebarMenu>{renderSearchResults()}</SidebarMenu>
+      </SidebarGroupContent>
+    </SidebarGroup>
+  );
+};
 
 export const AppSidebar = ({
   onOpenApiKeys,
@@ -38,6 +148,9 @@ export const AppSidebar = ({
   const { data: session } = useSession();
   const { data: activeOrganization } = authClient.useActiveOrganization();
   const [historyOpen, setHistoryOpen] = useState(true);
+  const [searchInput, setSearchInput] = useState("");
+  const [searchQuery, setSearchQuery] = useState("");
+  const organizationScope = session?.session.activeOrganizationId ?? "active";
 
   const {
     data: jobsData,
@@ -45,10 +158,29 @@ export const AppSidebar = ({
     hasNextPage,
     fetchNextPage,
     isFetchingNextPage,
-  } = useInfiniteQuery(
-    jobsInfiniteQueryOptions(session?.session.activeOrganizationId ?? "active")
+  } = useInfiniteQuery(jobsInfiniteQueryOptions(organizationScope));
+
+  useEffect(() => {
+    const timeout = setTimeout(
+      () => setSearchQuery(searchInput.trim()),
+      SEARCH_DEBOUNCE_MS
+    );
+    return () => clearTimeout(timeout);
+  }, [searchInput]);
+
+  const handleSearchChange = useCallback(
+    (e: React.ChangeEvent<HTMLInputElement>) => {
+      setSearchInput(e.target.value);
+    },
+    []
   );
 
+  const handleSearchKeyDown = useCallback((e: React.KeyboardEvent) => {
+    if (e.key === "Escape") {
+      setSearchInput("");
+    }
+  }, []);
+
   const jobs = useMemo(
     () => jobsData?.pages.flatMap((page) => page.data) ?? [],
     [jobsData]
@@ -167,6 +299,21 @@ export const AppSidebar = ({
       </SidebarHeader>
 
       <SidebarContent>
+        <SidebarGroup>
+          <SidebarGroupContent className="relative">
+            <Search className="text-muted-foreground pointer-events-none absolute top-1/2 left-2.5 size-4 -translate-y-1/2" />
+            <Input
+              type="search"
+              value={searchInput}
+              onChange={handleSearchChange}
+              onKeyDown={handleSearchKeyDown}
+              placeholder="Search documents…"
+              aria-label="Search documents"
+              className="h-8 pl-8"
+            />
+          </SidebarGroupContent>
+        </SidebarGroup>
+
         <SidebarGroup>
           <SidebarGroupLabel>Methods</SidebarGroupLabel>
           <SidebarGroupContent>
@@ -189,7 +336,14 @@ export const AppSidebar = ({
           </SidebarGroupContent>
         </SidebarGroup>
 
-        <SidebarGroup>
+        <SearchResultsGroup
+          query={searchQuery}
+          organizationScope={organizationScope}
+          currentPath={currentPath}
+        />
+
+        {/* Hidden rather than unmounted so the history keeps its pages. */}
+        <SidebarGroup hidden={searchQuery.length > 0}>
           <SidebarGroupLabel
             render={<button type="button" />}
             onClick={toggleHistory}
@@ -0,0 +1,226 @@
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { MessageSquare, SendHorizontal } from "lucide-react";
+import {
+  type ChangeEvent,
+  type FormEvent,
+  useCallback,
+  useEffect,
+  useRef,
+  useState,
+} from "react";
+
+import { Panel } from "@/components/panel";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Spinner } from "@/components/ui/spinner";
+import { type JobQuestion, jobQuestionsQueryOptions } from "@/lib/queries";
+import { splitCitations, streamAnswer } from "@/lib/questions";
+
+interface CitationButtonProps {
+  pageNumber: number;
+  onSelect?: (pageNumber: number) => void;
+}
+
+const CitationButton = ({ pageNumber, onSelect }: CitationButtonProps) => {
+  const handleClick = useCallback(
+    () => onSelect?.(pageNumber),
+    [onSelect, pageNumber]
+  );
+
+  return (
+    <button
+      type="button"
+      className="bg-muted text-muted-foreground hover:bg-muted/70 hover:text-foreground mx-0.5 rounded px-1 py-0.5 text-xs font-medium"
+      onClick={handleClick}
+    >
+      p. {pageNumber}
+    </button>
+  );
+};
+
+interface AnswerTextProps {
+  answer: string;
+  onCitationSelect?: (pageNumber: number) => void;
+}
+
+const AnswerText = ({ answer, onCitationSelect }: AnswerTextProps) => {
+  let offset = 0;
+  const parts = splitCitations(answer).map((text, index) => {
+    const part = { isCitation: index % 2 === 1, offset, text };
+    offset += text.length + 1;
+    return part;
+  });
+
+  return (
+    <p className="text-sm whitespace-pre-wrap">
+      {parts.map((part) =>
+        part.isCitation ? (
+          <CitationButton
+            key={part.offset}
+            pageNumber={Number(part.text)}
+            onSelect={onCitationSelect}
+          />
+        ) : (
+          <span key={part.offset}>{part.text}</span>
+        )
+      )}
+    </p>
+  );
+};
+
+interface ExchangeProps {
+  question: string;
+  answer: string;
+  onCitationSelect?: (pageNumber: number) => void;
+}
+
+const Exchange = ({ question, answer, onCitationSelect }: ExchangeProps) => (
+  <div className="flex flex-col gap-2">
+    <p className="bg-muted self-end rounded-md px-3 py-2 text-sm">{question}</p>
+    {answer ? (
+      <AnswerText answer={answer} onCitationSelect={onCitationSelect} />
+    ) : (
+      <Spinner className="size-4 text-muted-foreground" />
+    )}
+  </div>
+);
+
+interface DocumentChatProps {
+  jobId: string;
+  /** Called with the page number when a citation is clicked. */
+  onCitationSelect?: (pageNumber: number) => void;
+}
+
+export const DocumentChat = ({
+  jobId,
+  onCitationSelect,
+}: DocumentChatProps) => {
+  const queryClient = useQueryClient();
+  const { data: history = [], isLoading } = useQuery(
+    jobQuestionsQueryOptions(jobId)
+  );
+  const [draft, setDraft] = useState("");
+  const [pending, setPending] = useState<{
+    question: string;
+    answer: string;
+  } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const bottomRef = useRef<HTMLDivElement>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ block: "end" });
+  }, [history.length, pending?.answer]);
+
+  const handleDraftChange = useCallback(
+    (event: ChangeEvent<HTMLInputElement>) => setDraft(event.target.value),
+    []
+  );
+
+  const handleSubmit = useCallback(
+    async (event: FormEvent<HTMLFormElement>) => {
+      event.preventDefault();
+      const question = draft.trim();
+      if (!question || pending) {
+        return;
+      }
+
+      const controller = new AbortController();
+      abortRef.current = controller;
+      setDraft("");
+      setError(null);
+      setPending({ answer: "", question });
+
+      try {
+        const saved = await streamAnswer(jobId, question, {
+          onToken: (text) =>
+            setPending((current) =>
+              current ? { ...current, answer: current.answer + text } : current
+            ),
+          signal: controller.signal,
+        });
+        queryClient.setQueryData<JobQuestion[]>(
+          jobQuestionsQueryOptions(jobId).queryKey,
+          (old) => [...(old ?? []), saved]
+        );
+      } catch (streamError) {
+        if (!controller.signal.aborted) {
+          setError(
+            streamError instanceof Error
+              ? streamError.message
+              : "Failed to ask question"
+          );
+          setDraft(question);
+        }
+      } finally {
+        setPending(null);
+      }
+    },
+    [draft, jobId, pending, queryClient]
+  );
+
+  const isEmpty = history.length === 0 && !pending;
+
+  return (
+    <Panel title="Ask" contentClassName="flex flex-col">
+      <div className="min-h-0 flex-1 overflow-auto p-4">
+        {isLoading && (
+          <div className="flex items-center justify-center py-8">
+            <Spinner className="size-6 text-muted-foreground" />
+          </div>
+        )}
+        {!isLoading && isEmpty && (
+          <div className="text-muted-foreground flex h-full flex-col items-center justify-center gap-2 text-center text-sm">
+            <MessageSquare className="size-8" />
+            <p>Ask anything about this document.</p>
+            <p className="text-xs">Answers cite the pages they come from.</p>
+          </div>
+        )}
+        <div className="flex flex-col gap-6">
+          {history.map((entry) => (
+            <Exchange
+              key={entry.id}
+              question={entry.question}
+              answer={entry.answer}
+              onCitationSelect={onCitationSelect}
+            />
+          ))}
+          {pending && (
+            <Exchange
+              question={pending.question}
+              answer={pending.answer}
+              onCitationSelect={onCitationSelect}
+            />
+          )}
+        </div>
+        <div ref={bottomRef} />
+      </div>
+      <form
+        className="flex shrink-0 flex-col gap-2 border-t p-2"
+        onSubmit={handleSubmit}
+      >
+        {error && <p className="text-destructive px-1 text-xs">{error}</p>}
+        <div className="flex gap-2">
+          <Input
+            value={draft}
+            onChange={handleDraftChange}
+            placeholder="Ask a question about this document"
+            maxLength={2000}
+            disabled={!!pending}
+            aria-label="Question"
+          />
+          <Button
+            type="submit"
+            size="icon"
+            disabled={!draft.trim() || !!pending}
+            aria-label="Send question"
+          >
+            <SendHorizontal className="size-4" />
+          </Button>
+        </div>
+      </form>
+    </Panel>
+  );
+};
@@ -1,6 +1,8 @@
 import { useQuery } from "@tanstack/react-query";
 import { FileText } from "lucide-react";
 
+import type { JobFieldCitation } from "@/lib/queries";
+
 import { Panel } from "@/components/panel";
 import { Spinner } from "@/components/ui/spinner";
 
@@ -20,12 +22,51 @@ interface DocumentPreviewProps {
   fileUrl?: string | null;
   fileName?: string | null;
   mimeType?: string | null;
+  /** PDF page to show; changing it jumps the viewer to that page. */
+  page?: number;
+  /**
+   * Source region to outline. Only drawn over images, since the browser's
+   * PDF viewer does not expose where it renders a page.
+   */
+  highlight?: JobFieldCitation | null;
 }
 
+const HighlightOverlay = ({ citation }: { citation: JobFieldCitation }) => {
+  const { bbox, pageHeight, pageWidth } = citation;
+  if (!bbox || !pageWidth || !pageHeight) {
+    return null;
+  }
+  const [x1, y1, x2, y2] = bbox;
+
+  // Both the image and the overlay are letterboxed into the same padded box,
+  // so page pixels line up with the rendered image.
+  return (
+    <svg
+      aria-hidden="true"
+      className="pointer-events-none absolute inset-0 size-full p-4"
+      preserveAspectRatio="xMidYMid meet"
+      viewBox={`0 0 ${pageWidth} ${pageHeight}`}
+    >
+      <rect
+        x={x1}
+        y={y1}
+        width={x2 - x1}
+        height={y2 - y1}
+        rx={4}
+        className="fill-amber-400/25 stroke-amber-500"
+        strokeWidth={2}
+        vectorEffect="non-scaling-stroke"
+      />
+    </svg>
+  );
+};
+
 export const DocumentPreview = ({
   fileUrl,
   fileName,
   mimeType,
+  page,
+  highlight,
 }: DocumentPreviewProps) => {
   const isPdf = mimeType?.includes("pdf");
   const isImage = mimeType?.startsWith("image/");
@@ -64,7 +105,8 @@ export const DocumentPreview = ({
           )}
           {blobUrl ? (
             <object
-              data={blobUrl}
+              key={page}
+              data={page ? `${blobUrl}#page=${page}` : blobUrl}
               type="application/pdf"
               className="h-full w-full"
             >
@@ -94,9 +136,10 @@ export const DocumentPreview = ({
               height={1600}
               loading="lazy"
               decoding="async"
-              className="mx-auto max-h-full max-w-full object-contain p-4"
+              className="size-full object-contain p-4"
             />
           )}
+          {blobUrl && highlight && <HighlightOverlay citation={highlight} />}
         </>
       )}
 
@@ -1,8 +1,11 @@
-import type { JobStatus } from "@ocrbase/db/lib/enums";
+import type { JobProgress, JobStatus } from "@ocrbase/db/lib/enums";
 
-import { Download } from "lucide-react";
+import { Download, TriangleAlert } from "lucide-react";
 import { useCallback, useMemo } from "react";
 
+import type { JobFieldMeta, JobValidationError } from "@/lib/queries";
+
+import { JobProgressBar } from "@/components/job-status";
 import { Panel } from "@/components/panel";
 import { CodeBlock } from "@/components/ui/code-block";
 import { Spinner } from "@/components/ui/spinner";
@@ -13,14 +16,123 @@ interface ExtractResultProps {
   jobId?: string;
   status?: JobStatus;
   errorMessage?: string | null;
+  progress?: JobProgress | null;
+  validationErrors?: JobValidationError[] | null;
+  fields?: JobFieldMeta[] | null;
+  /** Called with the field under the pointer, or null when it leaves. */
+  onFieldHover?: (field: JobFieldMeta | null) => void;
+  onFieldSelect?: (field: JobFieldMeta) => void;
+}
+
+const ValidationWarnings = ({ errors }: { errors: JobValidationError[] }) => (
+  <div className="shrink-0 rounded-md border border-amber-500/40 bg-amber-500/10 px-3 py-2 text-xs">
+    <p className="flex items-center gap-1.5 font-medium text-amber-700 dark:text-amber-400">
+      <TriangleAlert className="size-3.5" />
+      {errors.length === 1
+        ? "1 field does not match the schema"
+        : `${errors.length} fields do not match the schema`}
+    </p>
+    <ul className="mt-1 max-h-24 space-y-0.5 overflow-y-auto text-muted-foreground">
+      {errors.map((error) => (
+        <li key={`${error.path}:${error.message}`}>
+          <code className="text-foreground">{error.path || "/"}</code>{" "}
+          {error.message}
+        </li>
+      ))}
+    </ul>
+  </div>
+);
+
+const confidenceClassName = (confidence: number): string => {
+  if (confidence >= 0.8) {
+    return "text-emerald-600 dark:text-emerald-400";
+  }
+  if (confidence >= 0.5) {
+    return "text-amber-700 dark:text-amber-400";
+  }
+  return "text-destructive";
+};
+
+interface FieldSourceRowProps {
+  field: JobFieldMeta;
+  onHover?: (field: JobFieldMeta | null) => void;
+  onSelect?: (field: JobFieldMeta) => void;
+}
+
+const FieldSourceRow = ({ field, onHover, onSelect }: FieldSourceRowProps) => {
+  const handleEnter = useCallback(() => onHover?.(field), [field, onHover]);
+  const handleLeave = useCallback(() => onHover?.(null), [onHover]);
+  const handleClick = useCallback(() => onSelect?.(field), [field, onSelect]);
+
+  return (
+    <li>
+      <button
+        type="button"
+        onBlur={handleLeave}
+        onClick={handleClick}
+        onFocus={handleEnter}
+        onMouseEnter={handleEnter}
+        onMouseLeave={handleLeave}
+        className="flex w-full items-baseline gap-2 rounded px-2 py-1 text-left hover:bg-muted"
+      >
+        <code className="shrink-0 text-foreground">{field.path}</code>
+        <span className="min-w-0 flex-1 truncate text-muted-foreground">
+          {field.citation
+            ? `“${field.citation.quote}”`
+            : "Not found in the document"}
+        </span>
+        {field.citation && (
+          <span className="shrink-0 text-muted-foreground">
+            p. {field.citation.pageNumber}
+          </span>
+        )}
+        <span
+          className={`shrink-0 font-medium tabular-nums ${confidenceClassName(field.confidence)}`}
+        >
+          {Math.round(field.confidence * 100)}%
+        </span>
+      </button>
+    </li>
+  );
+};
+
+interface FieldSourcesProps {
+  fields: JobFieldMeta[];
+  onFieldHover?: (field: JobFieldMeta | null) => void;
+  onFieldSelect?: (field: JobFieldMeta) => void;
 }
 
+const FieldSources = ({
+  fields,
+  onFieldHover,
+  onFieldSelect,
+}: FieldSourcesProps) => (
+  <div className="shrink-0 rounded-md border text-xs">
+    <p className="border-b px-3 py-2 font-medium">Sources</p>
+    <ul className="max-h-48 overflow-y-auto p-1">
+      {fields.map((field) => (
+        <FieldSourceRow
+          key={field.path}
+          field={field}
+          onHover={onFieldHover}
+          onSelect={onFieldSelect}
+        />
+      ))}
+    </ul>
+  </div>
+);
+
 export const ExtractResult = ({
   json,
   isLoading,
   jobId,
   status,
   errorMessage,
+  progress,
+  validationErrors,
+  fields,
+  onFieldHover,
+  onFieldSelect,
 }: ExtractResultProps) => {
   const jsonString = useMemo(
     () =>
@@ -50,6 +162,7 @@ export const ExtractResult = ({
       <div className="flex h-full flex-col items-center justify-center gap-3 rounded-md border bg-muted/50">
         <Spinner className="size-8 text-muted-foreground" />
         <p className="text-sm text-muted-foreground">Extracting data…</p>
+        {progress && <JobProgressBar progress={progress} />}
         {errorMessage && (
           <p className="max-w-xs text-center text-xs text-destructive">
             {errorMessage}
@@ -72,6 +185,17 @@ export const ExtractResult = ({
     );
   }
 
+  if (status === "cancelled") {
+    return (
+      <div className="flex h-full flex-col items-center justify-center gap-2 rounded-md border bg-muted/50 px-6 text-center">
+        <p className="text-sm font-medium">Extraction cancelled</p>
+        <p className="text-sm text-muted-foreground">
+          This job was cancelled before producing JSON output.
+        </p>
+      </div>
+    );
+  }
+
   if (json === null || json === undefined) {
     return (
       <Panel title="Extracted Data">
@@ -104,14 +228,26 @@ export const ExtractResult = ({
   );
 
   return (
-    <CodeBlock
-      filename={`${jobId || "result"}.json`}
-      language="json"
-      lineNumbers={false}
-      actions={downloadButton}
-      className="h-full min-h-0 overflow-hidden [&>div]:h-full [&>div>div:last-child]:min-h-0 [&>div>div:last-child]:flex-1"
-    >
-      {jsonString}
-    </CodeBlock>
+    <div className="flex h-full min-h-0 flex-col gap-2">
+      {validationErrors && validationErrors.length > 0 && (
+        <ValidationWarnings errors={validationErrors} />
+      )}
+      <CodeBlock
+        filename={`${jobId || "result"}.json`}
+        language="json"
+        lineNumbers={false}
+        actions={downloadButton}
+        className="min-h-0 flex-1 overflow-hidden [&>div]:h-full [&>div>div:last-child]:min-h-0 [&>div>div:last-child]:flex-1"
+      >
+        {jsonString}
+      </CodeBlock>
+      {fields && fields.length > 0 && (
+        <FieldSources
+          fields={fields}
+          onFieldHover={onFieldHover}
+          onFieldSelect={onFieldSelect}
+        />
+      )}
+    </div>
   );
 };
@@ -1,13 +1,16 @@
 import type { InfiniteData } from "@tanstack/react-query";
 
-import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { useNavigate } from "@tanstack/react-router";
 import { FilePlus2 } from "lucide-react";
 import { useCallback, useState } from "react";
 
 import { Spinner } from "@/components/ui/spinner";
+import { useSelectedEngine } from "@/hooks/use-selected-engine";
+import { useSelectedModel } from "@/hooks/use-selected-model";
 import { api } from "@/lib/api";
 import { useSession } from "@/lib/auth-client";
+import { modelsQueryOptions } from "@/lib/queries";
 
 const ACCEPTED_TYPES = [
   "application/pdf",
@@ -29,11 +32,23 @@ export const FileUpload = ({ mode, title, description }: FileUploadProps) => {
   const { data: session } = useSession();
   const [isDragging, setIsDragging] = useState(false);
   const [validationError, setValidationError] = useState<string | null>(null);
+  const [selectedEngine] = useSelectedEngine();
+  const [selectedModel] = useSelectedModel();
+  const { data: models } = useQuery(modelsQueryOptions());
+
+  // A stored model the organization no longer allows would fail the upload.
+  const model =
+    mode === "extract" && models?.some(({ id }) => id === selectedModel)
+      ? (selectedModel ?? undefined)
+      : undefined;
 
   const uploadMutation = useMutation({
     mutationFn: async (file: File) => {
       // Step 1: Get presigned upload URL
       const presignRes = await api.v1.uploads.presign.post({
+        // The extract view shows where each value came from.
+        citations: mode === "extract" || undefined,
+        engine: selectedEngine ?? undefined,
         fileName: file.name,
         fileSize: file.size,
         mimeType: file.type as
@@ -42,6 +57,7 @@ export const FileUpload = ({ mode, title, description }: FileUploadProps) => {
           | "image/jpeg"
           | "image/webp"
           | "image/tiff",
+        model,
         type: mode,
       });
       if (presignRes.error) {
@@ -89,8 +105,8 @@ export const FileUpload = ({ mode, title, description }: FileUploadProps) => {
           createdAt: string;
         }[];
         pagination: {
-          currentPage: number;
           hasNextPage: boolean;
+          nextCursor: string | null;
           totalCount: number;
         };
       }
@@ -108,13 +124,13 @@ export const FileUpload = ({ mode, title, description }: FileUploadProps) => {
       ): InfiniteData<JobsPageResponse> => {
         if (!old) {
           return {
-            pageParams: [1],
+            pageParams: [undefined],
             pages: [
               {
                 data: [newJob],
                 pagination: {
-                  currentPage: 1,
                   hasNextPage: false,
+                  nextCursor: null,
                   totalCount: 1,
                 },
               },
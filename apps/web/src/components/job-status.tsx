@@ -1,6 +1,10 @@
-import type { JobStatus } from "@ocrbase/db/lib/enums";
+import type {
+  JobProgress,
+  JobProgressStage,
+  JobStatus,
+} from "@ocrbase/db/lib/enums";
 
-import { CheckCircle, XCircle, Clock } from "lucide-react";
+import { Ban, CheckCircle, XCircle, Clock } from "lucide-react";
 
 import { Badge } from "@/components/ui/badge";
 import { Spinner } from "@/components/ui/spinner";
@@ -19,6 +23,11 @@ export const JobStatusBadge = ({ status, progress }: JobStatusProps) => {
       variant: "default" | "secondary" | "destructive" | "outline";
     }
   > = {
+    cancelled: {
+      icon: <Ban className="size-3" />,
+      label: "Cancelled",
+      variant: "secondary",
+    },
     completed: {
       icon: <CheckCircle className="size-3" />,
       label: "Completed",
@@ -55,3 +64,58 @@ export const JobStatusBadge = ({ status, progress }: JobStatusProps) => {
     </Badge>
   );
 };
+
+const STAGE_LABELS: Record<JobProgressStage, string> = {
+  extracting: "Extracting data",
+  fetching: "Fetching document",
+  ocr: "Reading pages",
+};
+
+const formatEta = (etaMs: number): string => {
+  const seconds = Math.ceil(etaMs / 1000);
+  if (seconds < 60) {
+    return `~${seconds}s left`;
+  }
+  return `~${Math.ceil(seconds / 60)} min left`;
+};
+
+interface JobProgressBarProps {
+  progress: JobProgress;
+}
+
+export const JobProgressBar = ({ progress }: JobProgressBarProps) => {
+  const { etaMs, pagesDone, pagesTotal, stage } = progress;
+  const hasPages = pagesTotal !== undefined && pagesTotal > 0;
+  const percent = hasPages
+    ? Math.min(100, Math.round(((pagesDone ?? 0) / pagesTotal) * 100))
+    : null;
+
+  return (
+    <div className="flex w-64 flex-col gap-1.5">
+      <div className="flex items-center justify-between text-xs text-muted-foreground">
+        <span>
+          {STAGE_LABELS[stage]}
+          {hasPages && ` · ${pagesDone ?? 0}/${pagesTotal}`}
+        </span>
+        {etaMs !== undefined && etaMs > 0 && <span>{formatEta(etaMs)}</span>}
+      </div>
+      <div
+        className="h-1.5 overflow-hidden rounded-full bg-muted"
+        role="progressbar"
+        aria-label={STAGE_LABELS[stage]}
+        aria-valuemin={0}
+        aria-valuemax={100}
+        aria-valuenow={percent ?? undefined}
+      >
+        <div
+          className={
+            percent === null
+              ? "h-full w-1/3 animate-pulse rounded-full bg-primary"
+              : "h-full rounded-full bg-primary transition-[width]"
+          }
+          style={percent === null ? undefined : { width: `${percent}%` }}
+        />
+      </div>
+    </div>
+  );
+};
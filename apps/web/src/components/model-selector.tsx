@@ -1,3 +1,111 @@
-export const ModelSelector = () => (
-  <span className="px-3 py-2 text-lg font-medium">PaddleOCR-VL-1.5 0.9B</span>
-);
+import { useQuery } from "@tanstack/react-query";
+import { ChevronDown } from "lucide-react";
+import { useCallback, useMemo } from "react";
+
+import type { OcrEngineName } from "@/lib/queries";
+
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuGroup,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useSelectedEngine } from "@/hooks/use-selected-engine";
+import { useSelectedModel } from "@/hooks/use-selected-model";
+import { enginesQueryOptions, modelsQueryOptions } from "@/lib/queries";
+
+const FALLBACK_LABEL = "PaddleOCR-VL-1.5 0.9B";
+
+export const ModelSelector = () => {
+  const { data: engines } = useQuery(enginesQueryOptions());
+  const { data: models } = useQuery(modelsQueryOptions());
+  const [selectedEngine, setSelectedEngine] = useSelectedEngine();
+  const [selectedModel, setSelectedModel] = useSelectedModel();
+
+  const availableEngines = useMemo(
+    () => engines?.filter((engine) => engine.available) ?? [],
+    [engines]
+  );
+  const extractionModels = useMemo(() => models ?? [], [models]);
+
+  // Fall back to the organization default when the stored choice is no
+  // longer offered by the server.
+  const activeEngine =
+    availableEngines.find((engine) => engine.name === selectedEngine) ??
+    availableEngines.find((engine) => engine.default) ??
+    availableEngines[0];
+
+  const defaultModel = extractionModels.find((model) => model.default);
+  const activeModel =
+    extractionModels.find((model) => model.id === selectedModel) ??
+    defaultModel;
+
+  const handleEngineChange = useCallback(
+    (value: unknown) => {
+      setSelectedEngine(value as OcrEngineName);
+    },
+    [setSelectedEngine]
+  );
+
+  // Picking the default clears the choice, so schema defaults apply again.
+  const handleModelChange = useCallback(
+    (value: unknown) => {
+      setSelectedModel(value === defaultModel?.id ? null : (value as string));
+    },
+    [defaultModel, setSelectedModel]
+  );
+
+  const label = activeEngine?.label ?? FALLBACK_LABEL;
+
+  if (availableEngines.length <= 1 && extractionModels.length <= 1) {
+    return <span className="px-3 py-2 text-lg font-medium">{label}</span>;
+  }
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger className="hover:bg-accent flex cursor-pointer items-center gap-1 rounded-md px-3 py-2 text-lg font-medium">
+        {label}
+        <ChevronDown className="size-4 opacity-60" />
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="start" className="w-64">
+        {availableEngines.length > 1 && (
+          <DropdownMenuGroup>
+            <DropdownMenuLabel>OCR engine</DropdownMenuLabel>
+            <DropdownMenuRadioGroup
+              value={activeEngine?.name}
+              onValueChange={handleEngineChange}
+            >
+              {availableEngines.map((engine) => (
+                <DropdownMenuRadioItem key={engine.name} value={engine.name}>
+                  {engine.label}
+                </DropdownMenuRadioItem>
+              ))}
+            </DropdownMenuRadioGroup>
+          </DropdownMenuGroup>
+        )}
+        {availableEngines.length > 1 && extractionModels.length > 1 && (
+          <DropdownMenuSeparator />
+        )}
+        {extractionModels.length > 1 && (
+          <DropdownMenuGroup>
+            <DropdownMenuLabel>Extraction model</DropdownMenuLabel>
+            <DropdownMenuRadioGroup
+              value={activeModel?.id}
+              onValueChange={handleModelChange}
+            >
+              {extractionModels.map((model) => (
+                <DropdownMenuRadioItem key={model.id} value={model.id}>
+                  <span className="truncate">{model.id}</span>
+                </DropdownMenuRadioItem>
+              ))}
+            </DropdownMenuRadioGroup>
+          </DropdownMenuGroup>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
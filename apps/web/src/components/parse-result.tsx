@@ -1,11 +1,21 @@
-import type { JobStatus } from "@ocrbase/db/lib/enums";
+import type { JobProgress, JobStatus } from "@ocrbase/db/lib/enums";
 
 import { Copy, Check, Download } from "lucide-react";
-import { lazy, Suspense, useCallback, useState } from "react";
+import {
+  lazy,
+  Suspense,
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
 
+import { JobProgressBar } from "@/components/job-status";
 import { Panel } from "@/components/panel";
 import { Button } from "@/components/ui/button";
 import { Spinner } from "@/components/ui/spinner";
+import { getSearchTerms, rehypeHighlightTerms } from "@/lib/search";
 
 const MarkdownRenderer = lazy(async () => {
   const [
@@ -18,17 +28,42 @@ const MarkdownRenderer = lazy(async () => {
     import("rehype-raw"),
   ]);
 
-  return {
-    default: ({ markdown }: { markdown: string }) => (
-      <ReactMarkdown
-        remarkPlugins={[remarkGfm]}
-        rehypePlugins={[rehypeRaw]}
-        components={{ img: () => null }}
-      >
-        {markdown}
-      </ReactMarkdown>
-    ),
+  const HighlightedMarkdown = ({
+    markdown,
+    highlight,
+  }: {
+    markdown: string;
+    highlight?: string;
+  }) => {
+    const containerRef = useRef<HTMLDivElement>(null);
+    const rehypePlugins = useMemo(
+      () =>
+        highlight
+          ? [rehypeRaw, rehypeHighlightTerms(getSearchTerms(highlight))]
+          : [rehypeRaw],
+      [highlight]
+    );
+
+    useEffect(() => {
+      containerRef.current
+        ?.querySelector("mark")
+        ?.scrollIntoView({ block: "center" });
+    }, [markdown, highlight]);
+
+    return (
+      <div ref={containerRef}>
+        <ReactMarkdown
+          remarkPlugins={[remarkGfm]}
+          rehypePlugins={rehypePlugins}
+          components={{ img: () => null }}
+        >
+          {markdown}
+        </ReactMarkdown>
+      </div>
+    );
   };
+
+  return { default: HighlightedMarkdown };
 });
 
 interface ParseResultProps {
@@ -37,6 +72,9 @@ interface ParseResultProps {
   jobId?: string;
   status?: JobStatus;
   errorMessage?: string | null;
+  progress?: JobProgress | null;
+  /** Search query whose terms are highlighted and scrolled into view. */
+  highlight?: string;
 }
 
 export const ParseResult = ({
@@ -45,6 +83,8 @@ export const ParseResult = ({
   jobId,
   status,
   errorMessage,
+  progress,
+  highlight,
 }: ParseResultProps) => {
   const [copied, setCopied] = useState(false);
 
@@ -77,6 +117,7 @@ export const ParseResult = ({
       <div className="flex h-full flex-col items-center justify-center gap-3 rounded-md border bg-muted/50">
         <Spinner className="size-8 text-muted-foreground" />
         <p className="text-sm text-muted-foreground">Processing document…</p>
+        {progress && <JobProgressBar progress={progress} />}
         {errorMessage && (
           <p className="max-w-xs text-center text-xs text-destructive">
             {errorMessage}
@@ -99,6 +140,17 @@ export const ParseResult = ({
     );
   }
 
+  if (status === "cancelled") {
+    return (
+      <div className="flex h-full flex-col items-center justify-center gap-2 rounded-md border bg-muted/50 px-6 text-center">
+        <p className="text-sm font-medium">Processing cancelled</p>
+        <p className="text-sm text-muted-foreground">
+          This job was cancelled before producing markdown.
+        </p>
+      </div>
+    );
+  }
+
   const hasContent = markdown !== null && markdown.trim().length > 0;
 
   if (!hasContent) {
@@ -148,7 +200,7 @@ export const ParseResult = ({
             </div>
           }
         >
-          <MarkdownRenderer markdown={markdown} />
+          <MarkdownRenderer markdown={markdown} highlight={highlight} />
         </Suspense>
       </div>
     </Panel>
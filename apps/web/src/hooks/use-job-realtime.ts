@@ -12,8 +12,8 @@ import { isJobProcessing } from "@/lib/queries";
 interface JobsPageResponse {
   data: JobListItem[];
   pagination: {
-    currentPage: number;
     hasNextPage: boolean;
+    nextCursor: string | null;
     totalCount: number;
   };
 }
@@ -68,8 +68,10 @@ const updateJobsListStatus = (
 
 const isTerminalStatus = (
   status: JobListItem["status"] | undefined
-): status is Extract<JobListItem["status"], "completed" | "failed"> =>
-  status === "completed" || status === "failed";
+): status is Extract<
+  JobListItem["status"],
+  "completed" | "failed" | "cancelled"
+> => status === "completed" || status === "failed" || status === "cancelled";
 
 const resolveMonotonicStatus = (
   currentStatus: JobListItem["status"] | undefined,
@@ -153,6 +155,7 @@ export const useJobRealtime = (
               ? { markdownResult: msg.data.markdownResult }
               : {}),
             errorMessage: null,
+            progress: null,
             status: "completed",
           }));
           updateJobsListStatus(qc, jobId, "completed");
@@ -161,6 +164,18 @@ export const useJobRealtime = (
           cleanup();
           break;
         }
+        case "cancelled": {
+          updateJob((job) => ({
+            ...job,
+            progress: null,
+            status: "cancelled",
+          }));
+          updateJobsListStatus(qc, jobId, "cancelled");
+          qc.invalidateQueries({ queryKey: ["job", jobId] });
+          done = true;
+          cleanup();
+          break;
+        }
         case "error": {
           // "error" can represent a job failure or a non-job WS/auth issue.
           // Only mark the job failed when server explicitly sends failed status.
@@ -188,6 +203,16 @@ export const useJobRealtime = (
           }));
           break;
         }
+        case "progress": {
+          const { stage, pagesDone, pagesTotal, etaMs, status } = msg.data;
+          updateJob((job) => ({
+            ...job,
+            errorMessage: null,
+            progress: { etaMs, pagesDone, pagesTotal, stage },
+            status: resolveMonotonicStatus(job.status, status),
+          }));
+          break;
+        }
         case "status": {
           const status = msg.data?.status;
           if (status) {
@@ -198,7 +223,7 @@ export const useJobRealtime = (
             });
             updateJobsListStatus(qc, jobId, resolvedStatus);
           }
-          if (status === "completed" || status === "failed") {
+          if (isTerminalStatus(status)) {
             qc.invalidateQueries({ queryKey: ["job", jobId] });
             done = true;
             cleanup();
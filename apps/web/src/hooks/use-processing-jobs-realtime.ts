@@ -11,8 +11,8 @@ import { getJobConnection } from "@/lib/event-source";
 interface JobsPageResponse {
   data: JobListItem[];
   pagination: {
-    currentPage: number;
     hasNextPage: boolean;
+    nextCursor: string | null;
     totalCount: number;
   };
 }
@@ -36,8 +36,10 @@ const debugJobsRealtime = (
 
 const isTerminalStatus = (
   status: JobListItem["status"] | undefined
-): status is Extract<JobListItem["status"], "completed" | "failed"> =>
-  status === "completed" || status === "failed";
+): status is Extract<
+  JobListItem["status"],
+  "completed" | "failed" | "cancelled"
+> => status === "completed" || status === "failed" || status === "cancelled";
 
 /**
  * Opens a shared WebSocket connection for each processing job,
@@ -53,7 +55,10 @@ export const useProcessingJobsRealtime = (processingJobIds: string[]) => {
 
   const cleanupMap = useRef<Map<string, () => void>>(new Map());
   const terminalStatusesRef = useRef<
-    Map<string, Extract<JobListItem["status"], "completed" | "failed">>
+    Map<
+      string,
+      Extract<JobListItem["status"], "completed" | "failed" | "cancelled">
+    >
   >(new Map());
   const applyingTerminalStatusesRef = useRef(false);
 
@@ -176,6 +181,9 @@ export const useProcessingJobsRealtime = (processingJobIds: string[]) => {
         if (msg.type === "completed") {
           nextStatus = "completed";
         }
+        if (msg.type === "cancelled") {
+          nextStatus = "cancelled";
+        }
         if (msg.type === "error") {
           nextStatus = "failed";
         }
@@ -0,0 +1,44 @@
+import { useCallback, useSyncExternalStore } from "react";
+
+import type { OcrEngineName } from "@/lib/queries";
+
+const STORAGE_KEY = "ocrbase:ocr-engine";
+
+const listeners = new Set<() => void>();
+
+const subscribe = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const getSnapshot = (): OcrEngineName | null =>
+  localStorage.getItem(STORAGE_KEY) as OcrEngineName | null;
+
+const getServerSnapshot = (): OcrEngineName | null => null;
+
+/**
+ * The OCR engine picked in the header selector, persisted across reloads.
+ * `null` means "use the organization default".
+ */
+export const useSelectedEngine = () => {
+  const engine = useSyncExternalStore(
+    subscribe,
+    getSnapshot,
+    getServerSnapshot
+  );
+
+  const setEngine = useCallback((next: OcrEngineName | null) => {
+    if (next) {
+      localStorage.setItem(STORAGE_KEY, next);
+    } else {
+      localStorage.removeItem(STORAGE_KEY);
+    }
+    for (const listener of listeners) {
+      listener();
+    }
+  }, []);
+
+  return [engine, setEngine] as const;
+};
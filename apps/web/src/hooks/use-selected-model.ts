@@ -0,0 +1,37 @@
+import { useCallback, useSyncExternalStore } from "react";
+
+const STORAGE_KEY = "ocrbase:llm-model";
+
+const listeners = new Set<() => void>();
+
+const subscribe = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const getSnapshot = (): string | null => localStorage.getItem(STORAGE_KEY);
+
+const getServerSnapshot = (): string | null => null;
+
+/**
+ * The extraction model picked in the header selector, persisted across
+ * reloads. `null` means "use the schema or provider default".
+ */
+export const useSelectedModel = () => {
+  const model = useSyncExternalStore(subscribe, getSnapshot, getServerSnapshot);
+
+  const setModel = useCallback((next: string | null) => {
+    if (next) {
+      localStorage.setItem(STORAGE_KEY, next);
+    } else {
+      localStorage.removeItem(STORAGE_KEY);
+    }
+    for (const listener of listeners) {
+      listener();
+    }
+  }, []);
+
+  return [model, setModel] as const;
+};
@@ -107,7 +107,7 @@ export function getJobConnection(jobId: string): SharedConnection {
 
       es = new EventSource(sseUrl.toString(), { withCredentials: true });
 
-      es.addEventListener("status", (event: MessageEvent) => {
+      const handleUpdate = (event: MessageEvent) => {
         let msg: JobUpdateMessage;
         try {
           msg = JSON.parse(event.data) as JobUpdateMessage;
@@ -117,9 +117,12 @@ export function getJobConnection(jobId: string): SharedConnection {
         }
         retries = 0;
         emit(msg);
-      });
+      };
+
+      es.addEventListener("status", handleUpdate);
+      es.addEventListener("progress", handleUpdate);
 
-      es.addEventListener("completed", (event: MessageEvent) => {
+      const handleTerminal = (event: MessageEvent) => {
         let msg: JobUpdateMessage;
         try {
           msg = JSON.parse(event.data) as JobUpdateMessage;
@@ -130,7 +133,10 @@ export function getJobConnection(jobId: string): SharedConnection {
         retries = 0;
         terminal.message = msg;
         emit(msg);
-      });
+      };
+
+      es.addEventListener("completed", handleTerminal);
+      es.addEventListener("cancelled", handleTerminal);
 
       es.addEventListener("error", (event: Event) => {
         // The "error" event on EventSource fires for BOTH server-sent
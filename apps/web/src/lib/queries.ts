@@ -1,4 +1,4 @@
-import type { JobStatus } from "@ocrbase/db/lib/enums";
+import type { JobProgress, JobStatus } from "@ocrbase/db/lib/enums";
 
 import { env } from "@ocrbase/env/web";
 import {
@@ -9,10 +9,33 @@ import {
 
 import { api } from "./api";
 
-export type { JobStatus };
+export type { JobProgress, JobStatus };
+
+export interface JobValidationError {
+  path: string;
+  message: string;
+}
+
+export interface JobFieldCitation {
+  pageNumber: number;
+  quote: string;
+  /** `[x1, y1, x2, y2]` in page pixels; null without layout data. */
+  bbox: [number, number, number, number] | null;
+  pageWidth: number | null;
+  pageHeight: number | null;
+}
+
+export interface JobFieldMeta {
+  /** JSON Pointer to the value in `jsonResult`. */
+  path: string;
+  confidence: number;
+  citation: JobFieldCitation | null;
+}
 
 export interface Job {
   id: string;
+  /** Latest realtime progress; only known while the job is being watched. */
+  progress?: JobProgress | null;
   type: "parse" | "extract";
   status: JobStatus;
   fileName: string | null;
@@ -21,6 +44,10 @@ export interface Job {
   pageCount: number | null;
   markdownResult: string | null;
   jsonResult: unknown;
+  /** Confidence and source of each extracted value. */
+  jsonResultMeta?: JobFieldMeta[] | null;
+  /** Where `jsonResult` breaks the schema; null when nothing was validated. */
+  validationErrors?: JobValidationError[] | null;
   errorCode: string | null;
   errorMessage: string | null;
   createdAt: string;
@@ -53,6 +80,104 @@ export const jobQueryOptions = (jobId: string) =>
     staleTime: 5000,
   });
 
+export interface SearchMatch {
+  pageNumber: number;
+  score: number;
+  snippet: string;
+}
+
+export interface SearchHit {
+  jobId: string;
+  type: "parse" | "extract";
+  status: JobStatus;
+  fileName: string;
+  createdAt: string;
+  score: number;
+  matches: SearchMatch[];
+}
+
+export const searchQueryOptions = (
+  query: string,
+  organizationScope = "active"
+) =>
+  queryOptions({
+    enabled: query.length > 0,
+    queryFn: async (): Promise<SearchHit[]> => {
+      const res = await api.v1.search.get({ query: { limit: 10, q: query } });
+      if (res.error) {
+        throw new Error("Failed to search documents");
+      }
+      return (res.data as unknown as { data: SearchHit[] }).data;
+    },
+    queryKey: ["search", organizationScope, query],
+    staleTime: 30_000,
+  });
+
+export interface JobQuestion {
+  id: string;
+  jobId: string;
+  question: string;
+  answer: string;
+  citations: { pageNumber: number }[];
+  llmModel: string | null;
+  createdAt: string;
+}
+
+export const jobQuestionsQueryOptions = (jobId: string) =>
+  queryOptions({
+    queryFn: async (): Promise<JobQuestion[]> => {
+      const res = await api.v1.jobs({ id: jobId }).questions.get();
+      if (res.error) {
+        throw new Error("Failed to fetch questions");
+      }
+      return (res.data as unknown as { data: JobQuestion[] }).data;
+    },
+    queryKey: ["job-questions", jobId],
+  });
+
+export type OcrEngineName = "openai-vision" | "paddleocr-vl" | "tesseract";
+
+export interface OcrEngineOption {
+  name: OcrEngineName;
+  label: string;
+  model: string;
+  available: boolean;
+  default: boolean;
+}
+
+export const enginesQueryOptions = () =>
+  queryOptions({
+    queryFn: async (): Promise<OcrEngineOption[]> => {
+      const res = await api.v1.engines.get();
+      if (res.error) {
+        throw new Error("Failed to fetch OCR engines");
+      }
+      return res.data as unknown as OcrEngineOption[];
+    },
+    queryKey: ["engines"],
+    staleTime: 5 * 60_000,
+  });
+
+export interface LlmModelOption {
+  id: string;
+  provider: string;
+  providerLabel: string;
+  default: boolean;
+}
+
+export const modelsQueryOptions = () =>
+  queryOptions({
+    queryFn: async (): Promise<LlmModelOption[]> => {
+      const res = await api.v1.models.get();
+      if (res.error) {
+        throw new Error("Failed to fetch extraction models");
+      }
+      return res.data as unknown as LlmModelOption[];
+    },
+    queryKey: ["models"],
+    staleTime: 5 * 60_000,
+  });
+
 export interface JobListItem {
   id: string;
   type: "parse" | "extract";
@@ -64,8 +189,8 @@ export interface JobListItem {
 interface JobsPageResponse {
   data: JobListItem[];
   pagination: {
-    currentPage: number;
     hasNextPage: boolean;
+    nextCursor: string | null;
     totalCount: number;
   };
 }
@@ -76,18 +201,15 @@ export const jobsInfiniteQueryOptions = (organizationScope = "active") =>
     Error,
     InfiniteData<JobsPageResponse>,
     string[],
-    number
+    string | undefined
   >({
-    getNextPageParam: (lastPage) =>
-      lastPage.pagination.hasNextPage
-        ? lastPage.pagination.currentPage + 1
-        : undefined,
-    initialPageParam: 1,
+    getNextPageParam: (lastPage) => lastPage.pagination.nextCursor ?? undefined,
+    initialPageParam: undefined,
     queryFn: async ({ pageParam }): Promise<JobsPageResponse> => {
       const res = await api.v1.jobs.get({
         query: {
+          cursor: pageParam,
           limit: 10,
-          page: pageParam,
           sortBy: "createdAt",
           sortOrder: "desc",
         },
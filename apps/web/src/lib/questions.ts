@@ -0,0 +1,90 @@
+import { env } from "@ocrbase/env/web";
+
+import type { JobQuestion } from "./queries";
+
+interface SseEvent {
+  event: string;
+  data: string;
+}
+
+interface StreamAnswerOptions {
+  onToken: (text: string) => void;
+  signal?: AbortSignal;
+}
+
+/** Splits `[p. N]` citations out of an answer; odd parts are page numbers. */
+export const splitCitations = (answer: string): string[] =>
+  answer.split(/\[p\.\s*(\d+)\]/g);
+
+const parseSseEvent = (block: string): SseEvent => {
+  let event = "message";
+  const data: string[] = [];
+
+  for (const line of block.split("\n")) {
+    if (line.startsWith("event:")) {
+      event = line.slice("event:".length).trim();
+    } else if (line.startsWith("data:")) {
+      data.push(line.slice("data:".length).trim());
+    }
+  }
+
+  return { data: data.join("\n"), event };
+};
+
+const readErrorMessage = async (res: Response): Promise<string> => {
+  try {
+    const body = (await res.json()) as { message?: string };
+    return body.message ?? "Failed to ask question";
+  } catch {
+    return "Failed to ask question";
+  }
+};
+
+/**
+ * Asks a question about a job. EventSource only supports GET, so the
+ * server-sent events of the answer are read from the response body.
+ */
+export const streamAnswer = async (
+  jobId: string,
+  question: string,
+  { onToken, signal }: StreamAnswerOptions
+): Promise<JobQuestion> => {
+  const res = await fetch(`${env.VITE_SERVER_URL}/v1/jobs/${jobId}/ask`, {
+    body: JSON.stringify({ question }),
+    credentials: "include",
+    headers: { "content-type": "application/json" },
+    method: "POST",
+    signal,
+  });
+
+  if (!res.ok || !res.body) {
+    throw new Error(await readErrorMessage(res));
+  }
+
+  const reader = res.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = "";
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) {
+      break;
+    }
+
+    buffer += value;
+    const blocks = buffer.split("\n\n");
+    buffer = blocks.pop() ?? "";
+
+    for (const block of blocks) {
+      const { data, event } = parseSseEvent(block);
+      if (event === "token") {
+        onToken((JSON.parse(data) as { text: string }).text);
+      } else if (event === "done") {
+        return JSON.parse(data) as JobQuestion;
+      } else if (event === "error") {
+        throw new Error((JSON.parse(data) as { message: string }).message);
+      }
+    }
+  }
+
+  throw new Error("The answer stream ended unexpectedly");
+};
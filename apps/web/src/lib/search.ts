@@ -0,0 +1,90 @@
+interface HastNode {
+  type: string;
+  tagName?: string;
+  value?: string;
+  properties?: Record<string, unknown>;
+  children?: HastNode[];
+}
+
+export interface SnippetPart {
+  text: string;
+  highlighted: boolean;
+  /** Position of the part in the snippet; stable across renders. */
+  offset: number;
+}
+
+const SKIPPED_TAGS = new Set(["code", "pre", "mark"]);
+
+const escapeRegExp = (value: string) =>
+  value.replaceAll(/[.*+?^${}()|[\]\\]/g, String.raw`\$&`);
+
+/** Words of a search query worth highlighting: no operators or excluded terms. */
+export const getSearchTerms = (query: string): string[] =>
+  query
+    .replaceAll('"', " ")
+    .split(/\s+/)
+    .filter(
+      (word) => word.length > 1 && !word.startsWith("-") && word !== "OR"
+    );
+
+/** Splits a server snippet on its `<mark></mark>` delimiters. */
+export const splitHighlights = (snippet: string): SnippetPart[] => {
+  let offset = 0;
+
+  return snippet
+    .split(/<mark>(.*?)<\/mark>/g)
+    .map((text, index) => {
+      const part = { highlighted: index % 2 === 1, offset, text };
+      offset += text.length;
+      return part;
+    })
+    .filter((part) => part.text.length > 0);
+};
+
+/**
+ * Rehype plugin that wraps words starting with one of `terms` in `<mark>`.
+ * Prefix matching roughly follows the stemming done by the search endpoint.
+ */
+export const rehypeHighlightTerms = (terms: string[]) => () => {
+  const pattern = new RegExp(
+    String.raw`(\b(?:${terms.map(escapeRegExp).join("|")})\w*)`,
+    "gi"
+  );
+
+  // Splitting on a capturing pattern puts the matches at odd indexes.
+  const highlightText = (value: string): HastNode[] =>
+    value
+      .split(pattern)
+      .map(
+        (text, index): HastNode =>
+          index % 2 === 1
+            ? {
+                children: [{ type: "text", value: text }],
+                properties: {},
+                tagName: "mark",
+                type: "element",
+              }
+            : { type: "text", value: text }
+      )
+      .filter((node) => node.type === "element" || node.value);
+
+  const visit = (node: HastNode) => {
+    if (!node.children || (node.tagName && SKIPPED_TAGS.has(node.tagName))) {
+      return;
+    }
+
+    node.children = node.children.flatMap((child) => {
+      if (child.type === "text" && child.value) {
+        return highlightText(child.value);
+      }
+      visit(child);
+      return [child];
+    });
+  };
+
+  return (tree: HastNode) => {
+    if (terms.length > 0) {
+      visit(tree);
+    }
+  };
+};
@@ -1,5 +1,7 @@
 import { createFileRoute, useRouter } from "@tanstack/react-router";
-import { useCallback } from "react";
+import { useCallback, useState } from "react";
+
+import type { JobFieldMeta } from "@/lib/queries";
 
 import { DocumentPreview } from "@/components/document-preview";
 import { ExtractResult } from "@/components/extract-result";
@@ -9,6 +11,14 @@ import { isJobProcessing, jobQueryOptions } from "@/lib/queries";
 const ExtractJobPage = () => {
   const { jobId } = Route.useParams();
   const { data: job } = useJob(jobId);
+  const [hoveredField, setHoveredField] = useState<JobFieldMeta | null>(null);
+  const [previewPage, setPreviewPage] = useState<number>();
+
+  const handleFieldSelect = useCallback((field: JobFieldMeta) => {
+    if (field.citation) {
+      setPreviewPage(field.citation.pageNumber);
+    }
+  }, []);
 
   return (
     <div className="flex h-full min-h-0 flex-col overflow-hidden">
@@ -17,6 +27,8 @@ const ExtractJobPage = () => {
           fileUrl={job?.fileUrl}
           fileName={job?.fileName}
           mimeType={job?.mimeType}
+          page={previewPage}
+          highlight={hoveredField?.citation}
         />
         <ExtractResult
           json={job?.jsonResult}
@@ -24,6 +36,11 @@ const ExtractJobPage = () => {
           jobId={jobId}
           status={job?.status}
           errorMessage={job?.errorMessage}
+          progress={job?.progress}
+          validationErrors={job?.validationErrors}
+          fields={job?.jsonResultMeta}
+          onFieldHover={setHoveredField}
+          onFieldSelect={handleFieldSelect}
         />
       </div>
     </div>
@@ -1,35 +1,82 @@
 import { createFileRoute, useRouter } from "@tanstack/react-router";
-import { useCallback } from "react";
+import { useCallback, useState } from "react";
+import { z } from "zod";
 
+import { DocumentChat } from "@/components/document-chat";
 import { DocumentPreview } from "@/components/document-preview";
 import { ParseResult } from "@/components/parse-result";
+import { Button } from "@/components/ui/button";
 import { useJob } from "@/hooks/use-job";
 import { isJobProcessing, jobQueryOptions } from "@/lib/queries";
 
 const ParseJobPage = () => {
   const { jobId } = Route.useParams();
+  const { panel, q } = Route.useSearch();
+  const navigate = Route.useNavigate();
   const { data: job } = useJob(jobId);
+  const [previewPage, setPreviewPage] = useState<number>();
+  const canAsk = job?.status === "completed";
+  const showChat = canAsk && panel === "ask";
+
+  const showResult = useCallback(
+    () => navigate({ search: (prev) => ({ ...prev, panel: undefined }) }),
+    [navigate]
+  );
+  const showAsk = useCallback(
+    () => navigate({ search: (prev) => ({ ...prev, panel: "ask" as const }) }),
+    [navigate]
+  );
 
   return (
     <div className="flex h-full min-h-0 flex-col overflow-hidden">
+      {canAsk && (
+        <div className="flex shrink-0 justify-end gap-1 px-4 pt-4">
+          <Button
+            size="sm"
+            variant={showChat ? "ghost" : "secondary"}
+            onClick={showResult}
+          >
+            Result
+          </Button>
+          <Button
+            size="sm"
+            variant={showChat ? "secondary" : "ghost"}
+            onClick={showAsk}
+          >
+            Ask
+          </Button>
+        </div>
+      )}
       <div className="grid min-h-0 flex-1 grid-cols-1 gap-4 overflow-hidden p-4 md:grid-cols-2">
         <DocumentPreview
           fileUrl={job?.fileUrl}
           fileName={job?.fileName}
           mimeType={job?.mimeType}
+          page={previewPage}
         />
-        <ParseResult
-          markdown={job?.markdownResult ?? null}
-          isLoading={isJobProcessing(job?.status)}
-          jobId={jobId}
-          status={job?.status}
-          errorMessage={job?.errorMessage}
-        />
+        {showChat ? (
+          <DocumentChat jobId={jobId} onCitationSelect={setPreviewPage} />
+        ) : (
+          <ParseResult
+            markdown={job?.markdownResult ?? null}
+            isLoading={isJobProcessing(job?.status)}
+            jobId={jobId}
+            status={job?.status}
+            errorMessage={job?.errorMessage}
+            progress={job?.progress}
+            highlight={q}
+          />
+        )}
       </div>
     </div>
   );
 };
 
+const searchSchema = z.object({
+  panel: z.enum(["ask"]).optional(),
+  q: z.string().optional(),
+});
+
 const JobErrorComponent = () => {
   const router = useRouter();
   const handleRetry = useCallback(() => router.invalidate(), [router]);
@@ -52,4 +99,5 @@ export const Route = createFileRoute("/_authenticated/_layout/parse/$jobId")({
   errorComponent: JobErrorComponent,
   loader: ({ context, params }) =>
     context.queryClient.ensureQueryData(jobQueryOptions(params.jobId)),
+  validateSearch: searchSchema,
 });
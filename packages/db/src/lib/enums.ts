@@ -8,10 +8,51 @@ export const jobStatusEnum = pgEnum("job_status", [
   "extracting",
   "completed",
   "failed",
+  "cancelled",
+]);
+
+export const cacheModeEnum = pgEnum("cache_mode", ["use", "bypass", "refresh"]);
+
+/** `none` keeps a job's file and results only until they are delivered. */
+export const retentionModeEnum = pgEnum("retention_mode", ["standard", "none"]);
+
+/** `chunked` extracts long documents a few pages at a time and merges. */
+export const extractionStrategyEnum = pgEnum("extraction_strategy", [
+  "single",
+  "chunked",
+]);
+
+export const webhookEventEnum = pgEnum("webhook_event", [
+  "job.completed",
+  "job.failed",
+]);
+
+export const webhookDeliveryStatusEnum = pgEnum("webhook_delivery_status", [
+  "pending",
+  "succeeded",
+  "failed",
 ]);
 
 export type JobType = (typeof jobTypeEnum.enumValues)[number];
 export type JobStatus = (typeof jobStatusEnum.enumValues)[number];
+export type CacheMode = (typeof cacheModeEnum.enumValues)[number];
+export type RetentionMode = (typeof retentionModeEnum.enumValues)[number];
+export type ExtractionStrategy =
+  (typeof extractionStrategyEnum.enumValues)[number];
+export type WebhookEvent = (typeof webhookEventEnum.enumValues)[number];
+export type WebhookDeliveryStatus =
+  (typeof webhookDeliveryStatusEnum.enumValues)[number];
+
+export type JobProgressStage = "fetching" | "ocr" | "extracting";
+
+export interface JobProgress {
+  stage: JobProgressStage;
+  /** Pages finished so far; only reported during OCR. */
+  pagesDone?: number;
+  pagesTotal?: number;
+  /** Estimated time left in the current stage, when it can be predicted. */
+  etaMs?: number;
+}
 
 export type JobUpdateMessage =
   | {
@@ -22,6 +63,13 @@ export type JobUpdateMessage =
         processingTimeMs?: number;
       };
     }
+  | {
+      type: "progress";
+      jobId: string;
+      data: JobProgress & {
+        status: "processing" | "extracting";
+      };
+    }
   | {
       type: "completed";
       jobId: string;
@@ -32,6 +80,13 @@ export type JobUpdateMessage =
         jsonResult?: unknown;
       };
     }
+  | {
+      type: "cancelled";
+      jobId: string;
+      data: {
+        status: "cancelled";
+      };
+    }
   | {
       type: "error";
       jobId: string;
@@ -8,15 +8,21 @@ export const ID_PREFIXES = {
   account: "acc",
   apiKey: "ak",
   apiKeyUsage: "aku",
+  batch: "bat",
+  documentChunk: "chk",
   invitation: "inv",
   job: "job",
+  jobQuestion: "jq",
   member: "mem",
+  ocrCache: "ocr",
   organization: "org",
   schema: "sch",
   session: "ses",
   usageEvent: "ue",
   user: "usr",
   verification: "vrf",
+  webhookDelivery: "whd",
+  webhookEndpoint: "wh",
 } as const;
 
 type IdPrefix = keyof typeof ID_PREFIXES;
@@ -0,0 +1,12 @@
+CREATE TABLE "job_pages" (
+	"job_id" text NOT NULL,
+	"page_number" integer NOT NULL,
+	"markdown" text NOT NULL,
+	"width" integer,
+	"height" integer,
+	"processing_time_ms" integer,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "job_pages_job_id_page_number_pk" PRIMARY KEY("job_id","page_number")
+);
+--> statement-breakpoint
+ALTER TABLE "job_pages" ADD CONSTRAINT "job_pages_job_id_jobs_id_fk" FOREIGN KEY ("job_id") REFERENCES "public"."jobs"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
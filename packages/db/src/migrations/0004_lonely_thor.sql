@@ -0,0 +1 @@
+ALTER TABLE "job_pages" ADD COLUMN "layout" jsonb;
\ No newline at end of file
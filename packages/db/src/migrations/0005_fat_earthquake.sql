@@ -0,0 +1 @@
+ALTER TABLE "jobs" ADD COLUMN "page_range" text;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "jobs" ADD COLUMN "callback_url" text;--> statement-breakpoint
+ALTER TABLE "jobs" ADD COLUMN "callback_status" "webhook_delivery_status";
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TYPE "public"."job_status" ADD VALUE 'cancelled';
\ No newline at end of file
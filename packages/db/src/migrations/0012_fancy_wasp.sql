@@ -0,0 +1,21 @@
+CREATE TYPE "public"."cache_mode" AS ENUM('use', 'bypass', 'refresh');--> statement-breakpoint
+CREATE TABLE "ocr_cache" (
+	"id" text PRIMARY KEY NOT NULL,
+	"organization_id" text NOT NULL,
+	"file_hash" text NOT NULL,
+	"ocr_engine" text NOT NULL,
+	"page_range" text DEFAULT '' NOT NULL,
+	"markdown" text NOT NULL,
+	"page_count" integer NOT NULL,
+	"pages" jsonb NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "jobs" ADD COLUMN "file_hash" text;--> statement-breakpoint
+ALTER TABLE "jobs" ADD COLUMN "cache_mode" "cache_mode" DEFAULT 'use' NOT NULL;--> statement-breakpoint
+ALTER TABLE "jobs" ADD COLUMN "cache_hit" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "ocr_cache" ADD CONSTRAINT "ocr_cache_organization_id_organization_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organization"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "ocr_cache_key_idx" ON "ocr_cache" USING btree ("organization_id","file_hash","ocr_engine","page_range");--> statement-breakpoint
+CREATE INDEX "ocr_cache_created_at_idx" ON "ocr_cache" USING btree ("created_at");--> statement-breakpoint
+CREATE INDEX "jobs_file_hash_idx" ON "jobs" USING btree ("organization_id","file_hash");
\ No newline at end of file
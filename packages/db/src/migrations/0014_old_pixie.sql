@@ -0,0 +1,2 @@
+CREATE INDEX "jobs_organization_created_at_id_idx" ON "jobs" USING btree ("organization_id","created_at","id");--> statement-breakpoint
+CREATE INDEX "jobs_search_idx" ON "jobs" USING gin (to_tsvector('english', left(coalesce("markdown_result", ''), 100000)));
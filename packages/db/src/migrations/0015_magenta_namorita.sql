@@ -0,0 +1 @@
+CREATE INDEX "job_pages_search_idx" ON "job_pages" USING gin (to_tsvector('english', "markdown"));
\ No newline at end of file
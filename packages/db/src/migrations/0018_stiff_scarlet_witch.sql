@@ -0,0 +1,4 @@
+ALTER TABLE "jobs" ADD COLUMN "file_purged_at" timestamp;--> statement-breakpoint
+ALTER TABLE "jobs" ADD COLUMN "results_purged_at" timestamp;--> statement-breakpoint
+ALTER TABLE "organization_settings" ADD COLUMN "file_retention_days" integer;--> statement-breakpoint
+ALTER TABLE "organization_settings" ADD COLUMN "result_retention_days" integer;
\ No newline at end of file
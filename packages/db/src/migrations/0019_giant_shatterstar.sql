@@ -0,0 +1,3 @@
+CREATE TYPE "public"."retention_mode" AS ENUM('standard', 'none');--> statement-breakpoint
+ALTER TABLE "api_keys" ADD COLUMN "retention" "retention_mode" DEFAULT 'standard' NOT NULL;--> statement-breakpoint
+ALTER TABLE "jobs" ADD COLUMN "retention" "retention_mode" DEFAULT 'standard' NOT NULL;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "organization_settings" ADD COLUMN "default_llm_provider" text;
\ No newline at end of file
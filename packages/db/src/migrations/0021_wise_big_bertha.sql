@@ -0,0 +1,2 @@
+ALTER TABLE "organization_settings" ADD COLUMN "allowed_llm_models" text[];--> statement-breakpoint
+ALTER TABLE "schemas" ADD COLUMN "default_model" text;
\ No newline at end of file
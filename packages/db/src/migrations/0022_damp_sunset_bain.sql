@@ -0,0 +1 @@
+ALTER TABLE "jobs" ADD COLUMN "validation_errors" jsonb;
\ No newline at end of file
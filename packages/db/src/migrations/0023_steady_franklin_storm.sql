@@ -0,0 +1 @@
+ALTER TABLE "jobs" ADD COLUMN "json_result_meta" jsonb;
\ No newline at end of file
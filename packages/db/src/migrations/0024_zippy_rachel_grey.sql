@@ -0,0 +1,3 @@
+CREATE TYPE "public"."extraction_strategy" AS ENUM('single', 'chunked');--> statement-breakpoint
+ALTER TABLE "jobs" ADD COLUMN "llm_usage" jsonb;--> statement-breakpoint
+ALTER TABLE "schemas" ADD COLUMN "extraction_strategy" "extraction_strategy" DEFAULT 'single' NOT NULL;
\ No newline at end of file
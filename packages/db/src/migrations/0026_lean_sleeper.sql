@@ -0,0 +1,3 @@
+ALTER TABLE "usage_events" DROP CONSTRAINT "usage_events_job_id_unique";--> statement-breakpoint
+ALTER TABLE "usage_events" ADD COLUMN "question_id" text;--> statement-breakpoint
+ALTER TABLE "usage_events" ADD CONSTRAINT "usage_events_job_id_question_id_unique" UNIQUE NULLS NOT DISTINCT("job_id","question_id");
\ No newline at end of file
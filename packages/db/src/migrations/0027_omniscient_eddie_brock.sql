@@ -0,0 +1,2 @@
+ALTER TABLE "jobs" ADD COLUMN "requested_llm_model" text;--> statement-breakpoint
+UPDATE "jobs" SET "requested_llm_model" = "llm_model" WHERE "status" <> 'completed';
\ No newline at end of file
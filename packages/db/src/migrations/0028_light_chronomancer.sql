@@ -0,0 +1 @@
+ALTER TABLE "jobs" ADD COLUMN "citations" boolean DEFAULT false NOT NULL;
\ No newline at end of file
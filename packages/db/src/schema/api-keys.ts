@@ -11,6 +11,7 @@ import {
   unique,
 } from "drizzle-orm/pg-core";
 
+import { retentionModeEnum } from "../lib/enums";
 import { createId } from "../lib/ids";
 
 export const apiKeys = pgTable(
@@ -22,9 +23,13 @@ export const apiKeys = pgTable(
     name: text("name").notNull(),
     keyHash: text("key_hash").notNull().unique(),
     keyPrefix: text("key_prefix").notNull(),
+    /** Signs the key's job callbacks; null for keys created before it existed. */
+    callbackSecret: text("callback_secret"),
     organizationId: text("organization_id").notNull(),
     userId: text("user_id").notNull(),
     isActive: boolean("is_active").notNull().default(true),
+    /** Applied to every job the key creates; `none` cannot be overridden. */
+    retention: retentionModeEnum("retention").notNull().default("standard"),
     requestCount: integer("request_count").notNull().default(0),
     lastUsedAt: timestamp("last_used_at"),
     createdAt: timestamp("created_at").defaultNow().notNull(),
@@ -72,6 +77,8 @@ export const usageEvents = pgTable(
       .notNull()
       .references(() => apiKeys.id, { onDelete: "cascade" }),
     jobId: text("job_id").notNull(),
+    /** Set for a question answered about the job, null for the job itself. */
+    questionId: text("question_id"),
     pages: integer("pages").notNull().default(0),
     promptTokens: integer("prompt_tokens").notNull().default(0),
     completionTokens: integer("completion_tokens").notNull().default(0),
@@ -79,7 +86,9 @@ export const usageEvents = pgTable(
     createdAt: timestamp("created_at").defaultNow().notNull(),
   },
   (table) => [
-    unique("usage_events_job_id_unique").on(table.jobId),
+    unique("usage_events_job_id_question_id_unique")
+      .on(table.jobId, table.questionId)
+      .nullsNotDistinct(),
     index("usage_events_api_key_id_idx").on(table.apiKeyId),
     index("usage_events_created_at_idx").on(table.createdAt),
   ]
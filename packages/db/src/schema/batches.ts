@@ -0,0 +1,61 @@
+import { relations } from "drizzle-orm";
+import { index, integer, pgTable, text, timestamp } from "drizzle-orm/pg-core";
+
+import { jobTypeEnum } from "../lib/enums";
+import { createId } from "../lib/ids";
+import { apiKeys } from "./api-keys";
+import { organization, user } from "./auth";
+import { jobs } from "./jobs";
+import { schemas } from "./schemas";
+
+export const batches = pgTable(
+  "batches",
+  {
+    id: text("id")
+      .primaryKey()
+      .$defaultFn(() => createId("batch")),
+    organizationId: text("organization_id")
+      .notNull()
+      .references(() => organization.id, { onDelete: "cascade" }),
+    userId: text("user_id")
+      .notNull()
+      .references(() => user.id, { onDelete: "cascade" }),
+    apiKeyId: text("api_key_id").references(() => apiKeys.id, {
+      onDelete: "set null",
+    }),
+    type: jobTypeEnum("type").notNull(),
+    schemaId: text("schema_id").references(() => schemas.id, {
+      onDelete: "set null",
+    }),
+    hints: text("hints"),
+    jobCount: integer("job_count").notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at")
+      .defaultNow()
+      .$onUpdate(() => new Date())
+      .notNull(),
+  },
+  (table) => [
+    index("batches_organization_id_idx").on(table.organizationId),
+    index("batches_created_at_idx").on(table.createdAt),
+  ]
+);
+
+export const batchesRelations = relations(batches, ({ many, one }) => ({
+  jobs: many(jobs),
+  organization: one(organization, {
+    fields: [batches.organizationId],
+    references: [organization.id],
+  }),
+  schema: one(schemas, {
+    fields: [batches.schemaId],
+    references: [schemas.id],
+  }),
+  user: one(user, {
+    fields: [batches.userId],
+    references: [user.id],
+  }),
+}));
+
+export type Batch = typeof batches.$inferSelect;
+export type NewBatch = typeof batches.$inferInsert;
@@ -0,0 +1,67 @@
+import { relations } from "drizzle-orm";
+import {
+  index,
+  integer,
+  pgTable,
+  text,
+  timestamp,
+  vector,
+} from "drizzle-orm/pg-core";
+
+import { createId } from "../lib/ids";
+import { organization } from "./auth";
+import { jobs } from "./jobs";
+
+/** Width of stored embeddings; providers must return vectors of this size. */
+export const EMBEDDING_DIMENSIONS = 1536;
+
+/**
+ * A passage of a job's parsed markdown and its embedding, used for semantic
+ * search. Vectors from different models are not comparable, so each chunk
+ * records the model that embedded it.
+ */
+export const documentChunks = pgTable(
+  "document_chunks",
+  {
+    id: text("id")
+      .primaryKey()
+      .$defaultFn(() => createId("documentChunk")),
+    organizationId: text("organization_id")
+      .notNull()
+      .references(() => organization.id, { onDelete: "cascade" }),
+    jobId: text("job_id")
+      .notNull()
+      .references(() => jobs.id, { onDelete: "cascade" }),
+    pageNumber: integer("page_number").notNull(),
+    /** Position of the chunk within the job, starting at 0. */
+    chunkIndex: integer("chunk_index").notNull(),
+    content: text("content").notNull(),
+    embedding: vector("embedding", {
+      dimensions: EMBEDDING_DIMENSIONS,
+    }).notNull(),
+    embeddingModel: text("embedding_model").notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [
+    index("document_chunks_organization_id_idx").on(table.organizationId),
+    index("document_chunks_job_id_idx").on(table.jobId),
+    index("document_chunks_embedding_idx").using(
+      "hnsw",
+      table.embedding.op("vector_cosine_ops")
+    ),
+  ]
+);
+
+export const documentChunksRelations = relations(documentChunks, ({ one }) => ({
+  job: one(jobs, {
+    fields: [documentChunks.jobId],
+    references: [jobs.id],
+  }),
+  organization: one(organization, {
+    fields: [documentChunks.organizationId],
+    references: [organization.id],
+  }),
+}));
+
+export type DocumentChunk = typeof documentChunks.$inferSelect;
+export type NewDocumentChunk = typeof documentChunks.$inferInsert;
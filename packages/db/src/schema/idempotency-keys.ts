@@ -0,0 +1,39 @@
+import {
+  index,
+  integer,
+  jsonb,
+  pgTable,
+  primaryKey,
+  text,
+  timestamp,
+} from "drizzle-orm/pg-core";
+
+import { organization } from "./auth";
+
+/**
+ * Remembers the first response to a request sent with an `Idempotency-Key`
+ * header so retries of the same request can be answered without creating
+ * another job. `response` is null while the first request is still running.
+ */
+export const idempotencyKeys = pgTable(
+  "idempotency_keys",
+  {
+    organizationId: text("organization_id")
+      .notNull()
+      .references(() => organization.id, { onDelete: "cascade" }),
+    key: text("key").notNull(),
+    /** SHA-256 of the endpoint and request body. */
+    requestFingerprint: text("request_fingerprint").notNull(),
+    response: jsonb("response"),
+    statusCode: integer("status_code"),
+    expiresAt: timestamp("expires_at").notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [
+    primaryKey({ columns: [table.organizationId, table.key] }),
+    index("idempotency_keys_expires_at_idx").on(table.expiresAt),
+  ]
+);
+
+export type IdempotencyKey = typeof idempotencyKeys.$inferSelect;
+export type NewIdempotencyKey = typeof idempotencyKeys.$inferInsert;
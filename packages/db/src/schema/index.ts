@@ -1,5 +1,13 @@
 export * from "../lib/enums";
 export * from "./api-keys";
 export * from "./auth";
+export * from "./batches";
+export * from "./document-chunks";
+export * from "./idempotency-keys";
+export * from "./job-pages";
+export * from "./job-questions";
 export * from "./jobs";
+export * from "./ocr-cache";
+export * from "./organization-settings";
 export * from "./schemas";
+export * from "./webhooks";
@@ -0,0 +1,62 @@
+import { relations, sql } from "drizzle-orm";
+import {
+  index,
+  integer,
+  jsonb,
+  pgTable,
+  primaryKey,
+  text,
+  timestamp,
+} from "drizzle-orm/pg-core";
+
+import { jobs } from "./jobs";
+
+export type LayoutBlockType = "figure" | "formula" | "table" | "text" | "title";
+
+export interface LayoutBlock {
+  type: LayoutBlockType;
+  /** Raw region label reported by the OCR engine (e.g. "paragraph_title"). */
+  label: string;
+  /** `[x1, y1, x2, y2]` in page pixels, origin at the top-left corner. */
+  bbox: [number, number, number, number];
+  /** Position of the block in reading order, starting at 0. */
+  order: number;
+  content: string;
+}
+
+export const jobPages = pgTable(
+  "job_pages",
+  {
+    jobId: text("job_id")
+      .notNull()
+      .references(() => jobs.id, { onDelete: "cascade" }),
+    pageNumber: integer("page_number").notNull(),
+    markdown: text("markdown").notNull(),
+    width: integer("width"),
+    height: integer("height"),
+    layout: jsonb("layout").$type<LayoutBlock[]>(),
+    processingTimeMs: integer("processing_time_ms"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [
+    primaryKey({ columns: [table.jobId, table.pageNumber] }),
+    // Expression index so pages can be searched without storing a tsvector.
+    index("job_pages_search_idx").using(
+      "gin",
+      sql`to_tsvector('english', ${table.markdown})`
+    ),
+  ]
+);
+
+/** Full-text document of a page; matches `job_pages_search_idx`. */
+export const jobPageSearchVector = sql`to_tsvector('english', ${jobPages.markdown})`;
+
+export const jobPagesRelations = relations(jobPages, ({ one }) => ({
+  job: one(jobs, {
+    fields: [jobPages.jobId],
+    references: [jobs.id],
+  }),
+}));
+
+export type JobPage = typeof jobPages.$inferSelect;
+export type NewJobPage = typeof jobPages.$inferInsert;
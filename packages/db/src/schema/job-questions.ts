@@ -0,0 +1,68 @@
+import { relations } from "drizzle-orm";
+import {
+  index,
+  integer,
+  jsonb,
+  pgTable,
+  text,
+  timestamp,
+} from "drizzle-orm/pg-core";
+
+import { createId } from "../lib/ids";
+import { apiKeys } from "./api-keys";
+import { organization, user } from "./auth";
+import { jobs } from "./jobs";
+
+export interface AnswerCitation {
+  /** Page of the source document the answer relies on (1-indexed). */
+  pageNumber: number;
+}
+
+/** A question asked about a completed job and the answer it received. */
+export const jobQuestions = pgTable(
+  "job_questions",
+  {
+    id: text("id")
+      .primaryKey()
+      .$defaultFn(() => createId("jobQuestion")),
+    jobId: text("job_id")
+      .notNull()
+      .references(() => jobs.id, { onDelete: "cascade" }),
+    organizationId: text("organization_id")
+      .notNull()
+      .references(() => organization.id, { onDelete: "cascade" }),
+    userId: text("user_id")
+      .notNull()
+      .references(() => user.id, { onDelete: "cascade" }),
+    apiKeyId: text("api_key_id").references(() => apiKeys.id, {
+      onDelete: "set null",
+    }),
+    question: text("question").notNull(),
+    answer: text("answer").notNull(),
+    citations: jsonb("citations").$type<AnswerCitation[]>().notNull(),
+    llmModel: text("llm_model"),
+    promptTokens: integer("prompt_tokens"),
+    completionTokens: integer("completion_tokens"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [
+    index("job_questions_job_id_created_at_idx").on(
+      table.jobId,
+      table.createdAt
+    ),
+  ]
+);
+
+export const jobQuestionsRelations = relations(jobQuestions, ({ one }) => ({
+  job: one(jobs, {
+    fields: [jobQuestions.jobId],
+    references: [jobs.id],
+  }),
+  organization: one(organization, {
+    fields: [jobQuestions.organizationId],
+    references: [organization.id],
+  }),
+}));
+
+export type JobQuestion = typeof jobQuestions.$inferSelect;
+export type NewJobQuestion = typeof jobQuestions.$inferInsert;
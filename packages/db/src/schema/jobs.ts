@@ -1,5 +1,7 @@
-import { relations } from "drizzle-orm";
+import { relations, sql } from "drizzle-orm";
 import {
+  type AnyPgColumn,
+  boolean,
   index,
   integer,
   jsonb,
@@ -8,12 +10,70 @@ import {
   timestamp,
 } from "drizzle-orm/pg-core";
 
-import { jobStatusEnum, jobTypeEnum } from "../lib/enums";
+import {
+  cacheModeEnum,
+  jobStatusEnum,
+  jobTypeEnum,
+  retentionModeEnum,
+  webhookDeliveryStatusEnum,
+} from "../lib/enums";
 import { createId } from "../lib/ids";
 import { apiKeys } from "./api-keys";
 import { organization, user } from "./auth";
+import { batches } from "./batches";
 import { schemas } from "./schemas";
 
+// Only the start of long results is indexed; a tsvector is capped at 1MB.
+const SEARCH_PREFIX_CHARS = 100_000;
+
+/** A place where an extraction result breaks its JSON Schema. */
+export interface ExtractionValidationError {
+  /** JSON Pointer to the offending value; empty for the result itself. */
+  path: string;
+  message: string;
+}
+
+/** Where in the document an extracted value was read from. */
+export interface ExtractionCitation {
+  pageNumber: number;
+  /** Source text supporting the value, as it appears on the page. */
+  quote: string;
+  /**
+   * `[x1, y1, x2, y2]` of the layout block holding the quote, in page pixels.
+   * Null when the OCR engine reported no layout for the page.
+   */
+  bbox: [number, number, number, number] | null;
+  /** Page size in pixels, the space `bbox` is measured in. */
+  pageWidth: number | null;
+  pageHeight: number | null;
+}
+
+/** Confidence and source of one leaf value of an extraction result. */
+export interface ExtractionFieldMeta {
+  /** JSON Pointer to the value in the result. */
+  path: string;
+  /** From 0 to 1, as judged by the model. */
+  confidence: number;
+  /** Null when the value could not be traced back to the document. */
+  citation: ExtractionCitation | null;
+}
+
+/** Tokens one chunk of a chunked extraction used, its citations included. */
+export interface ExtractionChunkUsage {
+  firstPage: number;
+  lastPage: number;
+  promptTokens: number;
+  completionTokens: number;
+}
+
+/** Tokens an extraction used across every LLM call it made. */
+export interface ExtractionUsage {
+  promptTokens: number;
+  completionTokens: number;
+  /** Breakdown of chunked extractions; null for single-pass ones. */
+  chunks: ExtractionChunkUsage[] | null;
+}
+
 export const jobs = pgTable(
   "jobs",
   {
@@ -29,21 +89,47 @@ export const jobs = pgTable(
     apiKeyId: text("api_key_id").references(() => apiKeys.id, {
       onDelete: "set null",
     }),
+    batchId: text("batch_id").references(() => batches.id, {
+      onDelete: "set null",
+    }),
+    parentJobId: text("parent_job_id").references((): AnyPgColumn => jobs.id, {
+      onDelete: "set null",
+    }),
+    sourceJobId: text("source_job_id").references((): AnyPgColumn => jobs.id, {
+      onDelete: "set null",
+    }),
     type: jobTypeEnum("type").notNull(),
     status: jobStatusEnum("status").notNull().default("pending"),
     fileName: text("file_name").notNull(),
     fileKey: text("file_key"),
     fileSize: integer("file_size").notNull(),
     mimeType: text("mime_type").notNull(),
+    fileHash: text("file_hash"),
+    cacheMode: cacheModeEnum("cache_mode").notNull().default("use"),
+    cacheHit: boolean("cache_hit").notNull().default(false),
+    retention: retentionModeEnum("retention").notNull().default("standard"),
     sourceUrl: text("source_url"),
+    callbackUrl: text("callback_url"),
+    callbackStatus: webhookDeliveryStatusEnum("callback_status"),
     schemaId: text("schema_id").references(() => schemas.id, {
       onDelete: "set null",
     }),
     hints: text("hints"),
+    /** Whether extracted values are scored and cited, at extra LLM cost. */
+    citations: boolean("citations").notNull().default(false),
+    ocrEngine: text("ocr_engine"),
+    pageRange: text("page_range"),
     llmProvider: text("llm_provider"),
+    /** Model the request asked for; null leaves it to the schema default. */
+    requestedLlmModel: text("requested_llm_model"),
+    /** Model that produced the result once the job completes. */
     llmModel: text("llm_model"),
+    llmUsage: jsonb("llm_usage").$type<ExtractionUsage>(),
     markdownResult: text("markdown_result"),
     jsonResult: jsonb("json_result"),
+    jsonResultMeta: jsonb("json_result_meta").$type<ExtractionFieldMeta[]>(),
+    validationErrors:
+      jsonb("validation_errors").$type<ExtractionValidationError[]>(),
     pageCount: integer("page_count"),
     tokenCount: integer("token_count"),
     errorCode: text("error_code"),
@@ -52,6 +138,8 @@ export const jobs = pgTable(
     startedAt: timestamp("started_at"),
     completedAt: timestamp("completed_at"),
     processingTimeMs: integer("processing_time_ms"),
+    filePurgedAt: timestamp("file_purged_at"),
+    resultsPurgedAt: timestamp("results_purged_at"),
     createdAt: timestamp("created_at").defaultNow().notNull(),
     updatedAt: timestamp("updated_at")
       .defaultNow()
@@ -62,11 +150,28 @@ export const jobs = pgTable(
     index("jobs_organization_id_idx").on(table.organizationId),
     index("jobs_user_id_idx").on(table.userId),
     index("jobs_api_key_id_idx").on(table.apiKeyId),
+    index("jobs_batch_id_idx").on(table.batchId),
+    index("jobs_parent_job_id_idx").on(table.parentJobId),
+    index("jobs_source_job_id_idx").on(table.sourceJobId),
+    index("jobs_file_hash_idx").on(table.organizationId, table.fileHash),
     index("jobs_status_idx").on(table.status),
     index("jobs_created_at_idx").on(table.createdAt),
+    index("jobs_organization_created_at_id_idx").on(
+      table.organizationId,
+      table.createdAt,
+      table.id
+    ),
+    // Expression index, so the tsvector is never loaded with the job.
+    index("jobs_search_idx").using(
+      "gin",
+      sql`to_tsvector('english', left(coalesce(${table.markdownResult}, ''), ${sql.raw(String(SEARCH_PREFIX_CHARS))}))`
+    ),
   ]
 );
 
+/** Full-text document of a job's result; matches `jobs_search_idx`. */
+export const jobSearchVector = sql`to_tsvector('english', left(coalesce(${jobs.markdownResult}, ''), ${sql.raw(String(SEARCH_PREFIX_CHARS))}))`;
+
 export const jobsRelations = relations(jobs, ({ one }) => ({
   organization: one(organization, {
     fields: [jobs.organizationId],
@@ -84,6 +189,10 @@ export const jobsRelations = relations(jobs, ({ one }) => ({
     fields: [jobs.schemaId],
     references: [schemas.id],
   }),
+  batch: one(batches, {
+    fields: [jobs.batchId],
+    references: [batches.id],
+  }),
 }));
 
 export type Job = typeof jobs.$inferSelect;
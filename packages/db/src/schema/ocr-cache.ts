@@ -0,0 +1,72 @@
+import { relations } from "drizzle-orm";
+import {
+  index,
+  integer,
+  jsonb,
+  pgTable,
+  text,
+  timestamp,
+  uniqueIndex,
+} from "drizzle-orm/pg-core";
+
+import type { LayoutBlock } from "./job-pages";
+
+import { createId } from "../lib/ids";
+import { organization } from "./auth";
+
+export interface CachedOcrPage {
+  pageNumber: number;
+  markdown: string;
+  width: number | null;
+  height: number | null;
+  layout: LayoutBlock[] | null;
+  processingTimeMs: number | null;
+}
+
+/**
+ * OCR output of a document, keyed by the SHA-256 of its bytes and the options
+ * that change the output. Entries are scoped to an organization so documents
+ * are never shared across tenants.
+ */
+export const ocrCache = pgTable(
+  "ocr_cache",
+  {
+    id: text("id")
+      .primaryKey()
+      .$defaultFn(() => createId("ocrCache")),
+    organizationId: text("organization_id")
+      .notNull()
+      .references(() => organization.id, { onDelete: "cascade" }),
+    fileHash: text("file_hash").notNull(),
+    ocrEngine: text("ocr_engine").notNull(),
+    /** Normalized page range, or an empty string for the whole document. */
+    pageRange: text("page_range").notNull().default(""),
+    markdown: text("markdown").notNull(),
+    pageCount: integer("page_count").notNull(),
+    pages: jsonb("pages").$type<CachedOcrPage[]>().notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at")
+      .defaultNow()
+      .$onUpdate(() => new Date())
+      .notNull(),
+  },
+  (table) => [
+    uniqueIndex("ocr_cache_key_idx").on(
+      table.organizationId,
+      table.fileHash,
+      table.ocrEngine,
+      table.pageRange
+    ),
+    index("ocr_cache_created_at_idx").on(table.createdAt),
+  ]
+);
+
+export const ocrCacheRelations = relations(ocrCache, ({ one }) => ({
+  organization: one(organization, {
+    fields: [ocrCache.organizationId],
+    references: [organization.id],
+  }),
+}));
+
+export type OcrCacheEntry = typeof ocrCache.$inferSelect;
+export type NewOcrCacheEntry = typeof ocrCache.$inferInsert;
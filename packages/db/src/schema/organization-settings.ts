@@ -0,0 +1,36 @@
+import { relations } from "drizzle-orm";
+import { integer, pgTable, text, timestamp } from "drizzle-orm/pg-core";
+
+import { organization } from "./auth";
+
+export const organizationSettings = pgTable("organization_settings", {
+  organizationId: text("organization_id")
+    .primaryKey()
+    .references(() => organization.id, { onDelete: "cascade" }),
+  defaultOcrEngine: text("default_ocr_engine"),
+  defaultLlmProvider: text("default_llm_provider"),
+  /** Extraction models jobs may ask for besides the provider default. */
+  allowedLlmModels: text("allowed_llm_models").array(),
+  /** Days after which source files are deleted; null keeps them forever. */
+  fileRetentionDays: integer("file_retention_days"),
+  /** Days after which OCR and extraction results are deleted. */
+  resultRetentionDays: integer("result_retention_days"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at")
+    .defaultNow()
+    .$onUpdate(() => new Date())
+    .notNull(),
+});
+
+export const organizationSettingsRelations = relations(
+  organizationSettings,
+  ({ one }) => ({
+    organization: one(organization, {
+      fields: [organizationSettings.organizationId],
+      references: [organization.id],
+    }),
+  })
+);
+
+export type OrganizationSettings = typeof organizationSettings.$inferSelect;
+export type NewOrganizationSettings = typeof organizationSettings.$inferInsert;
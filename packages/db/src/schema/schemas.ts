@@ -8,6 +8,7 @@ import {
   timestamp,
 } from "drizzle-orm/pg-core";
 
+import { extractionStrategyEnum } from "../lib/enums";
 import { createId } from "../lib/ids";
 import { organization, user } from "./auth";
 
@@ -26,6 +27,11 @@ export const schemas = pgTable(
     name: text("name").notNull(),
     description: text("description"),
     jsonSchema: jsonb("json_schema").notNull(),
+    /** Extraction model for jobs that do not ask for one. */
+    defaultModel: text("default_model"),
+    extractionStrategy: extractionStrategyEnum("extraction_strategy")
+      .notNull()
+      .default("single"),
     sampleJobId: text("sample_job_id"),
     generatedBy: text("generated_by"),
     usageCount: integer("usage_count").notNull().default(0),
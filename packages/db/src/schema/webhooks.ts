@@ -0,0 +1,101 @@
+import { relations } from "drizzle-orm";
+import {
+  boolean,
+  index,
+  integer,
+  jsonb,
+  pgTable,
+  text,
+  timestamp,
+} from "drizzle-orm/pg-core";
+
+import { webhookDeliveryStatusEnum, webhookEventEnum } from "../lib/enums";
+import { createId } from "../lib/ids";
+import { organization } from "./auth";
+import { jobs } from "./jobs";
+
+export const webhookEndpoints = pgTable(
+  "webhook_endpoints",
+  {
+    id: text("id")
+      .primaryKey()
+      .$defaultFn(() => createId("webhookEndpoint")),
+    organizationId: text("organization_id")
+      .notNull()
+      .references(() => organization.id, { onDelete: "cascade" }),
+    url: text("url").notNull(),
+    description: text("description"),
+    secret: text("secret").notNull(),
+    events: webhookEventEnum("events").array().notNull(),
+    isActive: boolean("is_active").notNull().default(true),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at")
+      .defaultNow()
+      .$onUpdate(() => new Date())
+      .notNull(),
+  },
+  (table) => [
+    index("webhook_endpoints_organization_id_idx").on(table.organizationId),
+  ]
+);
+
+export const webhookDeliveries = pgTable(
+  "webhook_deliveries",
+  {
+    id: text("id")
+      .primaryKey()
+      .$defaultFn(() => createId("webhookDelivery")),
+    endpointId: text("endpoint_id")
+      .notNull()
+      .references(() => webhookEndpoints.id, { onDelete: "cascade" }),
+    jobId: text("job_id").references(() => jobs.id, { onDelete: "set null" }),
+    event: webhookEventEnum("event").notNull(),
+    payload: jsonb("payload").notNull(),
+    status: webhookDeliveryStatusEnum("status").notNull().default("pending"),
+    attempts: integer("attempts").notNull().default(0),
+    responseStatus: integer("response_status"),
+    responseBody: text("response_body"),
+    errorMessage: text("error_message"),
+    lastAttemptAt: timestamp("last_attempt_at"),
+    deliveredAt: timestamp("delivered_at"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at")
+      .defaultNow()
+      .$onUpdate(() => new Date())
+      .notNull(),
+  },
+  (table) => [
+    index("webhook_deliveries_endpoint_id_idx").on(table.endpointId),
+    index("webhook_deliveries_job_id_idx").on(table.jobId),
+  ]
+);
+
+export const webhookEndpointsRelations = relations(
+  webhookEndpoints,
+  ({ many, one }) => ({
+    deliveries: many(webhookDeliveries),
+    organization: one(organization, {
+      fields: [webhookEndpoints.organizationId],
+      references: [organization.id],
+    }),
+  })
+);
+
+export const webhookDeliveriesRelations = relations(
+  webhookDeliveries,
+  ({ one }) => ({
+    endpoint: one(webhookEndpoints, {
+      fields: [webhookDeliveries.endpointId],
+      references: [webhookEndpoints.id],
+    }),
+    job: one(jobs, {
+      fields: [webhookDeliveries.jobId],
+      references: [jobs.id],
+    }),
+  })
+);
+
+export type WebhookEndpoint = typeof webhookEndpoints.$inferSelect;
+export type NewWebhookEndpoint = typeof webhookEndpoints.$inferInsert;
+export type WebhookDelivery = typeof webhookDeliveries.$inferSelect;
+export type NewWebhookDelivery = typeof webhookDeliveries.$inferInsert;
@@ -6,6 +6,9 @@ export const env = createEnv({
   emptyStringAsUndefined: true,
   runtimeEnv: process.env,
   server: {
+    // Claude models for extraction, used by the `anthropic` LLM provider.
+    ANTHROPIC_API_KEY: z.string().optional(),
+    ANTHROPIC_MODEL: z.string().default("claude-sonnet-4-5"),
     BETTER_AUTH_SECRET: z.string().min(32),
     BETTER_AUTH_URL: z.url(),
     COMMIT_SHA: z.string().optional(),
@@ -15,13 +18,46 @@ export const env = createEnv({
       .pipe(z.array(z.url())),
     DATABASE_URL: z.url(),
     DEPLOYMENT_ID: z.string().optional(),
+    // OpenAI-compatible embeddings API used by the `openai` embedding provider.
+    EMBEDDING_API_KEY: z.string().optional(),
+    EMBEDDING_BASE_URL: z.url().default("https://api.openai.com/v1"),
+    EMBEDDING_MODEL: z.string().default("text-embedding-3-small"),
+    // Embeds parsed documents for semantic search. Unset disables indexing;
+    // `stub` is a deterministic local provider for tests and development.
+    EMBEDDING_PROVIDER: z.enum(["openai", "stub"]).optional(),
+    // Chunked extractions send at most this many characters of markdown per
+    // LLM call; longer pages are split at their headings.
+    EXTRACTION_CHUNK_CHARS: z.coerce.number().int().positive().default(60_000),
     GITHUB_CLIENT_ID: z.string().optional(),
     GITHUB_CLIENT_SECRET: z.string().optional(),
     HOST: z.string().default("0.0.0.0"),
+    // How long an Idempotency-Key is remembered after the first request.
+    IDEMPOTENCY_KEY_TTL_HOURS: z.coerce.number().int().positive().default(24),
+    // LLM provider used when the organization does not pick one.
+    LLM_PROVIDER: z
+      .enum(["openrouter", "openai-compatible", "anthropic"])
+      .default("openrouter"),
     NODE_ENV: z
       .enum(["development", "production", "test"])
       .default("development"),
+    // OCR engine used when neither the request nor the organization picks one.
+    // PDFs with more pages than this are OCR'd in chunks of this size, so a
+    // timeout only loses the chunk in flight.
+    OCR_CHUNK_PAGES: z.coerce.number().int().positive().default(25),
+    OCR_DEFAULT_ENGINE: z
+      .enum(["paddleocr-vl", "tesseract", "openai-vision"])
+      .default("paddleocr-vl"),
+    // OpenAI-compatible vision model used by the `openai-vision` OCR engine.
+    OCR_VISION_API_KEY: z.string().optional(),
+    OCR_VISION_BASE_URL: z.url().default("https://api.openai.com/v1"),
+    OCR_VISION_MODEL: z.string().default("gpt-4.1-mini"),
+    // Any OpenAI-compatible chat API (vLLM, Ollama, llama.cpp server), used by
+    // the `openai-compatible` LLM provider.
+    OPENAI_COMPATIBLE_API_KEY: z.string().optional(),
+    OPENAI_COMPATIBLE_BASE_URL: z.url().optional(),
+    OPENAI_COMPATIBLE_MODEL: z.string().optional(),
     OPENROUTER_API_KEY: z.string().optional(),
+    OPENROUTER_MODEL: z.string().default("google/gemini-2.5-flash"),
     // The upstream `paddleocr-vl` client requires an API key value to be set.
     // For self-hosted PaddleOCR-VL instances that don't enforce auth, any
     // non-empty string is fine.
@@ -46,8 +82,20 @@ export const env = createEnv({
     S3_SECRET_KEY: z.string().optional(),
     SERVICE_NAME: z.string().optional(),
     SERVICE_VERSION: z.string().optional(),
+    // Base URL of a tesseract-server instance used by the `tesseract` OCR engine.
+    TESSERACT_URL: z.url().optional(),
+    // BullMQ attempts, backoff delay and request timeout for webhook deliveries.
+    WEBHOOK_ATTEMPTS: z.coerce.number().int().positive().default(6),
+    WEBHOOK_BACKOFF_DELAY_MS: z.coerce
+      .number()
+      .int()
+      .positive()
+      .default(10_000),
+    WEBHOOK_TIMEOUT_MS: z.coerce.number().int().positive().default(10_000),
     // BullMQ worker concurrency. For very large PDFs, keep this low (1-2)
     // to avoid saturating the OCR service.
     WORKER_CONCURRENCY: z.coerce.number().int().positive().default(5),
+    // How long uncollected results of zero-retention jobs are kept.
+    ZERO_RETENTION_TTL_MINUTES: z.coerce.number().int().positive().default(60),
   },
 });
@@ -1,6 +1,6 @@
-import { afterEach, describe, expect, test } from "bun:test";
+import { afterEach, describe, expect, spyOn, test } from "bun:test";
 
-import { extract, parse } from "./index";
+import { createOcrBase, extract, parse } from "./index";
 
 const originalApiKey = process.env.OCRBASE_API_KEY;
 
@@ -30,3 +30,37 @@ describe("simple API", () => {
     ).rejects.toThrow("Missing API key");
   });
 });
+
+describe("page selection", () => {
+  const submittedPages = async (pages: number[] | string): Promise<unknown> => {
+    const fetchSpy = spyOn(globalThis, "fetch").mockResolvedValue(
+      Response.json({ message: "Rejected" }, { status: 400 })
+    );
+
+    try {
+      const ocr = createOcrBase({
+        apiKey: "sk_test",
+        baseUrl: "http://ocrbase.test",
+      });
+      await ocr.parse({ pages, url: "https://example.com/invoice.pdf" });
+
+      const [, init] = fetchSpy.mock.calls[0] ?? [];
+      return (JSON.parse(String(init?.body)) as { pages?: string }).pages;
+    } finally {
+      fetchSpy.mockRestore();
+    }
+  };
+
+  test("sends a list of pages as a sorted range string", async () => {
+    expect(await submittedPages([7, 3, 1, 2, 2])).toBe("1-3,7");
+  });
+
+  test("drops page numbers that are not positive integers", async () => {
+    expect(await submittedPages([0, -1, 1.5, 4])).toBe("4");
+  });
+
+  test("passes range strings through and omits blank ones", async () => {
+    expect(await submittedPages("2-5")).toBe("2-5");
+    expect(await submittedPages("  ")).toBeUndefined();
+  });
+});
@@ -47,21 +47,55 @@ export interface OcrBaseConfig {
   timeoutMs?: number;
 }
 
+export type OcrEngineName = "openai-vision" | "paddleocr-vl" | "tesseract";
+
+export type PageSelection = number[] | string;
+
+export type RetentionMode = "none" | "standard";
+
+/** `chunked` extracts long documents a few pages at a time and merges. */
+export type ExtractionStrategy = "chunked" | "single";
+
 export interface ParseInput {
+  engine?: OcrEngineName;
   file?: DocumentInput;
   fileName?: string;
   mimeType?: string;
-  pages?: number[];
+  /**
+   * Pages to process, 1-based: either a list (`[1, 2, 5]`) or a range string
+   * (`"1-3,7"`). Only these pages are OCR'd and billed.
+   */
+  pages?: PageSelection;
+  /**
+   * `"none"` deletes the file once processing ends and the results once they
+   * are returned. The document cannot be fetched again afterwards.
+   */
+  retention?: RetentionMode;
   timeoutMs?: number;
   url?: string | URL;
 }
 
 export interface ExtractInput<TSchema = unknown> {
+  /**
+   * Score every extracted value and cite where it came from, in `fields`.
+   * Runs an extra LLM call, billed as usage.
+   */
+  citations?: boolean;
+  engine?: OcrEngineName;
+  /** Use `chunked` for documents longer than the model's context window. */
+  extractionStrategy?: ExtractionStrategy;
   file?: DocumentInput;
   fileName?: string;
   keepSchema?: boolean;
   mimeType?: string;
+  /**
+   * Extraction model to run, one of the ids returned by `listModels()`.
+   * Defaults to the schema's default model, then the provider default.
+   */
+  model?: string;
+  pages?: PageSelection;
   prompt?: string;
+  retention?: RetentionMode;
   schema: TSchema;
   schemaDescription?: string;
   schemaName?: string;
@@ -77,21 +111,61 @@ export interface ParseOutput {
     processingMs: number;
   };
   pages: {
+    height: number | null;
     number: number;
     text: string;
+    width: number | null;
   }[];
   text: string;
 }
 
+export interface ValidationError {
+  message: string;
+  /** JSON Pointer to the offending value, e.g. `/lineItems/0/total`. */
+  path: string;
+}
+
+export interface FieldCitation {
+  /** `[x1, y1, x2, y2]` in page pixels; null when the page has no layout data. */
+  bbox: [number, number, number, number] | null;
+  pageHeight: number | null;
+  pageNumber: number;
+  pageWidth: number | null;
+  /** Source text supporting the value, as it appears on the page. */
+  quote: string;
+}
+
+export interface FieldMeta {
+  /** Null when the value could not be found in the document. */
+  citation: FieldCitation | null;
+  /** From 0 to 1. */
+  confidence: number;
+  /** JSON Pointer to the value in `data`, e.g. `/lineItems/0/total`. */
+  path: string;
+}
+
 export interface ExtractOutput<TData = Record<string, unknown>> {
+  /** Mean confidence of the extracted fields; null when none were scored. */
   confidence: number | null;
   data: TData;
+  /** Confidence and source citation of each value; empty without `citations`. */
+  fields: FieldMeta[];
   metadata: {
     jobId: string;
     model: string;
     pageCount: number;
     processingMs: number;
   };
+  /** Where `data` breaks the schema; empty when it conforms. */
+  validationErrors: ValidationError[];
+}
+
+export interface ModelInfo {
+  /** Used when neither the request nor the schema picks a model. */
+  default: boolean;
+  id: string;
+  provider: string;
+  providerLabel: string;
 }
 
 export type OcrResult<TData, TError = unknown> =
@@ -137,13 +211,23 @@ interface OcrJob {
   errorMessage?: string | null;
   id: string;
   jsonResult?: unknown;
+  jsonResultMeta?: FieldMeta[] | null;
   llmModel?: string | null;
   markdownResult?: string | null;
+  validationErrors?: ValidationError[] | null;
+  ocrEngine?: string | null;
   pageCount?: number | null;
   processingTimeMs?: number | null;
   status: string;
 }
 
+interface OcrJobPage {
+  height?: number | null;
+  markdown?: string;
+  pageNumber?: number;
+  width?: number | null;
+}
+
 interface OcrBaseError {
   status: number;
   value: Record<string, unknown>;
@@ -154,6 +238,7 @@ export interface OcrBaseSdk {
   extract: <TSchema>(
     input: ExtractInput<TSchema>
   ) => Promise<OcrResult<ExtractOutput<InferSchemaOutput<TSchema>>, unknown>>;
+  listModels: () => Promise<OcrResult<ModelInfo[], unknown>>;
   parse: (input: ParseInput) => Promise<OcrResult<ParseOutput, unknown>>;
 }
 
@@ -487,6 +572,14 @@ const readNumber = (value: unknown, fallback: number): number =>
 const readNullableString = (value: unknown): string | null =>
   typeof value === "string" ? value : null;
 
+const readFieldMeta = (job: OcrJob | null): FieldMeta[] =>
+  job?.jsonResultMeta ?? [];
+
+const meanConfidence = (fields: FieldMeta[]): number | null =>
+  fields.length === 0
+    ? null
+    : fields.reduce((sum, field) => sum + field.confidence, 0) / fields.length;
+
 const readErrorMessage = (error: unknown): string | null => {
   if (typeof error === "object" && error !== null) {
     const maybeNestedValue = (error as { value?: unknown }).value;
@@ -523,33 +616,64 @@ const unwrapResultOrThrow = <TData>(
   throw new Error(readErrorMessage(result.error) ?? fallbackMessage);
 };
 
+// Only used for jobs created before pages were stored separately.
 const splitMarkdownIntoPages = (markdown: string): ParseOutput["pages"] => {
   if (markdown.length === 0) {
     return [];
   }
 
   return markdown.split(PAGE_SEPARATOR).map((pageText, index) => ({
+    height: null,
     number: index + 1,
     text: pageText,
+    width: null,
   }));
 };
 
-const applyPageFilter = (
-  pages: ParseOutput["pages"],
-  selectedPages: number[] | undefined
-): ParseOutput["pages"] => {
-  if (!selectedPages || selectedPages.length === 0) {
-    return pages;
+const toParseOutputPage = (
+  page: OcrJobPage,
+  index: number
+): ParseOutput["pages"][number] => ({
+  height: typeof page.height === "number" ? page.height : null,
+  number: readNumber(page.pageNumber, index + 1),
+  text: page.markdown ?? "",
+  width: typeof page.width === "number" ? page.width : null,
+});
+
+const toPageRange = (pages: PageSelection | undefined): string | undefined => {
+  if (pages === undefined) {
+    return undefined;
+  }
+
+  if (typeof pages === "string") {
+    return pages.trim().length > 0 ? pages : undefined;
   }
 
-  const wanted = new Set(
-    selectedPages.filter(
-      (pageNumber): pageNumber is number =>
-        Number.isInteger(pageNumber) && pageNumber > 0
-    )
-  );
+  const sorted = [
+    ...new Set(
+      pages.filter(
+        (pageNumber) => Number.isInteger(pageNumber) && pageNumber > 0
+      )
+    ),
+  ].toSorted((a, b) => a - b);
+
+  const spans: [number, number][] = [];
+  for (const pageNumber of sorted) {
+    const last = spans.at(-1);
+    if (last && pageNumber === last[1] + 1) {
+      last[1] = pageNumber;
+    } else {
+      spans.push([pageNumber, pageNumber]);
+    }
+  }
 
-  return pages.filter((page) => wanted.has(page.number));
+  if (spans.length === 0) {
+    return undefined;
+  }
+
+  return spans
+    .map(([start, end]) => (start === end ? `${start}` : `${start}-${end}`))
+    .join(",");
 };
 
 const pagesToText = (pages: ParseOutput["pages"]): string =>
@@ -707,6 +831,16 @@ const handleSseEvent = (
     };
   }
 
+  if (eventType === "cancelled") {
+    return {
+      data: null,
+      error: createSdkError(409, {
+        jobId,
+        message: "Realtime job was cancelled.",
+      }),
+    };
+  }
+
   return null;
 };
 
@@ -839,6 +973,27 @@ const getJobSnapshot = async (
   }
 };
 
+const getJobPages = async (
+  client: EdenClient,
+  jobId: string
+): Promise<ParseOutput["pages"] | null> => {
+  try {
+    const response = await client.v1.jobs({ id: jobId }).pages.get();
+    if (response.error !== null) {
+      return null;
+    }
+
+    const { data } = response.data as unknown as { data?: OcrJobPage[] };
+    if (!Array.isArray(data) || data.length === 0) {
+      return null;
+    }
+
+    return data.map(toParseOutputPage);
+  } catch {
+    return null;
+  }
+};
+
 const cleanupTemporarySchema = async (
   client: EdenClient,
   schemaId: string
@@ -865,6 +1020,7 @@ const createTemporarySchemaAndSubmitExtract = async <TSchema>({
     description:
       input.schemaDescription ??
       "Temporary schema created by ocrbase SDK for extraction.",
+    extractionStrategy: input.extractionStrategy,
     jsonSchema,
     name: input.schemaName ?? `${DEFAULT_SCHEMA_NAME_PREFIX}-${Date.now()}`,
   });
@@ -888,7 +1044,12 @@ const createTemporarySchemaAndSubmitExtract = async <TSchema>({
 
   const submitted = await client.v1.extract.post({
     ...request,
+    citations: input.citations,
+    engine: input.engine,
     hints: input.prompt,
+    model: input.model,
+    pages: toPageRange(input.pages),
+    retention: input.retention,
     schemaId,
   });
 
@@ -937,7 +1098,12 @@ export const createOcrBase = (config: OcrBaseConfig = {}): OcrBaseSdk => {
     }
 
     try {
-      const submitted = await client.v1.parse.post(request);
+      const submitted = await client.v1.parse.post({
+        ...request,
+        engine: input.engine,
+        pages: toPageRange(input.pages),
+        retention: input.retention,
+      });
       if (submitted.error !== null) {
         return { data: null, error: submitted.error };
       }
@@ -971,29 +1137,27 @@ export const createOcrBase = (config: OcrBaseConfig = {}): OcrBaseSdk => {
         };
       }
 
-      const snapshot = await getJobSnapshot(client, jobId);
+      const [snapshot, storedPages] = await Promise.all([
+        getJobSnapshot(client, jobId),
+        getJobPages(client, jobId),
+      ]);
       const markdown =
         completed.data.markdownResult ?? snapshot?.markdownResult ?? "";
-      const allPages = splitMarkdownIntoPages(markdown);
-      const selectedPages = applyPageFilter(allPages, input.pages);
-      const pageCount =
-        input.pages && input.pages.length > 0
-          ? selectedPages.length
-          : readNumber(snapshot?.pageCount, selectedPages.length);
+      const pages = storedPages ?? splitMarkdownIntoPages(markdown);
 
       return {
         data: {
           metadata: {
             jobId,
-            model: DEFAULT_PARSE_MODEL,
-            pageCount,
+            model: readString(snapshot?.ocrEngine) ?? DEFAULT_PARSE_MODEL,
+            pageCount: readNumber(snapshot?.pageCount, pages.length),
             processingMs: readNumber(
               completed.data.processingTimeMs ?? snapshot?.processingTimeMs,
               0
             ),
           },
-          pages: selectedPages,
-          text: pagesToText(selectedPages),
+          pages,
+          text: pagesToText(pages),
         },
         error: null,
       };
@@ -1057,14 +1221,16 @@ export const createOcrBase = (config: OcrBaseConfig = {}): OcrBaseSdk => {
       }
 
       const snapshot = await getJobSnapshot(client, jobId);
+      const fields = readFieldMeta(snapshot);
 
       return {
         data: {
-          confidence: null,
+          confidence: meanConfidence(fields),
           data:
             ((completed.data.jsonResult ??
               snapshot?.jsonResult) as InferSchemaOutput<TSchema>) ??
             ({} as InferSchemaOutput<TSchema>),
+          fields,
           metadata: {
             jobId,
             model: readNullableString(snapshot?.llmModel) ?? "unknown",
@@ -1074,6 +1240,7 @@ export const createOcrBase = (config: OcrBaseConfig = {}): OcrBaseSdk => {
               0
             ),
           },
+          validationErrors: snapshot?.validationErrors ?? [],
         },
         error: null,
       };
@@ -1086,9 +1253,32 @@ export const createOcrBase = (config: OcrBaseConfig = {}): OcrBaseSdk => {
     }
   };
 
+  const listModels = async (): Promise<OcrResult<ModelInfo[], unknown>> => {
+    try {
+      const response = await client.v1.models.get();
+      if (response.error !== null) {
+        return { data: null, error: response.error };
+      }
+
+      if (!Array.isArray(response.data)) {
+        return {
+          data: null,
+          error: createSdkError(500, {
+            message: "Models request succeeded but did not return a list.",
+          }),
+        };
+      }
+
+      return { data: response.data as ModelInfo[], error: null };
+    } catch (error) {
+      return { data: null, error: toUnknownError(error) };
+    }
+  };
+
   return {
     client: client as unknown as EdenRawClient,
     extract,
+    listModels,
     parse,
   };
 };
@@ -1096,8 +1286,17 @@ export const createOcrBase = (config: OcrBaseConfig = {}): OcrBaseSdk => {
 export const generateText = async (
   options: GenerateTextOptions
 ): Promise<ParseOutput> => {
-  const { apiKey, baseUrl, file, fileName, mimeType, pages, timeoutMs, url } =
-    options;
+  const {
+    apiKey,
+    baseUrl,
+    engine,
+    file,
+    fileName,
+    mimeType,
+    pages,
+    timeoutMs,
+    url,
+  } = options;
 
   const ocr = createOcrBase({
     apiKey,
@@ -1106,6 +1305,7 @@ export const generateText = async (
   });
 
   const result = await ocr.parse({
+    engine,
     file,
     fileName,
     mimeType,
@@ -1123,10 +1323,14 @@ export const generateObject = async <TSchema>(
   const {
     apiKey,
     baseUrl,
+    citations,
+    engine,
     file,
     fileName,
     keepSchema,
     mimeType,
+    model,
+    pages,
     prompt,
     schema,
     schemaDescription,
@@ -1142,10 +1346,14 @@ export const generateObject = async <TSchema>(
   });
 
   const result = await ocr.extract({
+    citations,
+    engine,
     file,
     fileName,
     keepSchema,
     mimeType,
+    model,
+    pages,
     prompt,
     schema,
     schemaDescription,